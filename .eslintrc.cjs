@@ -10,4 +10,8 @@ module.exports = {
   globals: {
     shopify: "readonly"
   },
+  settings: {
+    // Tests run on node:test, whose describe/test API the jest rules still fit; jest itself is not installed.
+    jest: { version: 29 },
+  },
 };
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import {
   Badge,
+  BlockStack,
   Box,
   Button,
   ButtonGroup,
@@ -15,6 +16,7 @@ import {
   Spinner,
   Text,
   TextField,
+  Thumbnail,
 } from "@shopify/polaris";
 import { AlertCircleIcon, CheckIcon, MagicIcon, RefreshIcon, SearchIcon } from "@shopify/polaris-icons";
 import { FixedSizeList as VirtualList } from "react-window";
@@ -25,6 +27,7 @@ import type {
   WorkspacePayload,
   WorkspaceProductContext,
 } from "../models/fixWorkspace.server";
+import { replaceHtmlText, sanitizeHtml } from "../utils/html";
 
 export type WorkspaceModalProps = {
   open: boolean;
@@ -32,6 +35,8 @@ export type WorkspaceModalProps = {
   scope: FixScope;
   payload?: WorkspacePayload;
   shopDomain: string;
+  /** Fixes are queued for an approver instead of being written to the store. */
+  approvalRequired?: boolean;
   onClose: () => void;
   onScopeChange: (scope: FixScope) => void;
   onApplyIssue: (issue: WorkspaceIssue) => Promise<{ success?: boolean; error?: string } | void>;
@@ -52,6 +57,7 @@ const FIX_SCOPE_OPTIONS: { label: string; value: FixScope }[] = [
   { label: "Descriptions only", value: "description" },
   { label: "Metadata only", value: "metadata" },
   { label: "Template content only", value: "template" },
+  { label: "Image alt text only", value: "image" },
 ];
 
 type FilterToken = "all" | "high" | "resolved";
@@ -62,6 +68,7 @@ export function AIFixWorkspace({
   scope,
   payload,
   shopDomain,
+  approvalRequired = false,
   onClose,
   onScopeChange,
   onApplyIssue,
@@ -164,6 +171,8 @@ export function AIFixWorkspace({
   const renderIssueCard = (issue: WorkspaceIssue) => {
     const draftValue = drafts[issue.id] ?? issue.after ?? issue.suggestion ?? "";
     const loadingState = activeIssueId === issue.id;
+    const descriptionPreview =
+      issue.targetField === "description" ? previewDescriptionFix(product?.descriptionHtml, issue.before, draftValue) : null;
 
     return (
       <Card padding="400" background="bg-surface-secondary" sectioned>
@@ -181,6 +190,7 @@ export function AIFixWorkspace({
                   Confidence {Math.round(issue.confidence * 100)}%
                 </Text>
               )}
+              {issue.status === "proposed" && <Badge tone="attention">Awaiting approval</Badge>}
               {issue.status === "applied" && <Icon source={CheckIcon} tone="success" />}
               {issue.status === "error" && <Icon source={AlertCircleIcon} tone="critical" />}
             </InlineStack>
@@ -195,6 +205,14 @@ export function AIFixWorkspace({
                 Policy: {issue.policyReference}
               </Text>
             )}
+            {issue.targetField === "template" && (issue.templatePath || issue.templateKey) && (
+              <Text as="p" tone="subdued">
+                Setting: {issue.templatePath ?? issue.templateKey}
+              </Text>
+            )}
+            {issue.targetField === "image" && issue.imageUrl && (
+              <Thumbnail source={issue.imageUrl} alt={issue.before || product?.title || "Product image"} size="small" />
+            )}
             {issue.sourceUrl && (
               <a href={issue.sourceUrl} target="_blank" rel="noreferrer">
                 View policy reference
@@ -206,9 +224,23 @@ export function AIFixWorkspace({
             {diffMode === "split" ? (
               <InlineGrid columns={{ xs: 1, md: 2 }} gap="300">
                 <Card title="Original" subdued>
-                  <Text as="p" tone="subdued">
-                    {issue.before || fallbackSnippet(product, issue.targetField)}
-                  </Text>
+                  <BlockStack gap="100">
+                    {descriptionPreview?.html ? (
+                      <div
+                        style={{ maxHeight: 140, overflowY: "auto" }}
+                        dangerouslySetInnerHTML={{ __html: descriptionPreview.html }}
+                      />
+                    ) : (
+                      <Text as="p" tone="subdued">
+                        {issue.before || fallbackSnippet(product, issue.targetField)}
+                      </Text>
+                    )}
+                    {descriptionPreview?.error && (
+                      <Text as="p" tone="critical" variant="bodySm">
+                        {descriptionPreview.error}
+                      </Text>
+                    )}
+                  </BlockStack>
                 </Card>
                 <Card title="AI Suggested fix">
                   <Checkbox
@@ -243,9 +275,9 @@ export function AIFixWorkspace({
                 size="slim"
                 icon={MagicIcon}
                 onClick={() => applySingle(issue)}
-                disabled={loadingState}
+                disabled={loadingState || issue.status === "proposed"}
               >
-                {loadingState ? <Spinner size="small" /> : "Apply fix"}
+                {loadingState ? <Spinner size="small" /> : approvalRequired ? "Submit for approval" : "Apply fix"}
               </Button>
               <Button size="slim" icon={RefreshIcon} onClick={() => regenerateSingle(issue)} disabled={loadingState}>
                 Regenerate fix
@@ -259,6 +291,11 @@ export function AIFixWorkspace({
                   Preview in Shopify Product Editor
                 </Button>
               )}
+              {issue.previewUrl && (
+                <Button size="slim" url={issue.previewUrl} target="_blank">
+                  Preview draft theme
+                </Button>
+              )}
             </InlineStack>
             {issue.errorMessage && (
               <Text tone="critical" variant="bodySm">
@@ -276,7 +313,11 @@ export function AIFixWorkspace({
       onClose={onClose}
       fullScreen
       title={`AI Fix Workspace${product ? ` — ${product.title}` : ""}`}
-      primaryAction={{ content: "Apply All Fixes", onAction: onApplyAll, loading: applyAllProgress?.running }}
+      primaryAction={{
+        content: approvalRequired ? "Submit All for Approval" : "Apply All Fixes",
+        onAction: onApplyAll,
+        loading: applyAllProgress?.running,
+      }}
       secondaryActions={[
         { content: "Rescan product", onAction: onRescan },
       ]}
@@ -417,15 +458,28 @@ function formatField(field: string) {
       return "Metadata";
     case "template":
       return "Template";
+    case "image":
+      return "Image alt text";
     default:
       return "Description";
   }
 }
 
+// The live description with the fix marked up as <del>/<ins>, exactly as it will be applied.
+function previewDescriptionFix(html: string | null | undefined, before: string | undefined, after: string) {
+  if (!html?.trim() || !before) return null;
+  try {
+    return { html: sanitizeHtml(replaceHtmlText(html, before, after, { markChanges: true }).html) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Preview unavailable" };
+  }
+}
+
 function fallbackSnippet(product: WorkspaceProductContext | undefined, field: string) {
   if (!product) return "";
   if (field === "title") return product.title;
   if (field === "metadata") return product.metafields[0]?.value ?? "";
   if (field === "template") return "Template snippet unavailable";
+  if (field === "image") return "No alt text";
   return product.descriptionText;
 }
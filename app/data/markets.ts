@@ -0,0 +1,45 @@
+export type MarketOption = { label: string; value: string };
+
+export const MARKETS: MarketOption[] = [
+  { label: "United Kingdom", value: "uk" },
+  { label: "United States", value: "us" },
+  { label: "European Union", value: "eu" },
+  { label: "Germany", value: "de" },
+  { label: "Australia", value: "au" },
+  { label: "Canada", value: "ca" },
+];
+
+/** `Scan.market` of a parent scan that covers several markets; its per-market results live on child scans. */
+export const MULTI_MARKET = "multi";
+
+export function marketLabel(market: string) {
+  return MARKETS.find((option) => option.value === market)?.label ?? market.toUpperCase();
+}
+
+/** Lowercased, de-duplicated market codes from a comma-separated form value or list. */
+export function parseMarkets(value: string | string[] | null | undefined) {
+  const list = Array.isArray(value) ? value : (value ?? "").split(",");
+  return Array.from(new Set(list.map((market) => market.trim().toLowerCase()).filter((market) => market && market !== MULTI_MARKET)));
+}
+
+// Storefront languages native to each compliance market, preferred when a Shopify Market publishes several.
+export const MARKET_LANGUAGES: Record<string, string[]> = {
+  uk: ["en"],
+  us: ["en"],
+  de: ["de"],
+  au: ["en"],
+  ca: ["en", "fr"],
+};
+
+const EU_COUNTRIES = new Set([
+  "AT", "BE", "BG", "HR", "CY", "CZ", "DK", "EE", "FI", "FR", "GR", "HU", "IE", "IT",
+  "LV", "LT", "LU", "MT", "NL", "PL", "PT", "RO", "SK", "SI", "ES", "SE",
+]);
+
+const COUNTRY_MARKETS: Record<string, string> = { GB: "uk", US: "us", DE: "de", AU: "au", CA: "ca" };
+
+/** Compliance market whose rules apply to shoppers in a country (ISO 3166 alpha-2), or null when none is supported. */
+export function complianceMarketForCountry(countryCode: string) {
+  const code = countryCode.toUpperCase();
+  return COUNTRY_MARKETS[code] ?? (EU_COUNTRIES.has(code) ? "eu" : null);
+}
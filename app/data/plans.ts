@@ -0,0 +1,98 @@
+export type PlanId = "free" | "starter" | "pro";
+
+/** `null` means unlimited. */
+export type PlanLimits = {
+  productsPerScan: number | null;
+  scansPerMonth: number | null;
+  /** Distinct markets that can be scanned in a calendar month. */
+  markets: number | null;
+  autoFix: boolean;
+  scheduledScans: boolean;
+  exports: boolean;
+};
+
+export type PlanDefinition = {
+  id: PlanId;
+  /** The AppSubscription name; Shopify echoes it back in `app_subscriptions/update`. */
+  billingName: string | null;
+  label: string;
+  monthlyPrice: number;
+  trialDays: number;
+  /** Auto-fixes included each billing period before usage charges apply. */
+  includedFixes: number | null;
+  usagePricePerFix: number;
+  usageCappedAmount: number;
+  limits: PlanLimits;
+};
+
+export const PLANS: Record<PlanId, PlanDefinition> = {
+  free: {
+    id: "free",
+    billingName: null,
+    label: "Free",
+    monthlyPrice: 0,
+    trialDays: 0,
+    includedFixes: 0,
+    usagePricePerFix: 0,
+    usageCappedAmount: 0,
+    limits: {
+      productsPerScan: 25,
+      scansPerMonth: 4,
+      markets: 1,
+      autoFix: false,
+      scheduledScans: false,
+      exports: false,
+    },
+  },
+  starter: {
+    id: "starter",
+    billingName: "Starter",
+    label: "Starter",
+    monthlyPrice: 19,
+    trialDays: 7,
+    includedFixes: 100,
+    usagePricePerFix: 0.1,
+    usageCappedAmount: 20,
+    limits: {
+      productsPerScan: 500,
+      scansPerMonth: 60,
+      markets: 3,
+      autoFix: true,
+      scheduledScans: true,
+      exports: true,
+    },
+  },
+  pro: {
+    id: "pro",
+    billingName: "Pro",
+    label: "Pro",
+    monthlyPrice: 49,
+    trialDays: 7,
+    includedFixes: 1000,
+    usagePricePerFix: 0.05,
+    usageCappedAmount: 50,
+    limits: {
+      productsPerScan: null,
+      scansPerMonth: null,
+      markets: null,
+      autoFix: true,
+      scheduledScans: true,
+      exports: true,
+    },
+  },
+};
+
+export const PAID_PLAN_IDS: PlanId[] = ["starter", "pro"];
+
+export function isPlanId(value: unknown): value is PlanId {
+  return typeof value === "string" && value in PLANS;
+}
+
+/** Shops created before billing existed have a null plan; anything unrecognised is treated as free. */
+export function toPlanId(value: unknown): PlanId {
+  return isPlanId(value) ? value : "free";
+}
+
+export function planForBillingName(name: string | null | undefined) {
+  return PAID_PLAN_IDS.find((id) => PLANS[id].billingName === name) ?? null;
+}
@@ -2,7 +2,30 @@ export type PolicyRule = {
   category: string;
   severity: "high" | "medium" | "low";
   keywords: string[];
+  /**
+   * Extra keywords per ISO 639-1 language, matched when the product text is detected as that language.
+   * `keywords` always apply, since English terms ("CBD", "detox") are common in every language.
+   */
+  keywordsByLanguage?: Record<string, string[]>;
   description: string;
+  /** Case-insensitive regular expression sources, used by merchant-defined rules. */
+  patterns?: string[];
+  /** Words allowed between the parts of a multi-word keyword, e.g. 1 lets "heal instantly" match "heals almost instantly". */
+  proximity?: number;
+};
+
+// Bundled copy of the 2025.11 policy packs. The database packs (see `policyPack.server.ts`) take precedence;
+// these are only used when no pack has been seeded for a market chain.
+export const BUILTIN_POLICY_PACK_VERSION = "2025.11";
+
+// Markets that inherit from something other than `default` when no pack row says otherwise.
+export const POLICY_PARENT_MARKETS: Record<string, string> = {
+  de: "eu",
+  fr: "eu",
+  es: "eu",
+  it: "eu",
+  nl: "eu",
+  ie: "eu",
 };
 
 export const POLICY_KEYWORDS: Record<string, PolicyRule[]> = {
@@ -12,24 +35,52 @@ export const POLICY_KEYWORDS: Record<string, PolicyRule[]> = {
       severity: "high",
       description: "Unsubstantiated medical or therapeutic promises",
       keywords: ["cure", "miracle", "heal instantly", "reverse disease", "prescription strength"],
+      keywordsByLanguage: {
+        de: ["heilt", "heilung", "wundermittel", "sofortige heilung", "verschreibungsstark"],
+        es: ["cura", "curar", "milagro", "milagroso", "sana al instante", "revierte la enfermedad"],
+        fr: ["guérit", "guérir", "miracle", "miraculeux", "guérison instantanée", "inverse la maladie"],
+        it: ["guarisce", "miracoloso", "cura miracolosa", "guarigione istantanea"],
+        nl: ["geneest", "genezing", "wondermiddel", "wonderbaarlijk"],
+      },
     },
     {
       category: "CBD / Controlled Substances",
       severity: "high",
       description: "Mentions of CBD, THC, or other restricted substances",
       keywords: ["cbd", "thc", "cannabis", "hemp extract"],
+      keywordsByLanguage: {
+        de: ["hanfextrakt", "hanföl"],
+        es: ["extracto de cáñamo", "aceite de cáñamo"],
+        fr: ["extrait de chanvre", "huile de chanvre"],
+        it: ["estratto di canapa", "olio di canapa"],
+        nl: ["hennepextract", "hennepolie"],
+      },
     },
     {
       category: "Superlatives & Guarantees",
       severity: "medium",
       description: "Absolutes that often trigger Google Ads policy warnings",
       keywords: ["best", "guaranteed", "100% success", "risk-free"],
+      keywordsByLanguage: {
+        de: ["der beste", "die beste", "das beste", "garantiert", "risikofrei", "100% erfolg"],
+        es: ["el mejor", "la mejor", "garantizado", "garantizada", "sin riesgo", "100% de éxito"],
+        fr: ["le meilleur", "la meilleure", "garanti", "sans risque", "100% de réussite"],
+        it: ["il migliore", "la migliore", "garantito", "senza rischi", "successo al 100%"],
+        nl: ["de beste", "het beste", "gegarandeerd", "zonder risico", "100% succes"],
+      },
     },
     {
       category: "Weight Loss Claims",
       severity: "medium",
       description: "Bold weight loss promises",
       keywords: ["burn fat", "rapid weight loss", "lose inches", "detox"],
+      keywordsByLanguage: {
+        de: ["fettverbrennung", "schnell abnehmen", "entgiftung"],
+        es: ["quema grasa", "pérdida de peso rápida", "adelgazar rápido", "desintoxicación"],
+        fr: ["brûle les graisses", "perte de poids rapide", "maigrir vite", "détox"],
+        it: ["brucia grassi", "perdita di peso rapida", "dimagrire velocemente", "disintossicante"],
+        nl: ["vetverbranding", "snel afvallen", "ontgifting"],
+      },
     },
   ],
   uk: [
@@ -46,6 +97,9 @@ export const POLICY_KEYWORDS: Record<string, PolicyRule[]> = {
       severity: "high",
       description: "Statements implying FDA approval",
       keywords: ["fda approved", "fda cleared"],
+      keywordsByLanguage: {
+        es: ["aprobado por la fda", "autorizado por la fda"],
+      },
     },
   ],
   eu: [
@@ -54,6 +108,13 @@ export const POLICY_KEYWORDS: Record<string, PolicyRule[]> = {
       severity: "medium",
       description: "Missing CE or EU certification references",
       keywords: ["ce mark", "ce certified"],
+      keywordsByLanguage: {
+        de: ["ce-kennzeichnung", "ce-zertifiziert"],
+        es: ["marcado ce", "certificado ce"],
+        fr: ["marquage ce", "certifié ce"],
+        it: ["marcatura ce", "certificato ce"],
+        nl: ["ce-markering", "ce-gecertificeerd"],
+      },
     },
   ],
   au: [
@@ -64,9 +125,15 @@ export const POLICY_KEYWORDS: Record<string, PolicyRule[]> = {
       keywords: ["tga approved", "australian register of therapeutic goods"],
     },
   ],
+  de: [
+    {
+      category: "Heilmittelwerbegesetz (HWG)",
+      severity: "high",
+      description: "German restrictions on health and healing claims",
+      keywords: ["heilt", "wundermittel", "ärztlich empfohlen", "garantiert wirksam"],
+      keywordsByLanguage: {
+        en: ["heals", "miracle cure", "doctor recommended", "guaranteed effective"],
+      },
+    },
+  ],
 };
-
-export function getPolicyRules(market: string) {
-  const key = market.toLowerCase();
-  return [...(POLICY_KEYWORDS.default ?? []), ...(POLICY_KEYWORDS[key] ?? [])];
-}
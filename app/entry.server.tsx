@@ -7,9 +7,12 @@ import {
 } from "@remix-run/node";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startScanScheduler } from "./models/scheduler.server";
 
 export const streamTimeout = 5000;
 
+startScanScheduler();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
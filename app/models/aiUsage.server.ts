@@ -0,0 +1,269 @@
+import prisma from "../db.server";
+import type { LlmProvider } from "../utils/llm.server";
+
+export type AiOperation = "scan_analysis" | "image_analysis" | "workspace_analysis" | "regenerate_suggestion";
+
+/** What happens to a scan once the monthly budget is used up; fixes are always refused. */
+export type AiBudgetAction = "stop" | "downgrade";
+
+export type AiUsageContext = {
+  shopDomain: string;
+  operation: AiOperation;
+  scanId?: string | null;
+  productId?: string | null;
+};
+
+export type AiUsageTotals = {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+export type AiMonthlyUsage = AiUsageTotals & { month: string };
+
+export type AiScanUsage = {
+  scanId: string;
+  market: string | null;
+  mode: string | null;
+  startedAt: string | null;
+  calls: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+export type AiBudget = {
+  tokenBudget: number | null;
+  costBudget: number | null;
+  action: AiBudgetAction;
+};
+
+export type AiBudgetTracker = {
+  budget: AiBudget;
+  usage: AiUsageTotals;
+  exceeded: () => boolean;
+  add: (tokens: number, costUsd: number) => void;
+};
+
+// USD per million tokens. Matched on the longest prefix of the reported model name; LLM_PRICING overrides as
+// JSON, e.g. {"llama3.1":{"input":0,"output":0}}. Unknown models are counted at zero cost.
+const DEFAULT_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+};
+
+const PRICING = { ...DEFAULT_PRICING, ...parsePricingOverrides(process.env.LLM_PRICING) };
+const BUDGET_ACTIONS: AiBudgetAction[] = ["stop", "downgrade"];
+
+export class AiBudgetExceededError extends Error {
+  constructor(message = "The monthly AI budget for this shop has been reached") {
+    super(message);
+    this.name = "AiBudgetExceededError";
+  }
+}
+
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number) {
+  const key = Object.keys(PRICING)
+    .filter((candidate) => model.toLowerCase().startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+  const price = PRICING[key];
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Wraps a provider so every completion is written to `AiUsage` (tokens, model, latency, estimated cost) and
+ * counted against `tracker` when one is given. Recording failures are logged, never thrown.
+ */
+export function trackLlmUsage(llm: LlmProvider, context: AiUsageContext, tracker?: AiBudgetTracker | null): LlmProvider {
+  return {
+    id: llm.id,
+    model: llm.model,
+    vision: llm.vision,
+    async complete(request) {
+      const startedAt = Date.now();
+      const completion = await llm.complete(request);
+      const inputTokens = completion.usage?.inputTokens ?? 0;
+      const outputTokens = completion.usage?.outputTokens ?? 0;
+      const costUsd = estimateCostUsd(completion.model, inputTokens, outputTokens);
+      tracker?.add(inputTokens + outputTokens, costUsd);
+
+      await prisma.aiUsage
+        .create({
+          data: {
+            shopDomain: context.shopDomain,
+            scanId: context.scanId ?? null,
+            productId: context.productId ?? null,
+            operation: context.operation,
+            provider: llm.id,
+            model: completion.model,
+            inputTokens,
+            outputTokens,
+            latencyMs: Date.now() - startedAt,
+            costUsd,
+          },
+        })
+        .catch((error: unknown) => console.error("[ai-usage] Failed to record usage", error));
+
+      return completion;
+    },
+  };
+}
+
+export async function getAiBudget(shopDomain: string): Promise<AiBudget> {
+  const shop = await prisma.shop.findUnique({
+    where: { domain: shopDomain },
+    select: { aiMonthlyTokenBudget: true, aiMonthlyCostBudget: true, aiBudgetAction: true },
+  });
+  const action = shop?.aiBudgetAction;
+  return {
+    tokenBudget: shop?.aiMonthlyTokenBudget ?? null,
+    costBudget: shop?.aiMonthlyCostBudget ?? null,
+    action: isBudgetAction(action) ? action : "downgrade",
+  };
+}
+
+export async function saveAiBudget(shopDomain: string, input: AiBudget) {
+  if ((input.tokenBudget ?? 0) < 0 || (input.costBudget ?? 0) < 0) {
+    throw new Error("Budgets cannot be negative");
+  }
+  const data = {
+    aiMonthlyTokenBudget: input.tokenBudget,
+    aiMonthlyCostBudget: input.costBudget,
+    aiBudgetAction: isBudgetAction(input.action) ? input.action : "downgrade",
+  };
+  await prisma.shop.upsert({
+    where: { domain: shopDomain },
+    update: data,
+    create: { domain: shopDomain, ...data },
+  });
+}
+
+export function isBudgetAction(value: unknown): value is AiBudgetAction {
+  return typeof value === "string" && BUDGET_ACTIONS.includes(value as AiBudgetAction);
+}
+
+export async function getMonthlyUsage(shopDomain: string, at = new Date()): Promise<AiUsageTotals> {
+  const { start, end } = monthRange(at);
+  return aggregateUsage({ shopDomain, createdAt: { gte: start, lt: end } });
+}
+
+/** Month-to-date usage and budget, with an in-memory running total so long scans need not re-query. */
+export async function loadAiBudgetTracker(shopDomain: string): Promise<AiBudgetTracker> {
+  const [budget, usage] = await Promise.all([getAiBudget(shopDomain), getMonthlyUsage(shopDomain)]);
+  return {
+    budget,
+    usage,
+    exceeded: () =>
+      (budget.tokenBudget !== null && usage.totalTokens >= budget.tokenBudget) ||
+      (budget.costBudget !== null && usage.costUsd >= budget.costBudget),
+    add: (tokens, costUsd) => {
+      usage.calls += 1;
+      usage.totalTokens += tokens;
+      usage.costUsd += costUsd;
+    },
+  };
+}
+
+export async function assertAiBudget(shopDomain: string) {
+  const tracker = await loadAiBudgetTracker(shopDomain);
+  if (tracker.exceeded()) {
+    throw new AiBudgetExceededError();
+  }
+  return tracker;
+}
+
+/** Attributes the workspace calls that produced a fix to its `FixLog` row. */
+export async function linkUsageToFixLog(shopDomain: string, productId: string, fixLogId: string) {
+  await prisma.aiUsage.updateMany({
+    where: {
+      shopDomain,
+      productId,
+      fixLogId: null,
+      operation: { in: ["workspace_analysis", "regenerate_suggestion"] },
+    },
+    data: { fixLogId },
+  });
+}
+
+export async function getUsageHistory(shopDomain: string, months = 6): Promise<AiMonthlyUsage[]> {
+  const now = new Date();
+  return Promise.all(
+    Array.from({ length: months }, async (_, index) => {
+      const { start, end } = monthRange(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - index, 1)));
+      return {
+        month: start.toISOString().slice(0, 7),
+        ...(await aggregateUsage({ shopDomain, createdAt: { gte: start, lt: end } })),
+      };
+    }),
+  );
+}
+
+export async function getRecentScanUsage(shopDomain: string, limit = 5): Promise<AiScanUsage[]> {
+  const groups = await prisma.aiUsage.groupBy({
+    by: ["scanId"],
+    where: { shopDomain, scanId: { not: null } },
+    _sum: { inputTokens: true, outputTokens: true, costUsd: true },
+    _count: { _all: true },
+    _max: { createdAt: true },
+    orderBy: { _max: { createdAt: "desc" } },
+    take: limit,
+  });
+  const scans = await prisma.scan.findMany({
+    where: { id: { in: groups.map((group: any) => group.scanId) } },
+    select: { id: true, market: true, mode: true, startedAt: true },
+  });
+  const scansById = new Map(scans.map((scan: any) => [scan.id, scan]));
+
+  return groups.map((group: any) => {
+    const scan: any = scansById.get(group.scanId);
+    return {
+      scanId: group.scanId as string,
+      market: scan?.market ?? null,
+      mode: scan?.mode ?? null,
+      startedAt: scan?.startedAt?.toISOString() ?? null,
+      calls: group._count._all,
+      totalTokens: (group._sum.inputTokens ?? 0) + (group._sum.outputTokens ?? 0),
+      costUsd: group._sum.costUsd ?? 0,
+    };
+  });
+}
+
+async function aggregateUsage(where: Record<string, unknown>): Promise<AiUsageTotals> {
+  const result = await prisma.aiUsage.aggregate({
+    where,
+    _sum: { inputTokens: true, outputTokens: true, costUsd: true },
+    _count: { _all: true },
+  });
+  const inputTokens = result._sum.inputTokens ?? 0;
+  const outputTokens = result._sum.outputTokens ?? 0;
+  return {
+    calls: result._count._all,
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    costUsd: result._sum.costUsd ?? 0,
+  };
+}
+
+// Budgets reset on the first of the month, UTC.
+function monthRange(at: Date) {
+  const start = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+function parsePricingOverrides(raw: string | undefined) {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Record<string, { input: number; output: number }>;
+  } catch {
+    console.warn("[ai-usage] Ignoring LLM_PRICING; it is not valid JSON");
+    return {};
+  }
+}
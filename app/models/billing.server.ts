@@ -0,0 +1,296 @@
+import prisma from "../db.server";
+import { MULTI_MARKET } from "../data/markets";
+import { PLANS, planForBillingName, toPlanId, type PlanDefinition, type PlanId } from "../data/plans";
+
+export type PlanFeature = "autoFix" | "scheduledScans" | "exports";
+
+export type PlanLimitCode = "scansPerMonth" | "markets" | PlanFeature;
+
+export type ShopPlan = {
+  id: PlanId;
+  definition: PlanDefinition;
+  status: string | null;
+  subscriptionId: string | null;
+  usageLineItemId: string | null;
+};
+
+export type PlanUsage = {
+  scansThisMonth: number;
+  marketsThisMonth: string[];
+  fixesThisMonth: number;
+};
+
+/** Subscription fields we read from `billing.check` results and `app_subscriptions/update` payloads. */
+export type SubscriptionSnapshot = {
+  id: string;
+  name: string;
+  status: string;
+  lineItems?: Array<{ id: string; plan: { pricingDetails: Record<string, unknown> } }>;
+};
+
+// Test charges are never billed; real charges need SHOPIFY_BILLING_TEST=false or a production build.
+export const BILLING_IS_TEST = process.env.SHOPIFY_BILLING_TEST
+  ? process.env.SHOPIFY_BILLING_TEST === "true"
+  : process.env.NODE_ENV !== "production";
+
+const FEATURE_LABELS: Record<PlanFeature, string> = {
+  autoFix: "Applying AI fixes",
+  scheduledScans: "Scheduled rescans",
+  exports: "Report exports",
+};
+
+const INACTIVE_STATUSES = ["CANCELLED", "DECLINED", "EXPIRED", "FROZEN"];
+
+const USAGE_RECORD_MUTATION = `#graphql
+  mutation RecordFixUsage($lineItemId: ID!, $price: MoneyInput!, $description: String!, $idempotencyKey: String) {
+    appUsageRecordCreate(
+      subscriptionLineItemId: $lineItemId
+      price: $price
+      description: $description
+      idempotencyKey: $idempotencyKey
+    ) {
+      appUsageRecord { id }
+      userErrors { field message }
+    }
+  }
+`;
+
+const SUBSCRIPTION_LINE_ITEMS_QUERY = `#graphql
+  query SubscriptionLineItems($id: ID!) {
+    node(id: $id) {
+      ... on AppSubscription {
+        lineItems {
+          id
+          plan { pricingDetails { __typename } }
+        }
+      }
+    }
+  }
+`;
+
+/** Raised when the shop's plan does not cover an action; routes turn it into an upgrade prompt. */
+export class PlanLimitError extends Error {
+  readonly upgradeRequired = true;
+
+  constructor(
+    message: string,
+    readonly code: PlanLimitCode,
+    readonly plan: PlanId,
+  ) {
+    super(message);
+    this.name = "PlanLimitError";
+  }
+}
+
+export async function getShopPlan(shopDomain: string): Promise<ShopPlan> {
+  const shop = await prisma.shop.findUnique({
+    where: { domain: shopDomain },
+    select: { plan: true, planStatus: true, subscriptionId: true, usageLineItemId: true },
+  });
+  const id = toPlanId(shop?.plan);
+  return {
+    id,
+    definition: PLANS[id],
+    status: shop?.planStatus ?? null,
+    subscriptionId: shop?.subscriptionId ?? null,
+    usageLineItemId: shop?.usageLineItemId ?? null,
+  };
+}
+
+export async function getPlanUsage(shopDomain: string, at = new Date()): Promise<PlanUsage> {
+  const since = startOfMonth(at);
+  const [scans, markets, fixesThisMonth] = await Promise.all([
+    prisma.scan.count({ where: countedScansWhere(shopDomain, since) }),
+    findScannedMarkets(countedScansWhere(shopDomain, since)),
+    prisma.fixLog.count({
+      where: { shopDomain, fixType: { in: ["ai", "manual"] }, status: "success", appliedAt: { gte: since } },
+    }),
+  ]);
+  return {
+    scansThisMonth: scans,
+    marketsThisMonth: markets,
+    fixesThisMonth,
+  };
+}
+
+/**
+ * Checks the monthly scan and market allowances before a full scan runs. A multi-market scan counts as one scan
+ * but uses an allowance for every market it covers. `scanId` is the scan being started, which is excluded from the
+ * count. Returns the plan so callers can apply the per-scan product cap.
+ */
+export async function assertScanAllowed({
+  shopDomain,
+  markets: requestedMarkets,
+  scanId,
+}: {
+  shopDomain: string;
+  markets: string[];
+  scanId?: string;
+}) {
+  const plan = await getShopPlan(shopDomain);
+  const { scansPerMonth, markets } = plan.definition.limits;
+  if (scansPerMonth === null && markets === null) return plan;
+
+  const since = startOfMonth(new Date());
+  const where = { ...countedScansWhere(shopDomain, since), ...(scanId ? { id: { not: scanId } } : {}) };
+  if (scansPerMonth !== null && (await prisma.scan.count({ where })) >= scansPerMonth) {
+    throw new PlanLimitError(
+      `The ${plan.definition.label} plan includes ${scansPerMonth} scans a month. Upgrade to keep scanning.`,
+      "scansPerMonth",
+      plan.id,
+    );
+  }
+
+  if (markets !== null) {
+    const scannedMarkets = await findScannedMarkets(where);
+    const newMarkets = requestedMarkets.filter((market) => !scannedMarkets.includes(market));
+    if (newMarkets.length && scannedMarkets.length + newMarkets.length > markets) {
+      throw new PlanLimitError(
+        `The ${plan.definition.label} plan covers ${markets} market${markets === 1 ? "" : "s"} a month. Upgrade to scan ${newMarkets
+          .map((market) => market.toUpperCase())
+          .join(", ")}.`,
+        "markets",
+        plan.id,
+      );
+    }
+  }
+
+  return plan;
+}
+
+export async function assertPlanFeature(shopDomain: string, feature: PlanFeature) {
+  const plan = await getShopPlan(shopDomain);
+  if (!plan.definition.limits[feature]) {
+    throw new PlanLimitError(
+      `${FEATURE_LABELS[feature]} is not included in the ${plan.definition.label} plan.`,
+      feature,
+      plan.id,
+    );
+  }
+  return plan;
+}
+
+/**
+ * Stores the state of a subscription on the shop. Only the shop's current subscription can downgrade it, so a
+ * late webhook for a replaced subscription does not undo an upgrade.
+ */
+export async function syncSubscription(shopDomain: string, subscription: SubscriptionSnapshot | null) {
+  const now = new Date();
+  const shop = await prisma.shop.findUnique({ where: { domain: shopDomain }, select: { subscriptionId: true } });
+
+  if (!subscription || INACTIVE_STATUSES.includes(subscription.status)) {
+    if (subscription && shop?.subscriptionId && shop.subscriptionId !== subscription.id) return;
+    await prisma.shop.upsert({
+      where: { domain: shopDomain },
+      update: {
+        plan: "free",
+        planStatus: subscription?.status ?? null,
+        subscriptionId: null,
+        usageLineItemId: null,
+        planUpdatedAt: now,
+      },
+      create: { domain: shopDomain, plan: "free", planStatus: subscription?.status ?? null, planUpdatedAt: now },
+    });
+    return;
+  }
+
+  const planId = planForBillingName(subscription.name);
+  if (!planId || subscription.status !== "ACTIVE") {
+    // Pending and accepted subscriptions are not billable yet; keep the current plan until Shopify activates it.
+    if (shop?.subscriptionId === subscription.id) {
+      await prisma.shop.update({ where: { domain: shopDomain }, data: { planStatus: subscription.status } });
+    }
+    return;
+  }
+
+  const usageLineItem = subscription.lineItems?.find((item) => isUsagePricing(item.plan.pricingDetails));
+  const data = {
+    plan: planId,
+    planStatus: subscription.status,
+    subscriptionId: subscription.id,
+    usageLineItemId: usageLineItem?.id ?? null,
+    planUpdatedAt: now,
+  };
+  await prisma.shop.upsert({
+    where: { domain: shopDomain },
+    update: data,
+    create: { domain: shopDomain, ...data },
+  });
+}
+
+/** `app_subscriptions/update` only carries the subscription summary, so line items are looked up separately. */
+export async function handleSubscriptionWebhook(shopDomain: string, payload: any, admin?: any) {
+  const raw = payload?.app_subscription;
+  if (!raw?.admin_graphql_api_id) return;
+
+  let lineItems: SubscriptionSnapshot["lineItems"];
+  if (admin && raw.status === "ACTIVE") {
+    try {
+      const response = await admin.graphql(SUBSCRIPTION_LINE_ITEMS_QUERY, { variables: { id: raw.admin_graphql_api_id } });
+      const body = await response.json();
+      lineItems = body?.data?.node?.lineItems ?? undefined;
+    } catch (error) {
+      console.error(`[billing] Could not load line items for ${raw.admin_graphql_api_id}`, error);
+    }
+  }
+
+  await syncSubscription(shopDomain, {
+    id: raw.admin_graphql_api_id,
+    name: raw.name,
+    status: String(raw.status ?? "").toUpperCase(),
+    lineItems,
+  });
+}
+
+/**
+ * Charges for an applied AI fix once the plan's included fixes for the month are used up. The fix log id is the
+ * idempotency key, so retries never double-charge. Failures are logged; the fix itself has already been applied.
+ */
+export async function recordFixUsage({ admin, shopDomain, fixLogId }: { admin: any; shopDomain: string; fixLogId: string }) {
+  const plan = await getShopPlan(shopDomain);
+  const { includedFixes, usagePricePerFix } = plan.definition;
+  if (!plan.usageLineItemId || includedFixes === null || !usagePricePerFix) return;
+
+  const { fixesThisMonth } = await getPlanUsage(shopDomain);
+  if (fixesThisMonth <= includedFixes) return;
+
+  try {
+    const response = await admin.graphql(USAGE_RECORD_MUTATION, {
+      variables: {
+        lineItemId: plan.usageLineItemId,
+        price: { amount: usagePricePerFix, currencyCode: "USD" },
+        description: `AI fix beyond the ${includedFixes} included in ${plan.definition.label}`,
+        idempotencyKey: fixLogId,
+      },
+    });
+    const body = await response.json();
+    const errors = body?.data?.appUsageRecordCreate?.userErrors;
+    if (errors?.length) {
+      console.error(`[billing] Usage charge rejected for ${shopDomain}`, errors);
+    }
+  } catch (error) {
+    console.error(`[billing] Usage charge failed for ${shopDomain}`, error);
+  }
+}
+
+// `billing.check` returns the pricing fields, the webhook lookup only the GraphQL typename.
+function isUsagePricing(details: Record<string, unknown>) {
+  return "cappedAmount" in details || details.__typename === "AppUsagePricing";
+}
+
+// Per-market child scans belong to a multi-market scan that is already counted.
+function countedScansWhere(shopDomain: string, since: Date) {
+  return { shopDomain, parentScanId: null, startedAt: { gte: since }, status: { notIn: ["failed", "cancelled"] } };
+}
+
+async function findScannedMarkets(where: Record<string, unknown>): Promise<string[]> {
+  const scans = await prisma.scan.findMany({ where, select: { market: true, markets: true } });
+  const markets = scans.flatMap((scan: { market: string; markets: string[] | null }) =>
+    scan.market === MULTI_MARKET ? scan.markets ?? [] : [scan.market],
+  );
+  return Array.from(new Set(markets));
+}
+
+function startOfMonth(at: Date) {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+}
@@ -0,0 +1,305 @@
+import type { Session } from "@shopify/shopify-api";
+
+import prisma from "../db.server";
+import { assertPlanFeature } from "./billing.server";
+import { applyIssueFix, type FixScope, type WorkspaceIssue } from "./fixWorkspace.server";
+
+export type StaffRole = "staff" | "approver";
+
+export type FixProposalStatus = "pending" | "applying" | "rejected" | "applied" | "failed";
+
+export type ReviewDecision = "approve" | "reject";
+
+export type StaffMember = {
+  userId: string;
+  role: StaffRole;
+  lastSeenAt: string;
+};
+
+export type FixProposalView = {
+  id: string;
+  productId: string;
+  market: string;
+  scope: string;
+  issue: WorkspaceIssue;
+  status: FixProposalStatus;
+  proposedBy: string;
+  proposedAt: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  reviewComment: string | null;
+  errorMessage: string | null;
+  fixLogId: string | null;
+};
+
+const STAFF_ROLES: StaffRole[] = ["staff", "approver"];
+
+/** Raised when the acting staff member may not perform a review or settings change; routes answer with 403. */
+export class FixApprovalPermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FixApprovalPermissionError";
+  }
+}
+
+/**
+ * The Shopify staff member behind an embedded request. Offline sessions are shared by every staff member, so the
+ * session token's `sub` is the only per-user identity available.
+ */
+export function resolveStaffUserId({ session, sessionToken }: { session?: Session; sessionToken?: { sub?: string } }) {
+  const userId = sessionToken?.sub ?? session?.onlineAccessInfo?.associated_user?.id;
+  return userId ? String(userId) : null;
+}
+
+export function requireStaffUserId(auth: { session?: Session; sessionToken?: { sub?: string } }) {
+  const userId = resolveStaffUserId(auth);
+  if (!userId) {
+    throw new FixApprovalPermissionError("Open the app from Shopify admin so we know who is making this change");
+  }
+  return userId;
+}
+
+export async function isFixApprovalRequired(shopDomain: string) {
+  const shop = await prisma.shop.findUnique({ where: { domain: shopDomain }, select: { fixApprovalRequired: true } });
+  return Boolean(shop?.fixApprovalRequired);
+}
+
+/** Records that a staff member used the app so approvers can assign them a role. */
+export async function registerStaffUser(shopDomain: string, userId: string): Promise<StaffRole> {
+  const staff = await prisma.shopStaff.upsert({
+    where: { shopDomain_userId: { shopDomain, userId } },
+    update: { lastSeenAt: new Date() },
+    create: { shopDomain, userId },
+  });
+  return toStaffRole(staff.role);
+}
+
+export async function listStaff(shopDomain: string): Promise<StaffMember[]> {
+  const staff = await prisma.shopStaff.findMany({ where: { shopDomain }, orderBy: { lastSeenAt: "desc" } });
+  return staff.map((member: any) => ({
+    userId: member.userId,
+    role: toStaffRole(member.role),
+    lastSeenAt: member.lastSeenAt.toISOString(),
+  }));
+}
+
+/**
+ * Turns the review queue on or off. Whoever turns it on first becomes the shop's first approver; once approvers
+ * exist, only they can change the setting.
+ */
+export async function setFixApprovalRequired({
+  shopDomain,
+  userId,
+  required,
+}: {
+  shopDomain: string;
+  userId: string;
+  required: boolean;
+}) {
+  await registerStaffUser(shopDomain, userId);
+  const approvers = await prisma.shopStaff.count({ where: { shopDomain, role: "approver" } });
+  if (approvers > 0) {
+    await assertApprover(shopDomain, userId);
+  } else if (required) {
+    await prisma.shopStaff.update({
+      where: { shopDomain_userId: { shopDomain, userId } },
+      data: { role: "approver" },
+    });
+  }
+
+  await prisma.shop.upsert({
+    where: { domain: shopDomain },
+    update: { fixApprovalRequired: required },
+    create: { domain: shopDomain, fixApprovalRequired: required },
+  });
+}
+
+export async function setStaffRole({
+  shopDomain,
+  actingUserId,
+  userId,
+  role,
+}: {
+  shopDomain: string;
+  actingUserId: string;
+  userId: string;
+  role: StaffRole;
+}) {
+  if (!STAFF_ROLES.includes(role)) {
+    throw new Error("Unknown role");
+  }
+  await assertApprover(shopDomain, actingUserId);
+  if (role === "staff") {
+    const approvers = await prisma.shopStaff.count({ where: { shopDomain, role: "approver", userId: { not: userId } } });
+    if (approvers === 0) {
+      throw new Error("At least one approver is required");
+    }
+  }
+  await prisma.shopStaff.update({
+    where: { shopDomain_userId: { shopDomain, userId } },
+    data: { role },
+  });
+}
+
+/** Queues fixes for review instead of writing them to the store. */
+export async function proposeFixes({
+  shopDomain,
+  userId,
+  productId,
+  market,
+  scanId,
+  scope,
+  issues,
+}: {
+  shopDomain: string;
+  userId: string;
+  productId: string;
+  market: string;
+  scanId?: string;
+  scope: FixScope;
+  issues: WorkspaceIssue[];
+}) {
+  // Fail at proposal time rather than leaving approvers with fixes the plan will refuse to apply.
+  await assertPlanFeature(shopDomain, "autoFix");
+  await registerStaffUser(shopDomain, userId);
+
+  const proposals = [];
+  for (const issue of issues) {
+    // A newer proposal for the same issue replaces the one still waiting for review.
+    await prisma.fixProposal.updateMany({
+      where: { shopDomain, productId, issueId: issue.id, status: "pending" },
+      data: { status: "rejected", reviewComment: "Superseded by a newer proposal", reviewedAt: new Date() },
+    });
+    proposals.push(
+      await prisma.fixProposal.create({
+        data: {
+          shopDomain,
+          productId,
+          market,
+          scanId: scanId ?? null,
+          scope,
+          issueId: issue.id,
+          issue: { ...issue, status: "proposed" },
+          proposedBy: userId,
+        },
+      }),
+    );
+  }
+  return proposals.map(toProposalView);
+}
+
+export async function listFixProposals(shopDomain: string, { status, take = 50 }: { status?: FixProposalStatus; take?: number } = {}) {
+  const proposals = await prisma.fixProposal.findMany({
+    where: { shopDomain, ...(status ? { status } : {}) },
+    orderBy: { proposedAt: "desc" },
+    take,
+  });
+  return proposals.map(toProposalView);
+}
+
+/**
+ * Approves or rejects a pending proposal. Approval applies the fix with the approver's credentials and links the
+ * resulting `FixLog`; the proposer can never review their own proposal.
+ */
+export async function reviewFixProposal({
+  admin,
+  session,
+  shopDomain,
+  userId,
+  proposalId,
+  decision,
+  comment,
+}: {
+  admin: any;
+  session: Session;
+  shopDomain: string;
+  userId: string;
+  proposalId: string;
+  decision: ReviewDecision;
+  comment?: string | null;
+}) {
+  await assertApprover(shopDomain, userId);
+  const proposal = await prisma.fixProposal.findFirst({ where: { id: proposalId, shopDomain } });
+  if (!proposal) {
+    throw new Error("Proposal not found");
+  }
+  if (proposal.proposedBy === userId) {
+    throw new FixApprovalPermissionError("Fixes must be reviewed by someone other than the person who proposed them");
+  }
+
+  const reviewedAt = new Date();
+  // Claiming the row with a conditional update keeps two approvers from applying the same fix.
+  const claim = await prisma.fixProposal.updateMany({
+    where: { id: proposalId, status: "pending" },
+    data: {
+      status: decision === "approve" ? "applying" : "rejected",
+      reviewedBy: userId,
+      reviewedAt,
+      reviewComment: comment?.trim() || null,
+    },
+  });
+  if (claim.count !== 1) {
+    throw new Error("This proposal has already been reviewed");
+  }
+  if (decision === "reject") {
+    return toProposalView(await prisma.fixProposal.findUnique({ where: { id: proposalId } }));
+  }
+
+  // The row is already claimed as "applying"; any failure must release it or it could never be reviewed again.
+  try {
+    const outcome = await applyIssueFix({
+      admin,
+      session,
+      shopDomain,
+      productId: proposal.productId,
+      market: proposal.market,
+      scanId: proposal.scanId ?? undefined,
+      scope: proposal.scope as FixScope,
+      issue: proposal.issue as WorkspaceIssue,
+    });
+    const updated = await prisma.fixProposal.update({
+      where: { id: proposalId },
+      data: {
+        status: outcome.success ? "applied" : "failed",
+        errorMessage: outcome.success ? null : outcome.error ?? "Failed to apply fix",
+        fixLogId: "fixLogId" in outcome ? outcome.fixLogId : null,
+      },
+    });
+    return toProposalView(updated);
+  } catch (error) {
+    const updated = await prisma.fixProposal.update({
+      where: { id: proposalId },
+      data: { status: "failed", errorMessage: error instanceof Error ? error.message : "Failed to apply fix" },
+    });
+    return toProposalView(updated);
+  }
+}
+
+async function assertApprover(shopDomain: string, userId: string) {
+  const staff = await prisma.shopStaff.findUnique({ where: { shopDomain_userId: { shopDomain, userId } } });
+  if (staff?.role !== "approver") {
+    throw new FixApprovalPermissionError("Only approvers can do this");
+  }
+}
+
+function toStaffRole(value: unknown): StaffRole {
+  return STAFF_ROLES.includes(value as StaffRole) ? (value as StaffRole) : "staff";
+}
+
+function toProposalView(proposal: any): FixProposalView {
+  return {
+    id: proposal.id,
+    productId: proposal.productId,
+    market: proposal.market,
+    scope: proposal.scope,
+    issue: proposal.issue as WorkspaceIssue,
+    status: proposal.status,
+    proposedBy: proposal.proposedBy,
+    proposedAt: proposal.proposedAt.toISOString(),
+    reviewedBy: proposal.reviewedBy ?? null,
+    reviewedAt: proposal.reviewedAt ? proposal.reviewedAt.toISOString() : null,
+    reviewComment: proposal.reviewComment ?? null,
+    errorMessage: proposal.errorMessage ?? null,
+    fixLogId: proposal.fixLogId ?? null,
+  };
+}
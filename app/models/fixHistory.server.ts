@@ -0,0 +1,202 @@
+import type { Session } from "@shopify/shopify-api";
+
+import prisma from "../db.server";
+import { captureFixSnapshot, restoreFixSnapshot, type FixSnapshot } from "./fixWorkspace.server";
+import { ensureThemeDraft } from "./themeDraft.server";
+
+export type FixHistoryEntry = {
+  id: string;
+  productId: string;
+  issueId: string;
+  issueTitle: string | null;
+  fixType: string;
+  fieldUpdated: string;
+  market: string;
+  status: string;
+  errorMessage: string | null;
+  appliedAt: string;
+  revertedAt: string | null;
+  rollbackOfId: string | null;
+  canRollback: boolean;
+};
+
+/** Exactly one of `fixLogId`, `productId` or a `from`/`to` range; `productId` may also narrow a range. */
+export type RollbackSelection = {
+  fixLogId?: string;
+  productId?: string;
+  from?: Date;
+  to?: Date;
+};
+
+export type RollbackResult = {
+  fixLogId: string;
+  rollbackLogId?: string;
+  success: boolean;
+  error?: string;
+  /** The field no longer holds what the fix wrote; pass `overwriteChanges` to roll it back anyway. */
+  conflict?: boolean;
+};
+
+export async function listFixHistory(shopDomain: string, { productId, take = 50 }: { productId?: string; take?: number } = {}) {
+  const logs = await prisma.fixLog.findMany({
+    where: { shopDomain, ...(productId ? { productId } : {}) },
+    orderBy: { appliedAt: "desc" },
+    take,
+  });
+  return logs.map(toHistoryEntry);
+}
+
+/**
+ * Restores the values captured before each selected fix and records every reversal as a `rollback` FixLog row.
+ * Fixes are undone newest first, so when several fixes touched the same field the oldest snapshot wins. A fix whose
+ * field was changed after it (by a later fix or by hand) is only rolled back with `overwriteChanges`.
+ */
+export async function rollbackFixes({
+  admin,
+  session,
+  shopDomain,
+  selection,
+  overwriteChanges = false,
+}: {
+  admin: any;
+  session: Session;
+  shopDomain: string;
+  selection: RollbackSelection;
+  overwriteChanges?: boolean;
+}): Promise<RollbackResult[]> {
+  const where: Record<string, unknown> = { shopDomain, status: "success", rollbackOfId: null, revertedAt: null };
+  if (selection.fixLogId) {
+    where.id = selection.fixLogId;
+  } else if (selection.productId || selection.from || selection.to) {
+    if (selection.productId) where.productId = selection.productId;
+    if (selection.from || selection.to) {
+      where.appliedAt = { ...(selection.from ? { gte: selection.from } : {}), ...(selection.to ? { lte: selection.to } : {}) };
+    }
+  } else {
+    throw new Error("Choose a fix, a product or a time range to roll back");
+  }
+
+  const logs = await prisma.fixLog.findMany({ where, orderBy: { appliedAt: "desc" } });
+  if (selection.fixLogId && !logs.length) {
+    throw new Error("Fix not found or already rolled back");
+  }
+
+  const results: RollbackResult[] = [];
+  for (const log of logs) {
+    results.push(await rollbackFix({ admin, session, log, overwriteChanges }));
+  }
+  return results;
+}
+
+async function rollbackFix({
+  admin,
+  session,
+  log,
+  overwriteChanges,
+}: {
+  admin: any;
+  session: Session;
+  log: any;
+  overwriteChanges: boolean;
+}): Promise<RollbackResult> {
+  const stored = log.previousValue as FixSnapshot | null;
+  if (!stored) {
+    return { fixLogId: log.id, success: false, error: "No previous value was recorded for this fix" };
+  }
+
+  // Template fixes are undone in the shop's draft theme, like the fixes themselves; the draft the fix went to may
+  // have been published since, and the live theme is never written directly.
+  const draft = stored.asset ? await ensureThemeDraft({ admin, session, shopDomain: log.shopDomain }) : null;
+  if (draft && !draft.themeId) {
+    return { fixLogId: log.id, success: false, error: "The draft theme is not ready yet" };
+  }
+  const snapshot: FixSnapshot = stored.asset && draft?.themeId ? { ...stored, asset: { ...stored.asset, themeId: draft.themeId } } : stored;
+
+  const current = await captureFixSnapshot({
+    admin,
+    session,
+    productId: log.productId,
+    issue: {
+      targetField: snapshot.field,
+      metadataNamespace: snapshot.metafield?.namespace,
+      metadataKey: snapshot.metafield?.key,
+      templateKey: snapshot.asset?.key,
+      mediaId: snapshot.media?.id,
+    },
+    themeId: snapshot.asset?.themeId,
+  }).catch(() => null);
+  const applied = log.appliedValue as FixSnapshot | null;
+  if (!overwriteChanges && (!current || !applied || snapshotValue(current) !== snapshotValue(applied))) {
+    return {
+      fixLogId: log.id,
+      success: false,
+      conflict: true,
+      error: "The field was changed after this fix was applied; rolling it back would discard those changes",
+    };
+  }
+
+  // Claim the fix first so two concurrent requests cannot both restore it.
+  const claim = await prisma.fixLog.updateMany({
+    where: { id: log.id, revertedAt: null },
+    data: { revertedAt: new Date() },
+  });
+  if (claim.count !== 1) {
+    return { fixLogId: log.id, success: false, error: "Fix is already being rolled back" };
+  }
+
+  const rollbackLog = await prisma.fixLog.create({
+    data: {
+      shopDomain: log.shopDomain,
+      market: log.market,
+      productId: log.productId,
+      issueId: log.issueId,
+      fixType: "rollback",
+      fieldUpdated: log.fieldUpdated,
+      scopeUsed: log.scopeUsed,
+      rollbackOfId: log.id,
+      previousValue: current ?? undefined,
+      metadata: { restored: snapshot },
+    },
+  });
+
+  try {
+    await restoreFixSnapshot({ admin, session, productId: log.productId, snapshot });
+    await prisma.fixLog.update({ where: { id: rollbackLog.id }, data: { status: "success", appliedValue: snapshot } });
+    return { fixLogId: log.id, rollbackLogId: rollbackLog.id, success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to roll back fix";
+    await prisma.fixLog.update({ where: { id: rollbackLog.id }, data: { status: "failed", errorMessage: message } });
+    await prisma.fixLog.update({ where: { id: log.id }, data: { revertedAt: null } });
+    return { fixLogId: log.id, rollbackLogId: rollbackLog.id, success: false, error: message };
+  }
+}
+
+// The part of a snapshot that holds the field's value; `capturedAt` and the theme the asset was read from are ignored.
+function snapshotValue(snapshot: FixSnapshot) {
+  return JSON.stringify([
+    snapshot.title,
+    snapshot.descriptionHtml,
+    snapshot.metafield?.value,
+    snapshot.asset?.value,
+    snapshot.media?.alt,
+  ]);
+}
+
+function toHistoryEntry(log: any): FixHistoryEntry {
+  const issue = log.metadata as { title?: string } | null;
+  return {
+    id: log.id,
+    productId: log.productId,
+    issueId: log.issueId,
+    issueTitle: log.fixType === "rollback" ? null : issue?.title ?? null,
+    fixType: log.fixType,
+    fieldUpdated: log.fieldUpdated,
+    market: log.market,
+    status: log.status,
+    errorMessage: log.errorMessage ?? null,
+    appliedAt: log.appliedAt.toISOString(),
+    revertedAt: log.revertedAt ? log.revertedAt.toISOString() : null,
+    rollbackOfId: log.rollbackOfId ?? null,
+    canRollback: log.fixType !== "rollback" && log.status === "success" && !log.revertedAt && Boolean(log.previousValue),
+  };
+}
@@ -2,10 +2,29 @@ import { randomUUID } from "node:crypto";
 import type { Session } from "@shopify/shopify-api";
 
 import prisma from "../db.server";
-import { openai } from "../utils/openai.server";
+import { htmlToText, replaceHtmlText, sanitizeHtml, textToHtml } from "../utils/html";
+import { detectLanguage, languageName } from "../utils/language.server";
+import { getLlmProvider } from "../utils/llm.server";
+import { completeStructured, type LlmResponseSchema } from "../utils/llmSchema.server";
+import { assertAiBudget, linkUsageToFixLog, trackLlmUsage } from "./aiUsage.server";
+import { assertPlanFeature, PlanLimitError, recordFixUsage } from "./billing.server";
 import type { SeverityLevel } from "./scan.server";
-
-export type FixScope = "title" | "description" | "metadata" | "template" | "all";
+import {
+  getTemplateSetting,
+  isJsonTemplateKey,
+  listTextSettings,
+  parseJsonTemplate,
+  parseSectionSchema,
+  parseTemplatePath,
+  referencedSectionFiles,
+  serializeJsonTemplate,
+  setTemplateSetting,
+  type SectionSchema,
+  type TemplateTextSetting,
+} from "../utils/themeTemplate.server";
+import { ensureThemeDraft, getActiveThemeDraft, replaceUniqueSnippet, resolveMainTheme } from "./themeDraft.server";
+
+export type FixScope = "title" | "description" | "metadata" | "template" | "image" | "all";
 
 export type WorkspaceIssue = {
   id: string;
@@ -22,9 +41,16 @@ export type WorkspaceIssue = {
   before?: string;
   after?: string;
   templateKey?: string;
+  /** For JSON templates, the setting the fix rewrites, e.g. `sections.main.blocks.text.settings.text`. */
+  templatePath?: string;
   allowManualEdit?: boolean;
-  status?: "pending" | "applied" | "error";
+  status?: "pending" | "proposed" | "applied" | "error";
   errorMessage?: string;
+  /** Set once a template fix has been written to the draft theme. */
+  previewUrl?: string;
+  /** For image fixes, the MediaImage whose alt text the fix rewrites. */
+  mediaId?: string;
+  imageUrl?: string;
 };
 
 export type WorkspacePayload = {
@@ -49,6 +75,9 @@ export type WorkspaceProductContext = {
   templateSuffix?: string | null;
   featuredImage?: { url: string; altText?: string | null } | null;
   seo?: { title?: string | null; description?: string | null } | null;
+  /** ISO 639-1 language detected in the title and description. */
+  language?: string;
+  images: Array<{ id: string; url: string; alt: string | null }>;
   metafields: Array<{
     id: string;
     namespace: string;
@@ -61,6 +90,80 @@ export type WorkspaceProductContext = {
 export type TemplateContext = {
   key: string;
   value: string;
+  /** Text settings of a JSON template, addressed by path. Absent for Liquid templates or JSON that fails to parse. */
+  settings?: TemplateTextSetting[];
+  /** The `sections/*.liquid` files a JSON template renders. */
+  sections?: Array<{ key: string; value: string }>;
+};
+
+/**
+ * The live value a fix is about to overwrite, stored on `FixLog.previousValue` so the fix can be rolled back, and the
+ * value it wrote, stored on `FixLog.appliedValue`.
+ * Only the part matching `field` is set. A `metafield.value` of null means the metafield did not exist.
+ */
+export type FixSnapshot = {
+  field: FixScope;
+  capturedAt: string;
+  title?: string;
+  descriptionHtml?: string;
+  metafield?: { namespace: string; key: string; type: string | null; value: string | null };
+  asset?: { themeId: string; key: string; value: string };
+  media?: { id: string; alt: string };
+};
+
+const WORKSPACE_ANALYSIS_SCHEMA: LlmResponseSchema = {
+  name: "workspace_analysis",
+  schema: {
+    type: "object",
+    required: ["issues"],
+    properties: {
+      issues: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["title", "summary", "severity", "targetField", "confidence", "suggestion", "before", "after"],
+          properties: {
+            id: { type: ["string", "null"] },
+            title: { type: "string", minLength: 1 },
+            summary: { type: "string", minLength: 1 },
+            severity: { type: "string", enum: ["High", "Medium", "Low"] },
+            targetField: { type: "string", enum: ["title", "description", "metadata", "template", "image"] },
+            metadataNamespace: { type: ["string", "null"] },
+            metadataKey: { type: ["string", "null"] },
+            policyReference: { type: ["string", "null"] },
+            sourceUrl: { type: ["string", "null"] },
+            confidence: { type: "number", minimum: 0, maximum: 1 },
+            suggestion: { type: "string" },
+            before: { type: "string" },
+            after: { type: "string" },
+            templateKey: { type: ["string", "null"] },
+            templatePath: { type: ["string", "null"] },
+            mediaId: { type: ["string", "null"] },
+          },
+        },
+      },
+      stats: {
+        type: ["object", "null"],
+        properties: { totalIssues: { type: "number" }, confidenceAvg: { type: "number" } },
+      },
+    },
+  },
+};
+
+const MAX_SECTION_FILES = 8;
+// Images beyond this are listed by alt text only; the model is not shown them.
+const MAX_PROMPT_IMAGES = 5;
+
+const REGENERATED_SUGGESTION_SCHEMA: LlmResponseSchema = {
+  name: "regenerated_suggestion",
+  schema: {
+    type: "object",
+    required: ["after", "suggestion"],
+    properties: {
+      after: { type: "string", minLength: 1 },
+      suggestion: { type: "string" },
+    },
+  },
 };
 
 const WORKSPACE_PRODUCT_QUERY = `#graphql
@@ -75,6 +178,11 @@ const WORKSPACE_PRODUCT_QUERY = `#graphql
       templateSuffix
       featuredImage { url altText }
       seo { title description }
+      media(first: 50) {
+        nodes {
+          ... on MediaImage { id alt image { url } }
+        }
+      }
       metafields(first: 50) {
         edges {
           node {
@@ -108,8 +216,8 @@ export async function loadWorkspaceAnalysis({
   scanId?: string;
 }): Promise<WorkspacePayload> {
   const product = await fetchWorkspaceProduct(admin, productId);
-  const template = await fetchTemplateContent(admin, session, product.templateSuffix);
-  const ai = await runWorkspaceAnalysis({ product, template, scope, market });
+  const template = await fetchTemplateContent(admin, session, shopDomain, product.templateSuffix);
+  const ai = await runWorkspaceAnalysis({ product, template, scope, market, shopDomain, scanId });
 
   await persistWorkspaceSnapshot({
     shopDomain,
@@ -158,48 +266,131 @@ const METAFIELDS_SET_MUTATION = `#graphql
   }
 `;
 
+const METAFIELDS_DELETE_MUTATION = `#graphql
+  mutation WorkspaceMetafieldDelete($metafields: [MetafieldIdentifierInput!]!) {
+    metafieldsDelete(metafields: $metafields) {
+      userErrors { field message }
+    }
+  }
+`;
+
+const PRODUCT_FIELDS_SNAPSHOT_QUERY = `#graphql
+  query FixSnapshotProduct($id: ID!) {
+    product(id: $id) {
+      title
+      descriptionHtml
+    }
+  }
+`;
+
+const PRODUCT_MEDIA_UPDATE_MUTATION = `#graphql
+  mutation WorkspaceMediaUpdate($productId: ID!, $media: [UpdateMediaInput!]!) {
+    productUpdateMedia(productId: $productId, media: $media) {
+      media { id }
+      mediaUserErrors { field message }
+    }
+  }
+`;
+
+const MEDIA_SNAPSHOT_QUERY = `#graphql
+  query FixSnapshotMedia($id: ID!) {
+    node(id: $id) {
+      ... on MediaImage { id alt }
+    }
+  }
+`;
+
+const METAFIELD_SNAPSHOT_QUERY = `#graphql
+  query FixSnapshotMetafield($id: ID!, $namespace: String!, $key: String!) {
+    product(id: $id) {
+      metafield(namespace: $namespace, key: $key) {
+        type
+        value
+      }
+    }
+  }
+`;
+
 export async function applyIssueFix(payload: ApplyIssuePayload) {
   const { admin, session, issue, productId, shopDomain, market, scanId, scope } = payload;
+  // Every write is gated and billed; `allowManualEdit` comes from the request and only drives the editor.
+  try {
+    await assertPlanFeature(shopDomain, "autoFix");
+  } catch (error) {
+    if (!(error instanceof PlanLimitError)) throw error;
+    return { success: false, error: error.message, upgradeRequired: true };
+  }
+  const llm = await getLlmProvider(shopDomain);
   const fixLog = await prisma.fixLog.create({
     data: {
       shopDomain,
       market,
       productId,
       issueId: issue.id,
-      fixType: issue.allowManualEdit ? "manual" : "ai",
+      fixType: await resolveFixType({ scanId, productId, issue }),
       fieldUpdated: issue.targetField,
       scopeUsed: scope,
-      aiModelVersion: "gpt-4o-mini",
+      aiModelVersion: llm ? `${llm.id}/${llm.model}` : null,
       metadata: issue,
     },
   });
+  await linkUsageToFixLog(shopDomain, productId, fixLog.id);
 
   try {
+    // Template fixes never touch the live theme; they go to the shop's unpublished draft copy.
+    const draft = issue.targetField === "template" ? await ensureThemeDraft({ admin, session, shopDomain }) : null;
+    // Stored before anything is written, so the rollback restores exactly what this fix replaced.
+    const snapshot = await captureFixSnapshot({ admin, session, productId, issue, themeId: draft?.themeId });
+    await prisma.fixLog.update({ where: { id: fixLog.id }, data: { previousValue: snapshot } });
+
     if (issue.targetField === "title" || issue.targetField === "description") {
-      await applyProductFieldUpdate(admin, productId, issue);
+      await applyProductFieldUpdate(admin, productId, issue, snapshot);
     } else if (issue.targetField === "metadata") {
       await applyMetadataUpdate(admin, productId, issue);
     } else if (issue.targetField === "template") {
-      await applyTemplateUpdate(admin, session, issue);
+      await applyTemplateUpdate(admin, session, issue, snapshot);
+    } else if (issue.targetField === "image") {
+      await applyImageAltUpdate(admin, productId, issue);
     }
 
-    await prisma.fixLog.update({ where: { id: fixLog.id }, data: { status: "success" } });
+    // What the fix wrote; a rollback compares it with the live value to notice edits made since.
+    const applied = await captureFixSnapshot({ admin, session, productId, issue, themeId: draft?.themeId }).catch(() => null);
+    await prisma.fixLog.update({ where: { id: fixLog.id }, data: { status: "success", appliedValue: applied ?? undefined } });
     await markIssueResolved({ scanId, productId, issueId: issue.id, shopDomain });
+    await recordFixUsage({ admin, shopDomain, fixLogId: fixLog.id });
 
-    return { success: true };
+    return { success: true, fixLogId: fixLog.id as string, previewUrl: draft?.previewUrl ?? undefined };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to apply fix";
     await prisma.fixLog.update({ where: { id: fixLog.id }, data: { status: "failed", errorMessage: message } });
-    return { success: false, error: message };
+    return { success: false, error: message, fixLogId: fixLog.id as string };
   }
 }
 
+// A fix counts as manual when its text differs from the suggestion stored with the workspace analysis.
+async function resolveFixType({ scanId, productId, issue }: { scanId?: string; productId: string; issue: WorkspaceIssue }) {
+  if (!scanId) return "ai";
+  const history = await prisma.productScanHistory.findFirst({
+    where: { scanId, productId },
+    orderBy: { scannedAt: "desc" },
+  });
+  const stored = Array.isArray(history?.issues)
+    ? (history.issues as WorkspaceIssue[]).find((candidate) => candidate?.id === issue.id)
+    : undefined;
+  return stored?.after !== undefined && stored.after !== issue.after ? "manual" : "ai";
+}
+
 export async function applyBulkIssueFixes({ issues, ...base }: Omit<ApplyIssuePayload, "issue"> & { issues: WorkspaceIssue[] }) {
-  const results: Array<{ issueId: string; success: boolean; error?: string }> = [];
+  const results: Array<{ issueId: string; success: boolean; error?: string; upgradeRequired?: boolean }> = [];
   for (let index = 0; index < issues.length; index += 1) {
     const issue = issues[index];
     const outcome = await applyIssueFix({ ...base, issue });
-    results.push({ issueId: issue.id, success: Boolean(outcome.success), error: outcome.error });
+    results.push({
+      issueId: issue.id,
+      success: Boolean(outcome.success),
+      error: outcome.error,
+      upgradeRequired: "upgradeRequired" in outcome ? outcome.upgradeRequired : undefined,
+    });
   }
   return results;
 }
@@ -208,49 +399,57 @@ export async function regenerateIssueSuggestion({
   product,
   issue,
   market,
+  shopDomain,
 }: {
   product: WorkspaceProductContext;
   issue: WorkspaceIssue;
   market: string;
+  shopDomain: string;
 }) {
-  if (!openai) {
+  const provider = await getLlmProvider(shopDomain);
+  if (!provider) {
     return issue;
   }
+  await assertAiBudget(shopDomain);
+  const llm = trackLlmUsage(provider, { shopDomain, productId: product.id, operation: "regenerate_suggestion" });
 
+  const language = detectLanguage(issue.before ?? "")?.language ?? product.language;
   const prompt = `Regenerate a compliant fix for the following Shopify product snippet.
-Market: ${market.toUpperCase()}
-Target field: ${issue.targetField}
+Market: ${market.toUpperCase()}${language ? `\nLanguage: ${languageName(language)}. Write "after" and "suggestion" in ${languageName(language)}.` : ""}
+Target field: ${issue.targetField}${issue.templatePath ? `\nTemplate setting: ${issue.templatePath}` : ""}
 Issue summary: ${issue.summary}
 Original text: ${issue.before ?? ""}
 
 Respond as JSON {"after":"..","suggestion":".."}`;
 
-  const completion = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    temperature: 0.3,
-    response_format: { type: "json_object" },
-    messages: [
-      { role: "system", content: "You improve Shopify product content for policy compliance." },
-      { role: "user", content: prompt },
-    ],
-  });
-
-  const payload = safeJson(completion.choices?.[0]?.message?.content ?? "{}");
+  const { value: payload } = await completeStructured<{ after: string; suggestion: string }>(
+    llm,
+    {
+      temperature: 0.3,
+      messages: [
+        { role: "system", content: "You improve Shopify product content for policy compliance." },
+        { role: "user", content: prompt },
+      ],
+    },
+    REGENERATED_SUGGESTION_SCHEMA,
+  );
   return {
     ...issue,
-    suggestion: payload?.suggestion ?? payload?.after ?? issue.suggestion,
-    after: payload?.after ?? issue.after,
+    suggestion: payload.suggestion || payload.after,
+    after: payload.after,
   };
 }
 
-async function applyProductFieldUpdate(admin: any, productId: string, issue: WorkspaceIssue) {
+async function applyProductFieldUpdate(admin: any, productId: string, issue: WorkspaceIssue, snapshot: FixSnapshot) {
   const input: Record<string, unknown> = { id: productId };
   if (issue.targetField === "title") {
     input.title = issue.after ?? issue.suggestion;
   }
   if (issue.targetField === "description") {
-    const html = toHtmlParagraphs(issue.after ?? issue.suggestion ?? "");
-    input.descriptionHtml = html;
+    // Only the words that changed are rewritten inside the live HTML, so lists, links, images and tables are kept.
+    const current = snapshot.descriptionHtml ?? "";
+    const after = issue.after ?? issue.suggestion ?? "";
+    input.descriptionHtml = sanitizeHtml(current.trim() ? replaceHtmlText(current, issue.before ?? "", after).html : textToHtml(after));
   }
 
   const response = await admin.graphql(PRODUCT_UPDATE_MUTATION, {
@@ -288,33 +487,185 @@ async function applyMetadataUpdate(admin: any, productId: string, issue: Workspa
   }
 }
 
-async function applyTemplateUpdate(admin: any, session: Session, issue: WorkspaceIssue) {
-  if (!issue.templateKey) {
-    throw new Error("Template key missing");
+async function applyImageAltUpdate(admin: any, productId: string, issue: WorkspaceIssue) {
+  if (!issue.mediaId) {
+    throw new Error("Image target missing");
   }
-  const themesResponse = await admin.rest.resources.Theme.all({ session });
-  const mainTheme = themesResponse?.data?.find((theme: any) => theme.role === "main") ?? themesResponse?.data?.[0];
-  if (!mainTheme?.id) {
-    throw new Error("No editable theme found");
+  await updateMediaAlt(admin, productId, { id: issue.mediaId, alt: issue.after ?? issue.suggestion ?? "" });
+}
+
+async function updateMediaAlt(admin: any, productId: string, media: { id: string; alt: string }) {
+  const response = await admin.graphql(PRODUCT_MEDIA_UPDATE_MUTATION, {
+    variables: { productId, media: [media] },
+  });
+  const body = await response.json();
+  const errors = body?.data?.productUpdateMedia?.mediaUserErrors;
+  if (errors?.length) {
+    throw new Error(errors[0].message ?? "Image update failed");
   }
+}
+
+// JSON templates are edited through the parsed setting; Liquid files still need an exact, unique snippet.
+async function applyTemplateUpdate(admin: any, session: Session, issue: WorkspaceIssue, snapshot: FixSnapshot) {
+  if (!snapshot.asset) {
+    throw new Error("Template asset not found");
+  }
+  const replacement = issue.after ?? issue.suggestion ?? "";
+  if (!isJsonTemplateKey(snapshot.asset.key)) {
+    await saveThemeAsset(admin, session, {
+      ...snapshot.asset,
+      value: replaceUniqueSnippet(snapshot.asset.value, issue.before ?? "", replacement, snapshot.asset.key),
+    });
+    return;
+  }
+
+  if (!issue.templatePath) {
+    throw new Error(`The fix for ${snapshot.asset.key} does not name a template setting. Rescan the product to refresh it.`);
+  }
+  const parsed = parseJsonTemplate(snapshot.asset.value);
+  let schema: SectionSchema | null = null;
+  // Settings still on their schema default are absent from the template; the section schema says whether they exist.
+  if (getTemplateSetting(parsed.template, issue.templatePath) === undefined) {
+    const sectionType = parsed.template.sections[parseTemplatePath(issue.templatePath).sectionId]?.type;
+    const liquid = sectionType
+      ? await fetchThemeAsset(admin, session, snapshot.asset.themeId, `sections/${sectionType}.liquid`)
+      : null;
+    schema = liquid ? parseSectionSchema(liquid) : null;
+  }
+  const updated = setTemplateSetting(parsed, issue.templatePath, replacement, { expected: issue.before, schema });
+  await saveThemeAsset(admin, session, { ...snapshot.asset, value: serializeJsonTemplate(updated) });
+}
 
+/** Reads the live value `issue` would overwrite. Template snapshots are read from `themeId`. */
+export async function captureFixSnapshot({
+  admin,
+  session,
+  productId,
+  issue,
+  themeId,
+}: {
+  admin: any;
+  session: Session;
+  productId: string;
+  issue: Pick<WorkspaceIssue, "targetField" | "metadataNamespace" | "metadataKey" | "templateKey" | "mediaId">;
+  themeId?: string | null;
+}): Promise<FixSnapshot> {
+  const snapshot: FixSnapshot = { field: issue.targetField, capturedAt: new Date().toISOString() };
+
+  if (issue.targetField === "title" || issue.targetField === "description") {
+    const response = await admin.graphql(PRODUCT_FIELDS_SNAPSHOT_QUERY, { variables: { id: productId } });
+    const body = await response.json();
+    const product = body?.data?.product;
+    if (!product) {
+      throw new Error("Product not found");
+    }
+    if (issue.targetField === "title") snapshot.title = product.title ?? "";
+    else snapshot.descriptionHtml = product.descriptionHtml ?? "";
+  } else if (issue.targetField === "metadata") {
+    if (!issue.metadataNamespace || !issue.metadataKey) {
+      throw new Error("Metadata target missing");
+    }
+    const response = await admin.graphql(METAFIELD_SNAPSHOT_QUERY, {
+      variables: { id: productId, namespace: issue.metadataNamespace, key: issue.metadataKey },
+    });
+    const body = await response.json();
+    const metafield = body?.data?.product?.metafield;
+    snapshot.metafield = {
+      namespace: issue.metadataNamespace,
+      key: issue.metadataKey,
+      type: metafield?.type ?? null,
+      value: metafield?.value ?? null,
+    };
+  } else if (issue.targetField === "template") {
+    if (!issue.templateKey) {
+      throw new Error("Template key missing");
+    }
+    if (!themeId) {
+      throw new Error("No editable theme found");
+    }
+    const value = await fetchThemeAsset(admin, session, themeId, issue.templateKey);
+    if (!value) {
+      throw new Error("Template asset not found");
+    }
+    snapshot.asset = { themeId, key: issue.templateKey, value };
+  } else if (issue.targetField === "image") {
+    if (!issue.mediaId) {
+      throw new Error("Image target missing");
+    }
+    const response = await admin.graphql(MEDIA_SNAPSHOT_QUERY, { variables: { id: issue.mediaId } });
+    const body = await response.json();
+    const media = body?.data?.node;
+    if (!media?.id) {
+      throw new Error("Image not found");
+    }
+    snapshot.media = { id: media.id, alt: media.alt ?? "" };
+  }
+
+  return snapshot;
+}
+
+/** Writes a snapshot back exactly as captured: raw HTML, the original metafield type, the whole theme asset. */
+export async function restoreFixSnapshot({
+  admin,
+  session,
+  productId,
+  snapshot,
+}: {
+  admin: any;
+  session: Session;
+  productId: string;
+  snapshot: FixSnapshot;
+}) {
+  if (snapshot.title !== undefined || snapshot.descriptionHtml !== undefined) {
+    const input: Record<string, unknown> = { id: productId };
+    if (snapshot.title !== undefined) input.title = snapshot.title;
+    if (snapshot.descriptionHtml !== undefined) input.descriptionHtml = snapshot.descriptionHtml;
+    const response = await admin.graphql(PRODUCT_UPDATE_MUTATION, { variables: { input } });
+    const body = await response.json();
+    const errors = body?.data?.productUpdate?.userErrors;
+    if (errors?.length) {
+      throw new Error(errors[0].message ?? "Product update failed");
+    }
+  } else if (snapshot.metafield) {
+    const { namespace, key, type, value } = snapshot.metafield;
+    const response =
+      value === null
+        ? await admin.graphql(METAFIELDS_DELETE_MUTATION, {
+            variables: { metafields: [{ ownerId: productId, namespace, key }] },
+          })
+        : await admin.graphql(METAFIELDS_SET_MUTATION, {
+            variables: {
+              metafields: [{ ownerId: productId, namespace, key, type: type ?? "single_line_text_field", value }],
+            },
+          });
+    const body = await response.json();
+    const errors = (value === null ? body?.data?.metafieldsDelete : body?.data?.metafieldsSet)?.userErrors;
+    if (errors?.length) {
+      throw new Error(errors[0].message ?? "Metafield update failed");
+    }
+  } else if (snapshot.asset) {
+    await saveThemeAsset(admin, session, snapshot.asset);
+  } else if (snapshot.media) {
+    await updateMediaAlt(admin, productId, snapshot.media);
+  } else {
+    throw new Error("Snapshot has no value to restore");
+  }
+}
+
+async function fetchThemeAsset(admin: any, session: Session, themeId: string, key: string): Promise<string | null> {
   const assetResponse = await admin.rest.resources.Asset.all({
     session,
-    theme_id: mainTheme.id,
-    asset: { key: issue.templateKey },
+    theme_id: Number(themeId),
+    asset: { key },
   });
-  const asset = assetResponse?.data?.[0];
-  if (!asset?.value) {
-    throw new Error("Template asset not found");
-  }
+  return assetResponse?.data?.[0]?.value ?? null;
+}
 
-  const originalText = issue.before ?? "";
-  const replacement = issue.after ?? issue.suggestion ?? "";
-  const nextValue = asset.value.replace(originalText, replacement);
+async function saveThemeAsset(admin: any, session: Session, asset: { themeId: string; key: string; value: string }) {
   const themeAsset = new admin.rest.resources.Asset({ session });
-  themeAsset.theme_id = mainTheme.id;
-  themeAsset.key = issue.templateKey;
-  themeAsset.value = nextValue;
+  themeAsset.theme_id = Number(asset.themeId);
+  themeAsset.key = asset.key;
+  themeAsset.value = asset.value;
   await themeAsset.save({ update: true });
 }
 
@@ -351,16 +702,6 @@ async function markIssueResolved({
   });
 }
 
-function toHtmlParagraphs(text: string) {
-  if (!text) return "<p></p>";
-  return text
-    .split(/\n+/)
-    .map((line) => line.trim())
-    .filter(Boolean)
-    .map((line) => `<p>${line}</p>`)
-    .join("") || "<p></p>";
-}
-
 export async function fetchWorkspaceProduct(admin: any, productId: string): Promise<WorkspaceProductContext> {
   const response = await admin.graphql(WORKSPACE_PRODUCT_QUERY, {
     variables: { id: productId },
@@ -371,7 +712,7 @@ export async function fetchWorkspaceProduct(admin: any, productId: string): Prom
     throw new Error("Product not found");
   }
 
-  const descriptionText = stripHtml(product.descriptionHtml ?? "");
+  const descriptionText = htmlToText(product.descriptionHtml ?? "");
   const metafields = (product.metafields?.edges ?? [])
     .map((edge: any) => edge?.node)
     .filter(Boolean)
@@ -394,14 +735,19 @@ export async function fetchWorkspaceProduct(admin: any, productId: string): Prom
     templateSuffix: product.templateSuffix,
     featuredImage: product.featuredImage,
     seo: product.seo,
+    language: detectLanguage(`${product.title ?? ""}\n${descriptionText}`)?.language,
+    images: (product.media?.nodes ?? [])
+      .filter((node: any) => node?.id && node.image?.url)
+      .map((node: any) => ({ id: node.id, url: node.image.url, alt: node.alt ?? null })),
     metafields,
   };
 }
 
-async function fetchTemplateContent(admin: any, session: Session, templateSuffix?: string | null) {
-  const themesResponse = await admin.rest.resources.Theme.all({ session });
-  const mainTheme = themesResponse?.data?.find((theme: any) => theme.role === "main") ?? themesResponse?.data?.[0];
-  if (!mainTheme?.id) {
+// Reads from the open draft theme when there is one, so suggestions build on template fixes already made there.
+async function fetchTemplateContent(admin: any, session: Session, shopDomain: string, templateSuffix?: string | null) {
+  const draft = await getActiveThemeDraft(shopDomain);
+  const themeId = draft?.status === "ready" && draft.themeId ? draft.themeId : (await resolveMainTheme(admin, session))?.id;
+  if (!themeId) {
     return null;
   }
 
@@ -415,14 +761,11 @@ async function fetchTemplateContent(admin: any, session: Session, templateSuffix
 
   for (const key of candidateKeys) {
     try {
-      const assetResponse = await admin.rest.resources.Asset.all({
-        session,
-        theme_id: mainTheme.id,
-        asset: { key },
-      });
-      const asset = assetResponse?.data?.[0];
-      if (asset?.value) {
-        return { key, value: asset.value } satisfies TemplateContext;
+      const value = await fetchThemeAsset(admin, session, themeId, key);
+      if (value) {
+        return isJsonTemplateKey(key)
+          ? await expandJsonTemplate(admin, session, themeId, { key, value })
+          : ({ key, value } satisfies TemplateContext);
       }
     } catch (error) {
       continue;
@@ -432,33 +775,78 @@ async function fetchTemplateContent(admin: any, session: Session, templateSuffix
   return null;
 }
 
+// Adds the template's text settings and the section files it renders. Unparseable JSON falls back to the raw text.
+async function expandJsonTemplate(admin: any, session: Session, themeId: string, template: TemplateContext) {
+  let parsed;
+  try {
+    parsed = parseJsonTemplate(template.value);
+  } catch (error) {
+    console.warn(`Could not parse ${template.key}`, error);
+    return template;
+  }
+
+  const sections: Array<{ key: string; value: string }> = [];
+  for (const key of referencedSectionFiles(parsed.template).slice(0, MAX_SECTION_FILES)) {
+    try {
+      const value = await fetchThemeAsset(admin, session, themeId, key);
+      if (value) sections.push({ key, value });
+    } catch (error) {
+      continue;
+    }
+  }
+
+  const schemas = Object.fromEntries(
+    sections.map((section) => [section.key.replace(/^sections\/|\.liquid$/g, ""), parseSectionSchema(section.value)]),
+  );
+  return { ...template, settings: listTextSettings(parsed.template, schemas), sections } satisfies TemplateContext;
+}
+
 async function runWorkspaceAnalysis({
   product,
   template,
   scope,
   market,
+  shopDomain,
+  scanId,
 }: {
   product: WorkspaceProductContext;
   template: TemplateContext | null;
   scope: FixScope;
   market: string;
+  shopDomain: string;
+  scanId?: string;
 }) {
-  if (!openai) {
+  const provider = await getLlmProvider(shopDomain);
+  if (!provider) {
     return {
       issues: [],
       stats: { scope, totalIssues: 0, confidenceAvg: 0 },
     };
   }
+  await assertAiBudget(shopDomain);
+  const llm = trackLlmUsage(provider, { shopDomain, scanId, productId: product.id, operation: "workspace_analysis" });
 
-  const templateBlock = template ? truncate(template.value, 6000) : "";
+  const templateBlock = template ? formatTemplateForPrompt(template) : "";
   const metadataText = product.metafields
     .map((field) => `${field.namespace}.${field.key}: ${field.value}`)
     .join("\n");
 
-  const selectedScope = scope === "all" ? "title, description, metadata, template" : scope;
+  const attachedImages =
+    provider.vision && (scope === "all" || scope === "image")
+      ? product.images.slice(0, MAX_PROMPT_IMAGES).map((image) => image.url)
+      : [];
+  const imagesText = product.images
+    .map((image, index) => {
+      const attached = index < attachedImages.length ? ` (attached image ${index + 1})` : "";
+      return `${image.id}${attached}: ${image.alt?.trim() || "no alt text"}`;
+    })
+    .join("\n");
+
+  const selectedScope = scope === "all" ? "title, description, metadata, template, image" : scope;
   const prompt = `You are an AI compliance auditor for Shopify merchants.
 Market: ${market.toUpperCase()}
 Scope: ${selectedScope}
+Product language: ${product.language ? languageName(product.language) : "Unknown"}
 
 Product title:
 ${product.title}
@@ -472,6 +860,9 @@ ${truncate(metadataText, 2000) || "None"}
 Template content:
 ${templateBlock || "Template unavailable"}
 
+Images (media ID: alt text):
+${imagesText || "None"}
+
 Return JSON with the following shape strictly:
 {
   "issues": [
@@ -480,7 +871,7 @@ Return JSON with the following shape strictly:
         "title": "",
         "summary": "",
         "severity": "High|Medium|Low",
-        "targetField": "title|description|metadata|template",
+        "targetField": "title|description|metadata|template|image",
         "metadataNamespace": "optional",
         "metadataKey": "optional",
         "policyReference": "",
@@ -488,36 +879,39 @@ Return JSON with the following shape strictly:
         "confidence": 0-1,
         "suggestion": "Updated text or guidance",
         "before": "original snippet",
-        "after": "rewritten snippet"
+        "after": "rewritten snippet",
+        "templateKey": "optional theme file the template fix edits",
+        "templatePath": "optional JSON template setting path",
+        "mediaId": "optional media ID the image fix edits"
      }
   ],
   "stats": { "totalIssues": 0, "confidenceAvg": 0-1 }
 }
 
-Focus on Google Ads and local law policies. ALWAYS include before/after text.`;
-
-  const completion = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    temperature: 0.2,
-    response_format: { type: "json_object" },
-    messages: [
-      { role: "system", content: "You fix policy violations for Shopify product detail pages." },
-      { role: "user", content: prompt },
-    ],
-  });
-
-  const content = completion.choices?.[0]?.message?.content;
-  if (!content) {
-    return {
-      issues: [],
-      stats: { scope, totalIssues: 0, confidenceAvg: 0 },
-    };
-  }
+Focus on Google Ads and local law policies. ALWAYS include before/after text.
+Write "after" and "suggestion" in the language of the text being fixed, so fixes stay in the product's language.
+For description issues, copy "before" word for word from the description and limit it to the sentence or list item being rewritten; formatting is kept automatically.
+For image issues (claims or before/after comparisons in an image, or alt text that makes claims), set "mediaId" to the image's media ID, "before" to its current alt text and "after" to a short, factual alt text without claims; images themselves cannot be edited, so say in "suggestion" what to change in the picture.${
+    template?.settings
+      ? `
+For template issues in text settings, set "templatePath" to the setting path exactly as listed and "before" to its full current value. For markup inside a section file, set "templateKey" to that file and "before" to a snippet that occurs exactly once in it.`
+      : ""
+  }`;
+
+  // An invalid response throws rather than returning no issues, so the workspace never shows a false "clean".
+  const { value: parsed } = await completeStructured<{ issues: Array<Record<string, unknown>> }>(
+    llm,
+    {
+      temperature: 0.2,
+      messages: [
+        { role: "system", content: "You fix policy violations for Shopify product detail pages." },
+        { role: "user", content: prompt, images: attachedImages.length ? attachedImages : undefined },
+      ],
+    },
+    WORKSPACE_ANALYSIS_SCHEMA,
+  );
 
-  const parsed = safeJson(content);
-  const issues = Array.isArray(parsed?.issues)
-    ? parsed.issues.map((issue: any) => normalizeIssue(issue, template))
-    : [];
+  const issues = parsed.issues.map((issue) => normalizeIssue(issue, template, product));
   const totalIssues = issues.length;
   const confidenceAvg = totalIssues
     ? Math.round((issues.reduce((sum, issue) => sum + issue.confidence, 0) / totalIssues) * 100) / 100
@@ -529,7 +923,7 @@ Focus on Google Ads and local law policies. ALWAYS include before/after text.`;
   };
 }
 
-function normalizeIssue(raw: any, template: TemplateContext | null): WorkspaceIssue {
+function normalizeIssue(raw: any, template: TemplateContext | null, product: WorkspaceProductContext): WorkspaceIssue {
   const id = raw?.id && typeof raw.id === "string" ? raw.id : randomUUID();
   const severity = normalizeSeverity(raw?.severity);
   const targetField = normalizeTargetField(raw?.targetField);
@@ -550,11 +944,49 @@ function normalizeIssue(raw: any, template: TemplateContext | null): WorkspaceIs
     suggestion,
     before: raw?.before ?? undefined,
     after: raw?.after ?? suggestion,
-    templateKey: template?.key,
+    ...normalizeTemplateTarget(raw, template),
+    ...(targetField === "image" ? normalizeImageTarget(raw, product) : {}),
     status: "pending",
   };
 }
 
+// Like template targets, only images the model was shown can be edited.
+function normalizeImageTarget(raw: any, product: WorkspaceProductContext): Pick<WorkspaceIssue, "mediaId" | "imageUrl" | "before"> {
+  const image = product.images.find((candidate) => candidate.id === raw?.mediaId);
+  return image ? { mediaId: image.id, imageUrl: image.url, before: image.alt ?? "" } : {};
+}
+
+// Only paths and files that were actually shown to the model are accepted; anything else falls back to the template.
+function normalizeTemplateTarget(raw: any, template: TemplateContext | null): Pick<WorkspaceIssue, "templateKey" | "templatePath" | "before"> {
+  const setting = template?.settings?.find((candidate) => candidate.path === raw?.templatePath);
+  if (setting) {
+    return { templateKey: template?.key, templatePath: setting.path, before: raw?.before || setting.value };
+  }
+  const section = template?.sections?.find((candidate) => candidate.key === raw?.templateKey);
+  return { templateKey: section?.key ?? template?.key, before: raw?.before ?? undefined };
+}
+
+function formatTemplateForPrompt(template: TemplateContext) {
+  if (!template.settings) {
+    return truncate(template.value, 6000);
+  }
+  const settings = template.settings
+    .map((setting) => {
+      const owner = [setting.sectionType, setting.blockType, setting.label].filter(Boolean).join(" › ");
+      return `${setting.path} (${owner}${setting.isDefault ? ", schema default" : ""}): ${JSON.stringify(setting.value)}`;
+    })
+    .join("\n");
+  const sections = (template.sections ?? [])
+    .map((section) => `--- ${section.key} ---\n${truncate(section.value.replace(/\{%-?\s*schema[\s\S]*$/, ""), 1500)}`)
+    .join("\n");
+  return `${template.key} (JSON template)
+Text settings:
+${truncate(settings, 4000) || "None"}
+
+Section files:
+${sections || "None"}`;
+}
+
 function normalizeSeverity(value: any): SeverityLevel {
   const normalized = typeof value === "string" ? value.toLowerCase() : "";
   if (normalized === "high") return "High";
@@ -567,6 +999,7 @@ function normalizeTargetField(value: any): FixScope {
   if (normalized === "title") return "title";
   if (normalized === "metadata") return "metadata";
   if (normalized === "template") return "template";
+  if (normalized === "image") return "image";
   if (normalized === "description") return "description";
   return "description";
 }
@@ -582,18 +1015,6 @@ function truncate(value: string, max: number) {
   return value.length > max ? `${value.slice(0, max)}…` : value;
 }
 
-function stripHtml(raw: string) {
-  return raw.replace(/<[^>]*>?/g, " ").replace(/\s+/g, " ").trim();
-}
-
-function safeJson(raw: string) {
-  try {
-    return JSON.parse(raw);
-  } catch (error) {
-    return { issues: [] };
-  }
-}
-
 async function persistWorkspaceSnapshot({
   shopDomain,
   productId,
@@ -0,0 +1,217 @@
+import { complianceMarketForCountry, MARKET_LANGUAGES } from "../data/markets";
+import { languageOfLocale } from "../utils/language.server";
+import { throttledGraphql } from "../utils/rateLimit.server";
+
+const TRANSLATION_BATCH_SIZE = 50;
+
+const SHOPIFY_MARKETS_QUERY = `#graphql
+  query ShopifyMarkets {
+    shopLocales {
+      locale
+      primary
+      published
+    }
+    markets(first: 50) {
+      nodes {
+        id
+        name
+        handle
+        enabled
+        primary
+        regions(first: 250) {
+          nodes {
+            ... on MarketRegionCountry {
+              code
+            }
+          }
+        }
+        webPresence {
+          defaultLocale { locale }
+          alternateLocales { locale }
+        }
+      }
+    }
+  }
+`;
+
+const PRODUCT_TRANSLATIONS_QUERY = `#graphql
+  query ProductTranslations($ids: [ID!]!, $first: Int!, $locale: String!, $marketId: ID) {
+    translatableResourcesByIds(resourceIds: $ids, first: $first) {
+      nodes {
+        resourceId
+        translations(locale: $locale) { key value }
+        marketTranslations: translations(locale: $locale, marketId: $marketId) { key value }
+      }
+    }
+  }
+`;
+
+export type ShopifyMarket = {
+  id: string;
+  name: string;
+  handle: string;
+  enabled: boolean;
+  primary: boolean;
+  countries: string[];
+  defaultLocale: string | null;
+  /** Default locale first, then alternates. */
+  locales: string[];
+  complianceMarkets: string[];
+};
+
+export type ShopifyMarketCatalog = {
+  primaryLocale: string;
+  markets: ShopifyMarket[];
+};
+
+/** How a compliance market's shoppers see the catalog: the Shopify Market serving them and its storefront language. */
+export type MarketLocalization = {
+  market: string;
+  locale: string;
+  primaryLocale: string;
+  shopifyMarket: { id: string; name: string } | null;
+};
+
+export type ProductTranslation = {
+  title?: string;
+  descriptionHtml?: string;
+  seoTitle?: string;
+  seoDescription?: string;
+  productType?: string;
+};
+
+export async function loadShopifyMarkets(admin: any, shopDomain: string): Promise<ShopifyMarketCatalog> {
+  const { body } = await throttledGraphql(admin, shopDomain, SHOPIFY_MARKETS_QUERY, {}, 60);
+  if (body?.errors?.length) {
+    throw new Error(body.errors[0]?.message ?? "Unable to load Shopify Markets");
+  }
+
+  const shopLocales: Array<{ locale: string; primary: boolean }> = body?.data?.shopLocales ?? [];
+  const primaryLocale = shopLocales.find((locale) => locale.primary)?.locale ?? "en";
+  const markets: ShopifyMarket[] = (body?.data?.markets?.nodes ?? []).map((node: any) => {
+    const countries: string[] = (node.regions?.nodes ?? [])
+      .map((region: any) => region?.code)
+      .filter((code: unknown): code is string => typeof code === "string");
+    const defaultLocale: string | null = node.webPresence?.defaultLocale?.locale ?? null;
+    const locales = [
+      ...(defaultLocale ? [defaultLocale] : []),
+      ...(node.webPresence?.alternateLocales ?? []).map((locale: any) => locale.locale),
+    ].filter((locale, index, list) => locale && list.indexOf(locale) === index);
+    return {
+      id: node.id,
+      name: node.name,
+      handle: node.handle,
+      enabled: Boolean(node.enabled),
+      primary: Boolean(node.primary),
+      countries,
+      defaultLocale,
+      locales,
+      complianceMarkets: Array.from(
+        new Set(countries.map(complianceMarketForCountry).filter((market): market is string => Boolean(market))),
+      ),
+    };
+  });
+
+  return { primaryLocale, markets };
+}
+
+/** Compliance markets covering the countries the shop sells to through its enabled Shopify Markets. */
+export function suggestComplianceMarkets(catalog: ShopifyMarketCatalog) {
+  return Array.from(new Set(catalog.markets.filter((market) => market.enabled).flatMap((market) => market.complianceMarkets)));
+}
+
+/**
+ * Picks the Shopify Market and storefront language to analyze for a compliance market. Markets dedicated to the
+ * compliance market win over broader ones (e.g. "Germany" over "Europe"), the primary market breaks ties, and the
+ * language is the first published locale native to the compliance market, falling back to the market's default.
+ */
+export function resolveMarketLocalization(catalog: ShopifyMarketCatalog, market: string): MarketLocalization | null {
+  const candidates = catalog.markets
+    .filter((candidate) => candidate.enabled && candidate.complianceMarkets.includes(market))
+    .sort(
+      (a, b) =>
+        a.complianceMarkets.length - b.complianceMarkets.length || Number(b.primary) - Number(a.primary),
+    );
+  const shopifyMarket = candidates[0];
+  if (!shopifyMarket) return null;
+
+  const nativeLanguages = MARKET_LANGUAGES[market] ?? [];
+  const locale =
+    shopifyMarket.locales.find((candidate) => nativeLanguages.includes(languageOfLocale(candidate))) ??
+    shopifyMarket.defaultLocale ??
+    catalog.primaryLocale;
+
+  return {
+    market,
+    locale,
+    primaryLocale: catalog.primaryLocale,
+    shopifyMarket: { id: shopifyMarket.id, name: shopifyMarket.name },
+  };
+}
+
+/**
+ * Loads the title, description, SEO fields and product type shoppers see under `localization`. Market-specific content overrides the locale's
+ * translation; products without either are left out and keep their primary-language copy.
+ */
+export async function loadProductTranslations(
+  admin: any,
+  shopDomain: string,
+  productIds: string[],
+  localization: MarketLocalization,
+) {
+  const translations = new Map<string, ProductTranslation>();
+  const marketId = localization.shopifyMarket?.id ?? null;
+  if (localization.locale === localization.primaryLocale && !marketId) {
+    return translations;
+  }
+
+  for (let index = 0; index < productIds.length; index += TRANSLATION_BATCH_SIZE) {
+    const ids = productIds.slice(index, index + TRANSLATION_BATCH_SIZE);
+    const { body } = await throttledGraphql(
+      admin,
+      shopDomain,
+      PRODUCT_TRANSLATIONS_QUERY,
+      { ids, first: ids.length, locale: localization.locale, marketId },
+      ids.length * 3,
+    );
+    if (body?.errors?.length) {
+      throw new Error(body.errors[0]?.message ?? "Unable to load product translations");
+    }
+    (body?.data?.translatableResourcesByIds?.nodes ?? []).forEach((node: any) => {
+      const values = new Map<string, string>();
+      [...(node.translations ?? []), ...(node.marketTranslations ?? [])].forEach((translation: any) => {
+        if (typeof translation?.value === "string" && translation.value.trim()) {
+          values.set(translation.key, translation.value);
+        }
+      });
+      const translation: ProductTranslation = {
+        title: values.get("title"),
+        descriptionHtml: values.get("body_html"),
+        seoTitle: values.get("meta_title"),
+        seoDescription: values.get("meta_description"),
+        productType: values.get("product_type"),
+      };
+      if (Object.values(translation).some((value) => value !== undefined)) {
+        translations.set(node.resourceId, translation);
+      }
+    });
+  }
+
+  return translations;
+}
+
+/** The product as shoppers in the localized market see it, tagged with the language it was read in. */
+export function localizeProduct(product: any, localization: MarketLocalization | null, translation?: ProductTranslation) {
+  if (!localization) return product;
+  return {
+    ...product,
+    title: translation?.title ?? product.title,
+    descriptionHtml: translation?.descriptionHtml ?? product.descriptionHtml,
+    productType: translation?.productType ?? product.productType,
+    seo: {
+      title: translation?.seoTitle ?? product.seo?.title ?? null,
+      description: translation?.seoDescription ?? product.seo?.description ?? null,
+    },
+    locale: translation ? localization.locale : localization.primaryLocale,
+  };
+}
@@ -0,0 +1,113 @@
+import prisma from "../db.server";
+import { MULTI_MARKET } from "../data/markets";
+import type { ComplianceFinding } from "./scan.server";
+
+export type MarketMatrixCell = {
+  scanId: string;
+  complianceScore: number;
+  violations: number;
+  highSeverity: number;
+  status: ComplianceFinding["status"];
+};
+
+export type MarketMatrixRow = {
+  productId: string;
+  legacyResourceId: string | null;
+  productTitle: string;
+  thumbnailUrl: string | null;
+  /** Keyed by market; null when the product was not evaluated for that market (e.g. the scan was cancelled). */
+  cells: Record<string, MarketMatrixCell | null>;
+};
+
+export type MarketMatrix = {
+  scanId: string;
+  status: string;
+  startedAt: string;
+  completedAt: string | null;
+  markets: string[];
+  marketSummaries: Record<string, { scanId: string; complianceScore: number | null; violations: number } | null>;
+  rows: MarketMatrixRow[];
+};
+
+export type MultiMarketScanSummary = {
+  id: string;
+  markets: string[];
+  status: string;
+  startedAt: string;
+};
+
+export async function listMultiMarketScans(shopDomain: string, take = 10): Promise<MultiMarketScanSummary[]> {
+  const scans = await prisma.scan.findMany({
+    where: { shopDomain, market: MULTI_MARKET },
+    orderBy: { startedAt: "desc" },
+    take,
+    select: { id: true, markets: true, status: true, startedAt: true },
+  });
+  return scans.map((scan: any) => ({
+    id: scan.id,
+    markets: scan.markets ?? [],
+    status: scan.status,
+    startedAt: scan.startedAt.toISOString(),
+  }));
+}
+
+/**
+ * Product × market view of a multi-market scan, built from its per-market scans. Without `scanId`, the latest
+ * multi-market scan that produced results is used. Rows with the most failing markets come first.
+ */
+export async function loadMarketMatrix(shopDomain: string, scanId?: string | null): Promise<MarketMatrix | null> {
+  const parent = await prisma.scan.findFirst({
+    where: scanId
+      ? { id: scanId, shopDomain, market: MULTI_MARKET }
+      : { shopDomain, market: MULTI_MARKET, status: { in: ["complete", "cancelled"] } },
+    orderBy: { startedAt: "desc" },
+  });
+  if (!parent) return null;
+
+  const marketScans = await prisma.scan.findMany({ where: { parentScanId: parent.id } });
+  const markets: string[] = parent.markets?.length ? parent.markets : marketScans.map((scan: any) => scan.market);
+  const rows = new Map<string, MarketMatrixRow>();
+  const marketSummaries: MarketMatrix["marketSummaries"] = Object.fromEntries(markets.map((market) => [market, null]));
+
+  marketScans.forEach((scan: any) => {
+    marketSummaries[scan.market] = {
+      scanId: scan.id,
+      complianceScore: scan.complianceScore ?? null,
+      violations: scan.violations ?? 0,
+    };
+    ((scan.results as ComplianceFinding[] | null) ?? []).forEach((finding) => {
+      const row =
+        rows.get(finding.productId) ??
+        ({
+          productId: finding.productId,
+          legacyResourceId: finding.legacyResourceId ?? null,
+          productTitle: finding.productTitle,
+          thumbnailUrl: finding.thumbnailUrl ?? null,
+          cells: Object.fromEntries(markets.map((market) => [market, null])),
+        } satisfies MarketMatrixRow);
+      row.cells[scan.market] = {
+        scanId: scan.id,
+        complianceScore: finding.complianceScore,
+        violations: finding.violations.length,
+        highSeverity: finding.violations.filter((violation) => violation.severity === "High").length,
+        status: finding.status,
+      };
+      rows.set(finding.productId, row);
+    });
+  });
+
+  const failingMarkets = (row: MarketMatrixRow) =>
+    Object.values(row.cells).filter((cell) => cell && cell.status !== "clean").length;
+
+  return {
+    scanId: parent.id,
+    status: parent.status,
+    startedAt: parent.startedAt.toISOString(),
+    completedAt: parent.completedAt ? parent.completedAt.toISOString() : null,
+    markets,
+    marketSummaries,
+    rows: Array.from(rows.values()).sort(
+      (a, b) => failingMarkets(b) - failingMarkets(a) || a.productTitle.localeCompare(b.productTitle),
+    ),
+  };
+}
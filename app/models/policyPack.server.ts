@@ -0,0 +1,159 @@
+import prisma from "../db.server";
+import {
+  BUILTIN_POLICY_PACK_VERSION,
+  POLICY_KEYWORDS,
+  POLICY_PARENT_MARKETS,
+  type PolicyRule,
+} from "../data/policyKeywords";
+
+const CACHE_TTL_MS = Number(process.env.POLICY_PACK_CACHE_MS ?? 60_000);
+const ROOT_MARKET = "default";
+const BUILTIN_PREFIX = "builtin-";
+
+type PolicyPackLink = {
+  market: string;
+  version: string;
+  name: string;
+  parentMarket: string | null;
+  rules: PolicyRule[];
+};
+
+export type ResolvedPolicyPack = {
+  market: string;
+  /** Composite of every pack in the chain, e.g. `default@2025.10+eu@2025.10+de@2025.10`. Stored on `Scan`. */
+  version: string;
+  rules: PolicyRule[];
+  packs: Array<{ market: string; version: string; name: string }>;
+};
+
+const cache = new Map<string, { expiresAt: number; pack: ResolvedPolicyPack }>();
+
+/**
+ * Resolves the rules in effect for a market at `at`, walking the inheritance chain (e.g. de → eu → default).
+ * Rules from a more specific pack replace parent rules with the same category.
+ */
+export async function loadPolicyPack(market: string, { at }: { at?: Date } = {}) {
+  const key = market.toLowerCase();
+  if (!at) {
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.pack;
+    }
+  }
+
+  const effectiveAt = at ?? new Date();
+  const pack = await resolvePolicyPack(key, (chainMarket) => findEffectivePack(chainMarket, effectiveAt));
+  if (!at) {
+    cache.set(key, { expiresAt: Date.now() + CACHE_TTL_MS, pack });
+  }
+  return pack;
+}
+
+/**
+ * Loads the exact packs recorded in a scan's `policyPackVersion` so a rescan against that scan uses the same
+ * rules. Links whose pinned version no longer exists fall back to the pack currently in effect.
+ */
+export async function loadPolicyPackVersion(market: string, version: string) {
+  const pinned = parsePackVersion(version);
+  return resolvePolicyPack(market.toLowerCase(), async (chainMarket) => {
+    const pinnedVersion = pinned.get(chainMarket);
+    if (pinnedVersion) {
+      const link = await findPackVersion(chainMarket, pinnedVersion);
+      if (link) return link;
+    }
+    return findEffectivePack(chainMarket, new Date());
+  });
+}
+
+export function clearPolicyPackCache() {
+  cache.clear();
+}
+
+async function resolvePolicyPack(
+  market: string,
+  pick: (market: string) => Promise<PolicyPackLink | null>,
+): Promise<ResolvedPolicyPack> {
+  const chain: PolicyPackLink[] = [];
+  const visited = new Set<string>();
+  let current: string | null = market;
+
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    const link = await pick(current);
+    if (link) {
+      chain.unshift(link);
+    }
+    if (current === ROOT_MARKET) break;
+    current = link?.parentMarket ?? POLICY_PARENT_MARKETS[current] ?? ROOT_MARKET;
+  }
+
+  const rulesByCategory = new Map<string, PolicyRule>();
+  chain.forEach((link) => {
+    link.rules.forEach((rule) => rulesByCategory.set(rule.category, rule));
+  });
+
+  return {
+    market,
+    version: chain.map((link) => `${link.market}@${link.version}`).join("+"),
+    rules: Array.from(rulesByCategory.values()),
+    packs: chain.map(({ market: linkMarket, version, name }) => ({ market: linkMarket, version, name })),
+  };
+}
+
+async function findEffectivePack(market: string, at: Date): Promise<PolicyPackLink | null> {
+  const record = await prisma.policyPack.findFirst({
+    where: {
+      market,
+      effectiveFrom: { lte: at },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+    },
+    orderBy: { effectiveFrom: "desc" },
+  });
+  return record ? toPackLink(record) : builtinPack(market);
+}
+
+async function findPackVersion(market: string, version: string): Promise<PolicyPackLink | null> {
+  if (version.startsWith(BUILTIN_PREFIX)) {
+    return builtinPack(market);
+  }
+  const record = await prisma.policyPack.findUnique({
+    where: { market_version: { market, version } },
+  });
+  return record ? toPackLink(record) : null;
+}
+
+function builtinPack(market: string): PolicyPackLink | null {
+  const rules = POLICY_KEYWORDS[market];
+  if (!rules) return null;
+  return {
+    market,
+    version: `${BUILTIN_PREFIX}${BUILTIN_POLICY_PACK_VERSION}`,
+    name: `Built-in ${market.toUpperCase()} rules`,
+    parentMarket: market === ROOT_MARKET ? null : POLICY_PARENT_MARKETS[market] ?? ROOT_MARKET,
+    rules,
+  };
+}
+
+function toPackLink(record: any): PolicyPackLink {
+  return {
+    market: record.market,
+    version: record.version,
+    name: record.name,
+    parentMarket: record.market === ROOT_MARKET ? null : record.parentMarket ?? null,
+    rules: Array.isArray(record.rules) ? (record.rules as PolicyRule[]) : [],
+  };
+}
+
+function parsePackVersion(version: string) {
+  const pinned = new Map<string, string>();
+  version
+    .split("+")
+    .filter(Boolean)
+    .forEach((part) => {
+      const separator = part.indexOf("@");
+      if (separator > 0) {
+        pinned.set(part.slice(0, separator), part.slice(separator + 1));
+      }
+    });
+  return pinned;
+}
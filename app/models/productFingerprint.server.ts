@@ -0,0 +1,103 @@
+import { createHash } from "node:crypto";
+
+import prisma from "../db.server";
+import type { PolicyRule } from "../data/policyKeywords";
+import type { ComplianceFinding } from "./scan.server";
+import type { AllowListEntry } from "./shopPolicy.server";
+
+// Bump when the analysis itself (prompt, scoring, heuristics) changes so stored findings are not reused.
+const ANALYSIS_VERSION = "2025-11-7";
+
+export type StoredFingerprint = {
+  fingerprint: string;
+  rulesVersion: string;
+  scanId: string | null;
+  finding: ComplianceFinding | null;
+};
+
+/** `model` is the `provider/model` that analyzed the products, so findings from one model are not reused for another. */
+export function computeRulesVersion(
+  rules: PolicyRule[],
+  allowList: AllowListEntry[] = [],
+  mode = "hybrid",
+  { model = null, imageAnalysis = null }: { model?: string | null; imageAnalysis?: string | null } = {},
+) {
+  const allowed = allowList.map((entry) => `${entry.scope}:${entry.targetId ?? ""}:${entry.term.toLowerCase()}`).sort();
+  return hash(JSON.stringify({ analysis: ANALYSIS_VERSION, mode, model, imageAnalysis, rules, allowed })).slice(0, 16);
+}
+
+export function computeProductFingerprint(product: any, market: string, rulesVersion: string) {
+  const metafields = (product.metafields?.edges ?? [])
+    .map((edge: any) => `${edge?.node?.namespace}.${edge?.node?.key}=${edge?.node?.value}`)
+    .sort();
+
+  return hash(
+    JSON.stringify({
+      title: product.title ?? "",
+      description: product.descriptionHtml ?? "",
+      seo: { title: product.seo?.title ?? "", description: product.seo?.description ?? "" },
+      vendor: product.vendor ?? "",
+      productType: product.productType ?? "",
+      variants: (product.variants?.nodes ?? []).map((variant: any) => variant.title).sort(),
+      options: (product.options ?? []).map((option: any) => option.name),
+      imageAlts: (product.media?.nodes ?? []).map((media: any) => media.alt ?? ""),
+      images: (product.media?.nodes ?? []).map((media: any) => media.image?.url ?? ""),
+      tags: [...(product.tags ?? [])].sort(),
+      collections: (product.collections?.nodes ?? []).map((collection: any) => collection.id).sort(),
+      metafields,
+      locale: product.locale ?? null,
+      market: market.toLowerCase(),
+      rulesVersion,
+    }),
+  );
+}
+
+export async function loadFingerprints(shopDomain: string, market: string) {
+  const records = await prisma.productFingerprint.findMany({ where: { shopDomain, market } });
+  return new Map<string, StoredFingerprint>(
+    records.map((record: any) => [
+      record.productId,
+      {
+        fingerprint: record.fingerprint,
+        rulesVersion: record.rulesVersion,
+        scanId: record.scanId ?? null,
+        finding: (record.finding as ComplianceFinding | null) ?? null,
+      },
+    ]),
+  );
+}
+
+export async function loadFingerprint(shopDomain: string, market: string, productId: string) {
+  const record = await prisma.productFingerprint.findUnique({
+    where: { shopDomain_productId_market: { shopDomain, productId, market } },
+  });
+  return record ? (record.fingerprint as string) : null;
+}
+
+export async function saveFingerprints(
+  shopDomain: string,
+  market: string,
+  scanId: string,
+  rulesVersion: string,
+  entries: Array<{ fingerprint: string; finding: ComplianceFinding }>,
+) {
+  // Errored findings are not stored so the product is retried on the next incremental scan.
+  const storable = entries.filter((entry) => entry.finding.status !== "error");
+  if (!storable.length) return;
+
+  await prisma.$transaction(
+    storable.map(({ fingerprint, finding }) =>
+      prisma.productFingerprint.upsert({
+        where: {
+          shopDomain_productId_market: { shopDomain, productId: finding.productId, market },
+        },
+        update: { fingerprint, rulesVersion, scanId, finding },
+        create: { shopDomain, productId: finding.productId, market, fingerprint, rulesVersion, scanId, finding },
+      }),
+    ),
+  );
+}
+
+function hash(value: string) {
+  return createHash("sha256").update(value).digest("hex");
+}
@@ -0,0 +1,159 @@
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { WORKER_INSTANCE_ID } from "../utils/worker.server";
+import { findLatestCompleteScans, removeProductFromScans, rescanSingleProduct } from "./scan.server";
+
+const RESCAN_DEBOUNCE_MS = Number(process.env.PRODUCT_RESCAN_DEBOUNCE_MS ?? 60_000);
+const RESCAN_MAX_DELAY_MS = Number(process.env.PRODUCT_RESCAN_MAX_DELAY_MS ?? 15 * 60 * 1000);
+const RESCAN_BATCH_SIZE = Number(process.env.PRODUCT_RESCAN_BATCH_SIZE ?? 20);
+const RESCAN_LEASE_MS = 5 * 60 * 1000;
+const RESCAN_MAX_ATTEMPTS = 5;
+
+type PendingProductRescanRecord = {
+  id: string;
+  shopDomain: string;
+  productId: string;
+  requestedAt: Date;
+  attempts: number;
+};
+
+export function toProductGid(id: string | number) {
+  const value = String(id);
+  return value.startsWith("gid://") ? value : `gid://shopify/Product/${value}`;
+}
+
+/**
+ * Records that a product changed. Every webhook for the same product pushes `dueAt` forward, so a burst of
+ * edits in the admin collapses into one rescan once the product has been quiet for `PRODUCT_RESCAN_DEBOUNCE_MS`.
+ * A product that never goes quiet is still rescanned `PRODUCT_RESCAN_MAX_DELAY_MS` after its first queued change.
+ */
+export async function queueProductRescan({
+  shopDomain,
+  productId,
+  topic,
+}: {
+  shopDomain: string;
+  productId: string;
+  topic: string;
+}) {
+  const now = new Date();
+  const existing = await prisma.pendingProductRescan.findUnique({
+    where: { shopDomain_productId: { shopDomain, productId } },
+    select: { firstRequestedAt: true },
+  });
+  const firstRequestedAt: Date = existing?.firstRequestedAt ?? now;
+  const dueAt = new Date(
+    Math.min(now.getTime() + RESCAN_DEBOUNCE_MS, firstRequestedAt.getTime() + RESCAN_MAX_DELAY_MS),
+  );
+
+  await prisma.pendingProductRescan.upsert({
+    where: { shopDomain_productId: { shopDomain, productId } },
+    update: { topic, requestedAt: now, dueAt, attempts: 0, lastError: null },
+    create: { shopDomain, productId, topic, requestedAt: now, firstRequestedAt: now, dueAt },
+  });
+}
+
+export async function handleProductDeleted({ shopDomain, productId }: { shopDomain: string; productId: string }) {
+  await prisma.pendingProductRescan.deleteMany({ where: { shopDomain, productId } });
+  await removeProductFromScans({ shopDomain, productId });
+}
+
+export async function processPendingProductRescans({
+  now = new Date(),
+  limit = RESCAN_BATCH_SIZE,
+}: { now?: Date; limit?: number } = {}) {
+  const candidates = await prisma.pendingProductRescan.findMany({
+    where: {
+      dueAt: { lte: now },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    },
+    orderBy: { dueAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  let processed = 0;
+  for (const candidate of candidates) {
+    const pending = await claimPendingRescan(candidate.id, now);
+    if (!pending) continue;
+    await executePendingRescan(pending);
+    processed += 1;
+  }
+  return processed;
+}
+
+async function claimPendingRescan(id: string, now: Date): Promise<PendingProductRescanRecord | null> {
+  const claimed = await prisma.pendingProductRescan.updateMany({
+    where: {
+      id,
+      dueAt: { lte: now },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    },
+    data: {
+      lockedBy: WORKER_INSTANCE_ID,
+      lockedUntil: new Date(now.getTime() + RESCAN_LEASE_MS),
+    },
+  });
+  if (claimed.count !== 1) {
+    return null;
+  }
+  return prisma.pendingProductRescan.findUnique({ where: { id } });
+}
+
+async function executePendingRescan(pending: PendingProductRescanRecord) {
+  try {
+    const latestScans = await findLatestCompleteScans(pending.shopDomain);
+    if (latestScans.length) {
+      const { admin } = await unauthenticated.admin(pending.shopDomain);
+      for (const scan of latestScans) {
+        await rescanSingleProduct({
+          admin,
+          scanId: scan.id,
+          productId: pending.productId,
+          shopDomain: pending.shopDomain,
+          // Price, inventory and other edits the scan does not read, including the app's own fixes, cost nothing.
+          skipUnchanged: true,
+        });
+      }
+    }
+
+    // Only clear the row if no newer webhook arrived while the rescan was running.
+    const removed = await prisma.pendingProductRescan.deleteMany({
+      where: { id: pending.id, requestedAt: pending.requestedAt },
+    });
+    if (!removed.count) {
+      // The newer edits start their own debounce window.
+      await releasePendingRescan(pending.id, { firstRequestedAt: new Date() });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Product rescan failed";
+    const attempts = pending.attempts + 1;
+    console.error(`[product-rescan] ${pending.productId} for ${pending.shopDomain} failed`, message);
+
+    if (attempts >= RESCAN_MAX_ATTEMPTS) {
+      await prisma.pendingProductRescan.deleteMany({
+        where: { id: pending.id, requestedAt: pending.requestedAt },
+      });
+      return;
+    }
+    await releasePendingRescan(pending.id, {
+      attempts,
+      lastError: message,
+      dueAt: new Date(Date.now() + RESCAN_DEBOUNCE_MS * 2 ** attempts),
+    });
+  }
+}
+
+async function releasePendingRescan(
+  id: string,
+  data: { attempts?: number; lastError?: string | null; dueAt?: Date; firstRequestedAt?: Date },
+) {
+  await prisma.pendingProductRescan.updateMany({
+    where: { id, lockedBy: WORKER_INSTANCE_ID },
+    data: {
+      ...data,
+      lockedBy: null,
+      lockedUntil: null,
+    },
+  });
+}
@@ -1,28 +1,142 @@
 import prisma from "../db.server";
-import { getPolicyRules, type PolicyRule } from "../data/policyKeywords";
-import { openai, testConnection } from "../utils/openai.server";
+import { MULTI_MARKET } from "../data/markets";
+import type { PolicyRule } from "../data/policyKeywords";
+import { getLlmProvider, testConnection, type LlmProvider } from "../utils/llm.server";
+import { completeStructured, LlmResponseInvalidError, type LlmResponseSchema } from "../utils/llmSchema.server";
+import { detectLanguage, languageName, languageOfLocale } from "../utils/language.server";
+import { matchPolicyRules, type MatchableField, type PolicyRuleMatch } from "../utils/policyMatcher.server";
+import { mapWithConcurrency, throttledGraphql } from "../utils/rateLimit.server";
+import {
+  IMAGE_FINDING_LABELS,
+  resolveImageAnalyzer,
+  type ImageAnalysis,
+  type ImageAnalyzer,
+  type ProductImage,
+} from "../utils/vision.server";
+import { AiBudgetExceededError, loadAiBudgetTracker, trackLlmUsage, type AiBudgetTracker } from "./aiUsage.server";
+import { assertPlanFeature, assertScanAllowed } from "./billing.server";
+import {
+  loadProductTranslations,
+  loadShopifyMarkets,
+  localizeProduct,
+  resolveMarketLocalization,
+  type MarketLocalization,
+  type ProductTranslation,
+  type ShopifyMarketCatalog,
+} from "./marketLocalization.server";
+import { loadPolicyPack, loadPolicyPackVersion } from "./policyPack.server";
+import { allowedTermsFor, loadShopPolicy, mergePolicyRules, type ShopPolicy } from "./shopPolicy.server";
+import {
+  computeProductFingerprint,
+  computeRulesVersion,
+  loadFingerprint,
+  loadFingerprints,
+  saveFingerprints,
+  type StoredFingerprint,
+} from "./productFingerprint.server";
+
+const SCAN_CONCURRENCY = Number(process.env.SCAN_CONCURRENCY ?? 5);
+// Shopify's title for the only variant of a product without options.
+const DEFAULT_VARIANT_TITLE = "Default Title";
+
+const AI_ANALYSIS_SCHEMA: LlmResponseSchema = {
+  name: "compliance_analysis",
+  schema: {
+    type: "object",
+    required: ["violations"],
+    properties: {
+      violations: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["issue", "policy", "law", "severity", "riskScore", "suggestion", "whyMatters", "ruleRef", "evidence"],
+          properties: {
+            issue: { type: "string", minLength: 1 },
+            policy: { type: "string" },
+            law: { type: "string" },
+            severity: { type: "string", enum: ["High", "Medium", "Low"] },
+            riskScore: { type: "number", minimum: 0, maximum: 1 },
+            suggestion: { type: "string" },
+            whyMatters: { type: "string" },
+            ruleRef: { type: "string" },
+            sourceUrl: { type: ["string", "null"] },
+            policyUrl: { type: ["string", "null"] },
+            evidence: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["field", "quote"],
+                properties: { field: { type: "string" }, quote: { type: "string" } },
+              },
+            },
+          },
+        },
+      },
+      rewrite: {
+        type: ["object", "null"],
+        properties: { title: { type: ["string", "null"] }, description: { type: ["string", "null"] } },
+      },
+    },
+  },
+};
+
+type AiAnalysisResponse = {
+  violations: Array<Record<string, any> & { evidence: Array<{ field: string; quote: string }> }>;
+  rewrite?: { title?: string | null; description?: string | null } | null;
+};
+
+const METAFIELDS_PAGE_SIZE = 25;
+const VARIANTS_PAGE_SIZE = 25;
+const MEDIA_PAGE_SIZE = 15;
+
+// Nested connections multiply a query's cost, so catalog pages stay small and the first page of metafields and
+// variants comes with the product; the rest is fetched per product only when there is more. Media follows the same
+// pattern so every product image reaches the image analysis stage.
+const PRODUCT_SCAN_FIELDS = `#graphql
+  fragment ProductScanFields on Product {
+    id
+    legacyResourceId
+    title
+    handle
+    descriptionHtml
+    onlineStoreUrl
+    tags
+    vendor
+    productType
+    seo { title description }
+    options { name }
+    featuredImage { url altText }
+    media(first: ${MEDIA_PAGE_SIZE}) {
+      nodes {
+        alt
+        ... on MediaImage { id image { url } }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+    collections(first: 20) { nodes { id } }
+    variants(first: ${VARIANTS_PAGE_SIZE}) {
+      nodes { id title }
+      pageInfo { hasNextPage endCursor }
+    }
+    metafields(first: ${METAFIELDS_PAGE_SIZE}) {
+      edges {
+        node {
+          namespace
+          key
+          value
+        }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
 
 const PRODUCTS_QUERY = `#graphql
+  ${PRODUCT_SCAN_FIELDS}
   query ScanProducts($first: Int!, $after: String) {
     products(first: $first, after: $after, sortKey: UPDATED_AT) {
       nodes {
-        id
-        legacyResourceId
-        title
-        handle
-        descriptionHtml
-        onlineStoreUrl
-        tags
-        featuredImage { url altText }
-        metafields(first: 10) {
-          edges {
-            node {
-              namespace
-              key
-              value
-            }
-          }
-        }
+        ...ProductScanFields
       }
       pageInfo {
         hasNextPage
@@ -33,17 +147,18 @@ const PRODUCTS_QUERY = `#graphql
 `;
 
 const PRODUCT_BY_ID_QUERY = `#graphql
+  ${PRODUCT_SCAN_FIELDS}
   query ProductForScan($id: ID!) {
     product(id: $id) {
-      id
-      legacyResourceId
-      title
-      handle
-      descriptionHtml
-      onlineStoreUrl
-      tags
-      featuredImage { url altText }
-      metafields(first: 10) {
+      ...ProductScanFields
+    }
+  }
+`;
+
+const PRODUCT_METAFIELDS_PAGE_QUERY = `#graphql
+  query ProductMetafieldsPage($id: ID!, $after: String) {
+    product(id: $id) {
+      metafields(first: 250, after: $after) {
         edges {
           node {
             namespace
@@ -51,6 +166,32 @@ const PRODUCT_BY_ID_QUERY = `#graphql
             value
           }
         }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+const PRODUCT_VARIANTS_PAGE_QUERY = `#graphql
+  query ProductVariantsPage($id: ID!, $after: String) {
+    product(id: $id) {
+      variants(first: 250, after: $after) {
+        nodes { id title }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+const PRODUCT_MEDIA_PAGE_QUERY = `#graphql
+  query ProductMediaPage($id: ID!, $after: String) {
+    product(id: $id) {
+      media(first: 250, after: $after) {
+        nodes {
+          alt
+          ... on MediaImage { id image { url } }
+        }
+        pageInfo { hasNextPage endCursor }
       }
     }
   }
@@ -58,6 +199,24 @@ const PRODUCT_BY_ID_QUERY = `#graphql
 
 export type SeverityLevel = "High" | "Medium" | "Low";
 
+/** `heuristic` runs offline on policy rules only, `ai` asks the model only, `hybrid` runs both. */
+export type ScanMode = "heuristic" | "ai" | "hybrid";
+
+export const SCAN_MODES: ScanMode[] = ["hybrid", "heuristic", "ai"];
+
+export type FindingSource = "heuristic" | "ai";
+
+export type ViolationEvidence = {
+  /**
+   * `title`, `description`, `seo:title`, `seo:description`, `variants`, `options`, `imageAlt`, `vendor`,
+   * `productType`, `tags`, `metafield:<namespace>.<key>` or `image` (offsets into the image's overlay text).
+   */
+  field: string;
+  start: number;
+  end: number;
+  snippet: string;
+};
+
 export type ComplianceViolation = {
   issue: string;
   policy: string;
@@ -68,6 +227,22 @@ export type ComplianceViolation = {
   whyMatters: string;
   ruleRef: string;
   sourceUrl?: string;
+  /** Field the violation was found in, named like `ViolationEvidence.field`. */
+  field?: string;
+  evidence?: ViolationEvidence[];
+  source?: FindingSource;
+  /** The product image an `image` violation was found in. */
+  image?: ViolationImage;
+};
+
+export type ViolationImage = {
+  mediaId: string;
+  url: string;
+  alt: string | null;
+  /** Text read from the image. */
+  overlayText: string;
+  /** Compliant alt text proposed for the image, if its current one should change. */
+  suggestedAlt: string | null;
 };
 
 export type ComplianceFinding = {
@@ -88,6 +263,14 @@ export type ComplianceFinding = {
     title?: string;
     description?: string;
   };
+  reusedFromScanId?: string;
+  mode?: ScanMode;
+  /** Storefront locale the title and description were read in, when the market is served by a Shopify Market. */
+  locale?: string;
+  /** ISO 639-1 language detected in the title and description; rules and AI output follow it. */
+  language?: string;
+  /** Text of evidence fields other than title and description, so spans can be highlighted later. */
+  fieldTexts?: Record<string, string>;
 };
 
 export type DashboardNotification = {
@@ -108,10 +291,11 @@ export type DashboardHydration = {
 
 export async function hydrateDashboard(shopDomain: string): Promise<DashboardHydration> {
   const [scans, schedules, history, aiStatus] = await Promise.all([
-    prisma.scan.findMany({ where: { shopDomain }, orderBy: { startedAt: "desc" }, take: 5 }),
+    // Multi-market parents hold no findings themselves; their per-market scans are listed instead.
+    prisma.scan.findMany({ where: { shopDomain, market: { not: MULTI_MARKET } }, orderBy: { startedAt: "desc" }, take: 5 }),
     fetchSchedules(shopDomain),
     fetchHistory(shopDomain),
-    testConnection(),
+    testConnection(shopDomain),
   ]);
 
   const serialized = scans.map((scan) => serializeScan(scan));
@@ -126,50 +310,195 @@ export async function hydrateDashboard(shopDomain: string): Promise<DashboardHyd
   };
 }
 
+export class ScanLeaseLostError extends Error {
+  constructor(message = "The scan job was taken over by another worker") {
+    super(message);
+    this.name = "ScanLeaseLostError";
+  }
+}
+
+export type ScanProgressHooks = {
+  onProductsLoaded?: (total: number) => Promise<void> | void;
+  onProductAnalyzed?: (progress: { done: number; total: number; productTitle: string }) => Promise<void> | void;
+  shouldCancel?: () => Promise<boolean> | boolean;
+};
+
 export async function runFullScan({
   admin,
   shopDomain,
   market,
+  scanId,
+  hooks,
+  concurrency = SCAN_CONCURRENCY,
+  forceFull = false,
+  mode = "hybrid",
+  lockedBy,
 }: {
   admin: any;
   shopDomain: string;
   market: string;
+  scanId?: string;
+  hooks?: ScanProgressHooks;
+  concurrency?: number;
+  forceFull?: boolean;
+  mode?: ScanMode;
+  /** Worker holding the job lease; results are only written while it still holds it. */
+  lockedBy?: string;
 }) {
-  const products = await fetchAllProducts(admin);
-  if (!products.length) {
-    throw new Error("No products found to scan.");
-  }
+  const scan = scanId
+    ? { id: scanId }
+    : await prisma.scan.create({ data: { shopDomain, market, mode, status: "running", fullRescan: forceFull } });
 
-  const rules = getPolicyRules(market);
-  const openAiClient = openai;
-  if (!openAiClient) {
-    throw new Error("OPENAI_API_KEY missing");
-  }
+  try {
+    const plan = await assertScanAllowed({ shopDomain, markets: [market], scanId: scan.id });
+    const { products, skipped } = await loadScanCatalog(admin, shopDomain, plan.definition.limits.productsPerScan);
+    const analysis = await resolveScanAnalysis(shopDomain, mode);
+    const state = await prepareMarketScan(shopDomain, market, analysis, forceFull);
+    await localizeMarketScans(admin, shopDomain, [state], products);
 
-  const findings: ComplianceFinding[] = [];
-  for (const product of products) {
-    const finding = await analyzeProduct({ product, rules, market, openAiClient, shopDomain });
-    findings.push(finding);
-  }
+    await hooks?.onProductsLoaded?.(products.length);
 
-  const { complianceScore, totalViolations } = buildAggregateMetrics(findings);
+    const outcome = await scanProducts({ products, states: [state], shopDomain, scanId: scan.id, analysis, hooks, concurrency });
+    const findings = compactFindings(state.findings);
+    const { complianceScore, totalViolations } = buildAggregateMetrics(findings);
 
-  const saved = await prisma.scan.create({
-    data: {
-      shopDomain,
-      market,
+    const saved = await finishScan(scan.id, lockedBy, {
       complianceScore,
       violations: totalViolations,
       productsScanned: findings.length,
-      status: "complete",
+      productsReused: state.reusedCount,
+      productsSkipped: skipped,
+      policyPackVersion: state.policyPackVersion,
+      mode: analysis.mode,
+      status: outcome.cancelled ? "cancelled" : "complete",
+      errorMessage: outcome.budgetStopped ? new AiBudgetExceededError().message : undefined,
       completedAt: new Date(),
       results: findings,
-    },
-  });
+    });
 
-  await persistScanArtifacts(saved.id, shopDomain, market, findings);
+    await persistScanArtifacts(saved.id, shopDomain, market, findings);
+    await saveFingerprints(shopDomain, market, saved.id, state.rulesVersion, state.changed);
+
+    return serializeScan(saved);
+  } catch (error) {
+    await prisma.scan.updateMany({
+      where: { id: scan.id, lockedBy },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        errorMessage: error instanceof Error ? error.message : "Scan failed",
+      },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Scans the catalog against several markets in one run. Products are fetched once and each is evaluated for every
+ * market in turn. Findings are stored on one child scan per market under the parent scan, so per-market views,
+ * rescans and fingerprints work exactly as they do for single-market scans.
+ */
+export async function runMultiMarketScan({
+  admin,
+  shopDomain,
+  markets,
+  scanId,
+  hooks,
+  concurrency = SCAN_CONCURRENCY,
+  forceFull = false,
+  mode = "hybrid",
+  lockedBy,
+}: {
+  admin: any;
+  shopDomain: string;
+  markets: string[];
+  scanId?: string;
+  hooks?: ScanProgressHooks;
+  concurrency?: number;
+  forceFull?: boolean;
+  mode?: ScanMode;
+  /** Worker holding the job lease; results are only written while it still holds it. */
+  lockedBy?: string;
+}) {
+  const scan = scanId
+    ? { id: scanId }
+    : await prisma.scan.create({
+        data: { shopDomain, market: MULTI_MARKET, markets, mode, status: "running", fullRescan: forceFull },
+      });
+
+  try {
+    if (!markets.length) {
+      throw new Error("Choose at least one market to scan.");
+    }
+    const plan = await assertScanAllowed({ shopDomain, markets, scanId: scan.id });
+    const { products, skipped } = await loadScanCatalog(admin, shopDomain, plan.definition.limits.productsPerScan);
+    const analysis = await resolveScanAnalysis(shopDomain, mode);
+    const states = await Promise.all(markets.map((market) => prepareMarketScan(shopDomain, market, analysis, forceFull)));
+    await localizeMarketScans(admin, shopDomain, states, products);
 
-  return serializeScan(saved);
+    await hooks?.onProductsLoaded?.(products.length * markets.length);
+
+    const outcome = await scanProducts({ products, states, shopDomain, scanId: scan.id, analysis, hooks, concurrency });
+    const status = outcome.cancelled ? "cancelled" : "complete";
+    const completedAt = new Date();
+
+    if (lockedBy && !(await prisma.scan.count({ where: { id: scan.id, lockedBy } }))) {
+      throw new ScanLeaseLostError();
+    }
+    // A job whose lease expired is run again from the start; drop market scans an earlier attempt left behind.
+    await prisma.scan.deleteMany({ where: { parentScanId: scan.id } });
+    const allFindings: ComplianceFinding[] = [];
+    for (const state of states) {
+      const findings = compactFindings(state.findings);
+      allFindings.push(...findings);
+      const { complianceScore, totalViolations } = buildAggregateMetrics(findings);
+      const marketScan = await prisma.scan.create({
+        data: {
+          shopDomain,
+          market: state.market,
+          parentScanId: scan.id,
+          mode: analysis.mode,
+          status,
+          fullRescan: forceFull,
+          complianceScore,
+          violations: totalViolations,
+          productsScanned: findings.length,
+          productsReused: state.reusedCount,
+          productsSkipped: skipped,
+          policyPackVersion: state.policyPackVersion,
+          completedAt,
+          results: findings,
+        },
+      });
+      await persistScanArtifacts(marketScan.id, shopDomain, state.market, findings);
+      await saveFingerprints(shopDomain, state.market, marketScan.id, state.rulesVersion, state.changed);
+    }
+
+    const { complianceScore, totalViolations } = buildAggregateMetrics(allFindings);
+    const saved = await finishScan(scan.id, lockedBy, {
+      complianceScore,
+      violations: totalViolations,
+      productsScanned: Math.max(0, ...states.map((state) => compactFindings(state.findings).length)),
+      productsReused: states.reduce((sum, state) => sum + state.reusedCount, 0),
+      productsSkipped: skipped,
+      mode: analysis.mode,
+      status,
+      errorMessage: outcome.budgetStopped ? new AiBudgetExceededError().message : undefined,
+      completedAt,
+    });
+
+    return serializeScan(saved);
+  } catch (error) {
+    await prisma.scan.updateMany({
+      where: { id: scan.id, lockedBy },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        errorMessage: error instanceof Error ? error.message : "Scan failed",
+      },
+    });
+    throw error;
+  }
 }
 
 export async function rescanSingleProduct({
@@ -177,28 +506,60 @@ export async function rescanSingleProduct({
   scanId,
   productId,
   shopDomain,
+  skipUnchanged = false,
 }: {
   admin: any;
   scanId: string;
   productId: string;
   shopDomain: string;
+  /** Leave the scan untouched when the product still matches its stored fingerprint, e.g. for webhook rescans. */
+  skipUnchanged?: boolean;
 }) {
   const scanRecord = await prisma.scan.findUnique({ where: { id: scanId } });
   if (!scanRecord || scanRecord.shopDomain !== shopDomain) {
     throw new Error("Scan not found");
   }
 
-  const product = await fetchProductById(admin, productId);
-  if (!product) {
+  const fetched = await fetchProductById(admin, shopDomain, productId);
+  if (!fetched) {
     throw new Error("Product not found");
   }
+  const [localized] = await loadMarketContent(admin, shopDomain, [scanRecord.market], [productId]);
+  const product = localizeProduct(fetched, localized?.localization ?? null, localized?.translations.get(productId));
+
+  // Keep the scan internally consistent by rescanning against the pack it was originally run with.
+  const policyPack = scanRecord.policyPackVersion
+    ? await loadPolicyPackVersion(scanRecord.market, scanRecord.policyPackVersion)
+    : await loadPolicyPack(scanRecord.market);
+  const shopPolicy = await loadShopPolicy(shopDomain, scanRecord.market);
+  const rules = mergePolicyRules(policyPack.rules, shopPolicy.rules);
+  const mode = toScanMode(scanRecord.mode);
+  const budget = mode === "heuristic" ? null : await loadAiBudgetTracker(shopDomain);
+  const budgetReached = Boolean(budget?.exceeded());
+  if (budgetReached && budget?.budget.action === "stop") {
+    throw new AiBudgetExceededError();
+  }
+  const analysisMode = budgetReached ? "heuristic" : mode;
+  const llm = await resolveScanLlm(shopDomain, analysisMode);
+  const rulesVersion = computeRulesVersion(rules, shopPolicy.allowList, mode, {
+    model: llm ? `${llm.id}/${llm.model}` : null,
+    imageAnalysis: resolveImageAnalyzer(llm)?.id ?? null,
+  });
+  const fingerprint = computeProductFingerprint(product, scanRecord.market, rulesVersion);
+  if (skipUnchanged && (await loadFingerprint(shopDomain, scanRecord.market, productId)) === fingerprint) {
+    return serializeScan(scanRecord);
+  }
 
-  const rules = getPolicyRules(scanRecord.market);
   const finding = await analyzeProduct({
     product,
     rules,
+    allowedTerms: allowedTermsFor(shopPolicy.allowList, product),
     market: scanRecord.market,
-    openAiClient: openai,
+    mode: analysisMode,
+    llm: llm && trackLlmUsage(llm, { shopDomain, scanId, productId, operation: "scan_analysis" }, budget),
+    imageAnalyzer: resolveImageAnalyzer(
+      llm && trackLlmUsage(llm, { shopDomain, scanId, productId, operation: "image_analysis" }, budget),
+    ),
     shopDomain,
   });
 
@@ -219,10 +580,64 @@ export async function rescanSingleProduct({
 
   await prisma.scanResult.deleteMany({ where: { scanId, productId } });
   await persistScanArtifacts(scanId, shopDomain, scanRecord.market, [finding]);
+  if (!budgetReached) {
+    await saveFingerprints(shopDomain, scanRecord.market, scanId, rulesVersion, [{ fingerprint, finding }]);
+  }
 
   return serializeScan(updatedScan);
 }
 
+export async function findLatestCompleteScans(shopDomain: string) {
+  return prisma.scan.findMany({
+    where: { shopDomain, status: "complete", market: { not: MULTI_MARKET } },
+    orderBy: { startedAt: "desc" },
+    distinct: ["market"],
+    select: { id: true, market: true },
+  });
+}
+
+export async function removeProductFromScans({ shopDomain, productId }: { shopDomain: string; productId: string }) {
+  const latestScans = await findLatestCompleteScans(shopDomain);
+
+  for (const { id } of latestScans) {
+    const scanRecord = await prisma.scan.findUnique({ where: { id } });
+    const existing = (scanRecord?.results as ComplianceFinding[] | null) ?? [];
+    const updatedResults = existing.filter((result) => result.productId !== productId);
+    if (updatedResults.length === existing.length) continue;
+
+    const aggregate = buildAggregateMetrics(updatedResults);
+    await prisma.scan.update({
+      where: { id },
+      data: {
+        results: updatedResults,
+        complianceScore: aggregate.complianceScore,
+        violations: aggregate.totalViolations,
+        productsScanned: updatedResults.length,
+      },
+    });
+    await prisma.scanResult.deleteMany({ where: { scanId: id, productId } });
+  }
+
+  await prisma.productFingerprint.deleteMany({ where: { shopDomain, productId } });
+  await prisma.scanSchedule.deleteMany({ where: { shopDomain, productId } });
+}
+
+export function isScanMode(value: unknown): value is ScanMode {
+  return typeof value === "string" && SCAN_MODES.includes(value as ScanMode);
+}
+
+/** Scans created before modes existed ran both analyses. */
+export function toScanMode(value: unknown): ScanMode {
+  return isScanMode(value) ? value : "hybrid";
+}
+
+export type ScheduleFrequency = "daily" | "weekly" | "monthly";
+
+export function computeNextRun(frequency: ScheduleFrequency | string, from = new Date()) {
+  const delta = frequency === "daily" ? 1 : frequency === "weekly" ? 7 : 30;
+  return new Date(from.getTime() + delta * 24 * 60 * 60 * 1000);
+}
+
 export async function saveScanSchedule({
   shopDomain,
   productId,
@@ -232,11 +647,11 @@ export async function saveScanSchedule({
   shopDomain: string;
   productId: string;
   market: string;
-  frequency: "daily" | "weekly" | "monthly";
+  frequency: ScheduleFrequency;
 }) {
+  await assertPlanFeature(shopDomain, "scheduledScans");
   const now = new Date();
-  const delta = frequency === "daily" ? 1 : frequency === "weekly" ? 7 : 30;
-  const nextRun = new Date(now.getTime() + delta * 24 * 60 * 60 * 1000);
+  const nextRun = computeNextRun(frequency, now);
 
   return prisma.scanSchedule.upsert({
     where: {
@@ -250,6 +665,8 @@ export async function saveScanSchedule({
       frequency,
       nextRun,
       lastRun: now,
+      failureCount: 0,
+      lastError: null,
     },
     create: {
       shopDomain,
@@ -294,6 +711,15 @@ export function serializeScan(scan: any) {
 
 export type SerializedScan = ReturnType<typeof serializeScan>;
 
+/** Writes the outcome of a run, unless `lockedBy` has lost the job lease and another worker is running it again. */
+async function finishScan(scanId: string, lockedBy: string | undefined, data: Record<string, unknown>) {
+  const { count } = await prisma.scan.updateMany({ where: { id: scanId, lockedBy }, data });
+  if (!count) {
+    throw new ScanLeaseLostError();
+  }
+  return prisma.scan.findUniqueOrThrow({ where: { id: scanId } });
+}
+
 async function persistScanArtifacts(
   scanId: string,
   shopDomain: string,
@@ -318,6 +744,8 @@ async function persistScanArtifacts(
           aiGuidance: violation.suggestion,
           whyMatters: violation.whyMatters,
           sourceUrl: violation.sourceUrl,
+          source: violation.source,
+          field: violation.field,
         })),
       ),
     }),
@@ -367,17 +795,24 @@ function isMissingColumnError(error: any) {
   return message?.includes("does not exist") || message?.includes("unknown column");
 }
 
-async function fetchAllProducts(admin: any, batchSize = 50) {
+async function fetchAllProducts(admin: any, shopDomain: string, batchSize = 10) {
   const products: any[] = [];
   let after: string | null = null;
   let hasNextPage = true;
+  let estimatedCost = batchSize * 90;
 
   while (hasNextPage) {
-    const response = await admin.graphql(PRODUCTS_QUERY, { variables: { first: batchSize, after } });
-    const body = await response.json();
+    const { body, requestedQueryCost } = await throttledGraphql(
+      admin,
+      shopDomain,
+      PRODUCTS_QUERY,
+      { first: batchSize, after },
+      estimatedCost,
+    );
+    estimatedCost = requestedQueryCost;
     const nodes = body?.data?.products?.nodes ?? [];
     products.push(...nodes);
-    const pageInfo = body?.data?.products?.pageInfo;
+    const pageInfo: { hasNextPage?: boolean; endCursor?: string | null } | undefined = body?.data?.products?.pageInfo;
     hasNextPage = Boolean(pageInfo?.hasNextPage);
     after = pageInfo?.endCursor ?? null;
   }
@@ -385,44 +820,324 @@ async function fetchAllProducts(admin: any, batchSize = 50) {
   return products;
 }
 
-async function fetchProductById(admin: any, productId: string) {
-  const response = await admin.graphql(PRODUCT_BY_ID_QUERY, { variables: { id: productId } });
-  const body = await response.json();
-  return body?.data?.product ?? null;
+async function fetchProductById(admin: any, shopDomain: string, productId: string) {
+  const { body } = await throttledGraphql(admin, shopDomain, PRODUCT_BY_ID_QUERY, { id: productId }, 90);
+  const product = body?.data?.product ?? null;
+  return product && completeProductConnections(admin, shopDomain, product);
+}
+
+/** Fetches the metafields, variants and media beyond the first page that came with the product. */
+async function completeProductConnections(admin: any, shopDomain: string, product: any) {
+  let metafields = product.metafields;
+  while (metafields?.pageInfo?.hasNextPage) {
+    const { body } = await throttledGraphql(
+      admin,
+      shopDomain,
+      PRODUCT_METAFIELDS_PAGE_QUERY,
+      { id: product.id, after: metafields.pageInfo.endCursor },
+      260,
+    );
+    const page = body?.data?.product?.metafields;
+    if (!page) break;
+    metafields = { edges: [...metafields.edges, ...(page.edges ?? [])], pageInfo: page.pageInfo };
+  }
+
+  let variants = product.variants;
+  while (variants?.pageInfo?.hasNextPage) {
+    const { body } = await throttledGraphql(
+      admin,
+      shopDomain,
+      PRODUCT_VARIANTS_PAGE_QUERY,
+      { id: product.id, after: variants.pageInfo.endCursor },
+      260,
+    );
+    const page = body?.data?.product?.variants;
+    if (!page) break;
+    variants = { nodes: [...variants.nodes, ...(page.nodes ?? [])], pageInfo: page.pageInfo };
+  }
+
+  let media = product.media;
+  while (media?.pageInfo?.hasNextPage) {
+    const { body } = await throttledGraphql(
+      admin,
+      shopDomain,
+      PRODUCT_MEDIA_PAGE_QUERY,
+      { id: product.id, after: media.pageInfo.endCursor },
+      260,
+    );
+    const page = body?.data?.product?.media;
+    if (!page) break;
+    media = { nodes: [...media.nodes, ...(page.nodes ?? [])], pageInfo: page.pageInfo };
+  }
+
+  return { ...product, metafields, variants, media };
+}
+
+type MarketScanState = {
+  market: string;
+  policyPackVersion: string;
+  rules: PolicyRule[];
+  allowList: ShopPolicy["allowList"];
+  rulesVersion: string;
+  previous: Map<string, StoredFingerprint>;
+  /** Null when no Shopify Market serves this market; products are then read in the primary language. */
+  localization: MarketLocalization | null;
+  translations: Map<string, ProductTranslation>;
+  changed: Array<{ fingerprint: string; finding: ComplianceFinding }>;
+  /** Indexed like the product list; products skipped by cancellation stay empty. */
+  findings: Array<ComplianceFinding | undefined>;
+  reusedCount: number;
+};
+
+type ScanAnalysis = {
+  mode: ScanMode;
+  llm: LlmProvider | null;
+  budget: AiBudgetTracker | null;
+  /** Which analyzer checks product images, or null when images are not analyzed. */
+  imageAnalysis: ImageAnalyzer["id"] | null;
+};
+
+async function loadScanCatalog(admin: any, shopDomain: string, productLimit: number | null) {
+  const allProducts = await fetchAllProducts(admin, shopDomain);
+  if (!allProducts.length) {
+    throw new Error("No products found to scan.");
+  }
+  const limited = productLimit === null ? allProducts : allProducts.slice(0, productLimit);
+  const products = await mapWithConcurrency(limited, SCAN_CONCURRENCY, (product) =>
+    completeProductConnections(admin, shopDomain, product),
+  );
+  return { products, skipped: allProducts.length - products.length };
+}
+
+// A budget already used up either stops the scan or downgrades it to heuristic analysis before it starts.
+async function resolveScanAnalysis(shopDomain: string, requestedMode: ScanMode): Promise<ScanAnalysis> {
+  let mode = requestedMode;
+  const budget = mode === "heuristic" ? null : await loadAiBudgetTracker(shopDomain);
+  if (budget?.exceeded()) {
+    if (budget.budget.action === "stop") throw new AiBudgetExceededError();
+    mode = "heuristic";
+  }
+  const llm = await resolveScanLlm(shopDomain, mode);
+  return { mode, budget, llm, imageAnalysis: resolveImageAnalyzer(llm)?.id ?? null };
+}
+
+async function prepareMarketScan(
+  shopDomain: string,
+  market: string,
+  analysis: ScanAnalysis,
+  forceFull: boolean,
+): Promise<MarketScanState> {
+  const [policyPack, shopPolicy] = await Promise.all([loadPolicyPack(market), loadShopPolicy(shopDomain, market)]);
+  const rules = mergePolicyRules(policyPack.rules, shopPolicy.rules);
+  return {
+    market,
+    policyPackVersion: policyPack.version,
+    rules,
+    allowList: shopPolicy.allowList,
+    rulesVersion: computeRulesVersion(rules, shopPolicy.allowList, analysis.mode, {
+      model: analysis.llm ? `${analysis.llm.id}/${analysis.llm.model}` : null,
+      imageAnalysis: analysis.imageAnalysis,
+    }),
+    previous: forceFull ? new Map<string, StoredFingerprint>() : await loadFingerprints(shopDomain, market),
+    localization: null,
+    translations: new Map(),
+    changed: [],
+    findings: [],
+    reusedCount: 0,
+  };
+}
+
+async function localizeMarketScans(admin: any, shopDomain: string, states: MarketScanState[], products: any[]) {
+  const content = await loadMarketContent(
+    admin,
+    shopDomain,
+    states.map((state) => state.market),
+    products.map((product) => product.id),
+  );
+  content.forEach(({ localization, translations }, index) => {
+    states[index].localization = localization;
+    states[index].translations = translations;
+  });
+}
+
+// Scans fall back to the primary-language copy when Shopify Markets or translations cannot be read, e.g. before
+// the merchant has approved the translations scope.
+async function loadMarketContent(admin: any, shopDomain: string, markets: string[], productIds: string[]) {
+  const empty = markets.map(() => ({ localization: null as MarketLocalization | null, translations: new Map<string, ProductTranslation>() }));
+  let catalog: ShopifyMarketCatalog;
+  try {
+    catalog = await loadShopifyMarkets(admin, shopDomain);
+  } catch (error) {
+    console.warn(`[scan] Shopify Markets unavailable for ${shopDomain}; scanning primary-language content`, error);
+    return empty;
+  }
+
+  return Promise.all(
+    markets.map(async (market, index) => {
+      const localization = resolveMarketLocalization(catalog, market);
+      if (!localization) return empty[index];
+      try {
+        return { localization, translations: await loadProductTranslations(admin, shopDomain, productIds, localization) };
+      } catch (error) {
+        console.warn(`[scan] Translations unavailable for ${market} (${localization.locale}); scanning primary-language content`, error);
+        return empty[index];
+      }
+    }),
+  );
+}
+
+/**
+ * Evaluates every product against every market state, reusing stored findings whose fingerprint is unchanged.
+ * Progress is reported per product and market.
+ */
+async function scanProducts({
+  products,
+  states,
+  shopDomain,
+  scanId,
+  analysis,
+  hooks,
+  concurrency,
+}: {
+  products: any[];
+  states: MarketScanState[];
+  shopDomain: string;
+  scanId: string;
+  analysis: ScanAnalysis;
+  hooks?: ScanProgressHooks;
+  concurrency: number;
+}) {
+  const { llm, budget, mode } = analysis;
+  const total = products.length * states.length;
+  let analyzedCount = 0;
+  let cancelled = false;
+  let budgetStopped = false;
+
+  await mapWithConcurrency(products, concurrency, async (product, index) => {
+    for (const state of states) {
+      if (cancelled || (await hooks?.shouldCancel?.())) {
+        cancelled = true;
+        return;
+      }
+      // Once the budget runs out mid-scan, either stop or finish the remaining products without AI.
+      const budgetReached = Boolean(llm && budget?.exceeded());
+      if (budgetReached && budget?.budget.action === "stop") {
+        cancelled = true;
+        budgetStopped = true;
+        return;
+      }
+      const localized = localizeProduct(product, state.localization, state.translations.get(product.id));
+      const fingerprint = computeProductFingerprint(localized, state.market, state.rulesVersion);
+      const stored = state.previous.get(product.id);
+      let finding: ComplianceFinding;
+      if (stored?.finding && stored.fingerprint === fingerprint) {
+        finding = {
+          ...stored.finding,
+          reusedFromScanId: stored.finding.reusedFromScanId ?? stored.scanId ?? undefined,
+        };
+        state.reusedCount += 1;
+      } else {
+        finding = await analyzeProduct({
+          product: localized,
+          rules: state.rules,
+          allowedTerms: allowedTermsFor(state.allowList, product),
+          market: state.market,
+          mode: budgetReached ? "heuristic" : mode,
+          llm: llm && trackLlmUsage(llm, { shopDomain, scanId, productId: product.id, operation: "scan_analysis" }, budget),
+          imageAnalyzer: resolveImageAnalyzer(
+            llm && !budgetReached
+              ? trackLlmUsage(llm, { shopDomain, scanId, productId: product.id, operation: "image_analysis" }, budget)
+              : null,
+          ),
+          shopDomain,
+        });
+        // Downgraded findings do not match this scan's fingerprint, so they are re-analyzed next time.
+        if (!budgetReached) {
+          state.changed.push({ fingerprint, finding });
+        }
+      }
+      state.findings[index] = finding;
+      analyzedCount += 1;
+      await hooks?.onProductAnalyzed?.({
+        done: analyzedCount,
+        total,
+        productTitle: states.length > 1 ? `${finding.productTitle} (${state.market.toUpperCase()})` : finding.productTitle,
+      });
+    }
+  });
+
+  return { cancelled, budgetStopped };
+}
+
+function compactFindings(findings: Array<ComplianceFinding | undefined>) {
+  return findings.filter((finding): finding is ComplianceFinding => Boolean(finding));
+}
+
+async function resolveScanLlm(shopDomain: string, mode: ScanMode) {
+  if (mode === "heuristic") return null;
+  const llm = await getLlmProvider(shopDomain);
+  if (!llm) {
+    throw new Error("No AI provider is configured. Run a heuristic scan instead.");
+  }
+  return llm;
 }
 
 async function analyzeProduct({
   product,
   rules,
+  allowedTerms = [],
   market,
-  openAiClient,
+  mode = "hybrid",
+  llm,
+  imageAnalyzer = null,
   shopDomain,
 }: {
   product: any;
   rules: PolicyRule[];
+  allowedTerms?: string[];
   market: string;
-  openAiClient: any;
+  mode?: ScanMode;
+  llm: LlmProvider | null;
+  imageAnalyzer?: ImageAnalyzer | null;
   shopDomain: string;
 }): Promise<ComplianceFinding> {
   const plainDescription = stripHtml(product.descriptionHtml ?? "");
-  const metafieldsText = (product.metafields?.edges ?? [])
-    .map((edge: any) => `${edge.node.namespace} ${edge.node.key} ${edge.node.value}`)
-    .join(" ");
-  const combined = `${product.title}\n${plainDescription}\n${product.tags?.join(" ") ?? ""}\n${metafieldsText}`.toLowerCase();
+  const fields = buildProductFields(product, plainDescription);
+
+  // The storefront locale is only a hint: untranslated products are shown in the primary language.
+  const language =
+    detectLanguage(`${product.title ?? ""}\n${plainDescription}`)?.language ??
+    (product.locale ? languageOfLocale(product.locale) : undefined);
 
-  const matches = detectPolicyMatches(combined, rules);
-  const heuristicViolations = buildHeuristicViolations(matches, market, product.title);
+  const heuristicViolations =
+    mode === "ai"
+      ? []
+      : buildHeuristicViolations(matchPolicyRules(fields, rules, { allowedTerms, language }), market, product.title);
 
   const aiAnalysis = await buildAiAnalysis({
-    openAiClient,
+    llm: mode === "heuristic" ? null : llm,
     market,
     productTitle: product.title,
     description: plainDescription,
     url: product.onlineStoreUrl,
     policyHints: heuristicViolations.map((violation) => `${violation.policy}: ${violation.issue}`),
+    allowedTerms,
+    fields,
+    language,
+  });
+
+  const imageViolations = await buildImageViolations({
+    analyzer: imageAnalyzer,
+    images: collectProductImages(product),
+    rules,
+    allowedTerms,
+    market,
+    mode,
+    productTitle: product.title,
+    language,
   });
 
-  const combinedViolations = dedupeViolations([...heuristicViolations, ...aiAnalysis.violations]);
+  const combinedViolations = dedupeViolations([...heuristicViolations, ...aiAnalysis.violations, ...imageViolations]);
   const complianceScore = calculateComplianceScore(combinedViolations);
   const status: "flagged" | "clean" | "error" = aiAnalysis.errorMessage
     ? "error"
@@ -445,74 +1160,236 @@ async function analyzeProduct({
     status,
     errorMessage: aiAnalysis.errorMessage,
     aiRewrite: aiAnalysis.rewrite,
+    mode,
+    locale: product.locale,
+    language,
+    fieldTexts: collectEvidenceFieldTexts(fields, combinedViolations),
   };
 }
 
-function detectPolicyMatches(text: string, rules: PolicyRule[]) {
-  return rules
-    .map((rule) => {
-      const matchingWords = rule.keywords.filter((keyword) => text.includes(keyword.toLowerCase()));
-      return matchingWords.length ? { rule, matchingWords } : null;
-    })
-    .filter(Boolean) as { rule: PolicyRule; matchingWords: string[] }[];
+// Field names are stored on evidence and violations; `formatEvidenceField` in utils/highlight.ts labels them.
+function buildProductFields(product: any, plainDescription: string): MatchableField[] {
+  const variantTitles = (product.variants?.nodes ?? [])
+    .map((variant: any) => variant?.title)
+    .filter((title: unknown) => typeof title === "string" && title && title !== DEFAULT_VARIANT_TITLE);
+  const optionNames = (product.options ?? [])
+    .map((option: any) => option?.name)
+    .filter((name: unknown) => typeof name === "string" && name && name !== DEFAULT_VARIANT_TITLE);
+  const imageAlts = [product.featuredImage?.altText, ...(product.media?.nodes ?? []).map((media: any) => media?.alt)].filter(
+    (alt, index, list): alt is string => typeof alt === "string" && Boolean(alt.trim()) && list.indexOf(alt) === index,
+  );
+
+  return [
+    { field: "title", text: product.title ?? "" },
+    { field: "description", text: plainDescription },
+    { field: "seo:title", text: product.seo?.title ?? "" },
+    { field: "seo:description", text: product.seo?.description ?? "" },
+    { field: "variants", text: variantTitles.join("\n") },
+    { field: "options", text: optionNames.join("\n") },
+    { field: "imageAlt", text: imageAlts.join("\n") },
+    { field: "vendor", text: product.vendor ?? "" },
+    { field: "productType", text: product.productType ?? "" },
+    { field: "tags", text: (product.tags ?? []).join("\n") },
+    ...(product.metafields?.edges ?? []).map((edge: any) => ({
+      field: `metafield:${edge.node.namespace}.${edge.node.key}`,
+      text: String(edge.node.value ?? ""),
+    })),
+  ];
+}
+
+function collectProductImages(product: any): ProductImage[] {
+  const seen = new Set<string>();
+  return (product.media?.nodes ?? []).flatMap((media: any) => {
+    const url = media?.image?.url;
+    if (!media?.id || typeof url !== "string" || seen.has(url)) return [];
+    seen.add(url);
+    return [{ id: media.id, url, alt: media.alt ?? null }];
+  });
+}
+
+/**
+ * Checks each product image with `analyzer` and turns what it finds into `image` violations: the analyzer's own
+ * findings, plus policy rules matched against the text printed on the image. An image that cannot be analyzed is
+ * logged and skipped so the rest of the product's findings still count.
+ */
+async function buildImageViolations({
+  analyzer,
+  images,
+  rules,
+  allowedTerms,
+  market,
+  mode,
+  productTitle,
+  language,
+}: {
+  analyzer: ImageAnalyzer | null;
+  images: ProductImage[];
+  rules: PolicyRule[];
+  allowedTerms: string[];
+  market: string;
+  mode: ScanMode;
+  productTitle: string;
+  language?: string;
+}): Promise<ComplianceViolation[]> {
+  if (!analyzer || !images.length) return [];
+  const lawReference = getMarketLawReference(market);
+  const violations: ComplianceViolation[] = [];
+
+  for (const image of images) {
+    let analysis: ImageAnalysis;
+    try {
+      analysis = await analyzer.analyze(image, { market, productTitle, language });
+    } catch (error) {
+      console.warn(`[scan] Image analysis failed for ${productTitle} (${image.id})`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    const violationImage: ViolationImage = {
+      mediaId: image.id,
+      url: image.url,
+      alt: image.alt,
+      overlayText: analysis.overlayText,
+      suggestedAlt: analysis.suggestedAlt,
+    };
+    const overlayMatches =
+      mode === "ai" || !analysis.overlayText
+        ? []
+        : matchPolicyRules([{ field: "image", text: analysis.overlayText }], rules, { allowedTerms, language });
+
+    violations.push(
+      ...buildHeuristicViolations(overlayMatches, market, productTitle).map((violation) => ({
+        ...violation,
+        image: violationImage,
+      })),
+      ...analysis.findings.map((finding): ComplianceViolation => {
+        const start = finding.quote ? analysis.overlayText.toLowerCase().indexOf(finding.quote.toLowerCase()) : -1;
+        return {
+          issue: finding.issue,
+          policy: `Google Ads – ${IMAGE_FINDING_LABELS[finding.category] ?? IMAGE_FINDING_LABELS.other}`,
+          law: lawReference.law,
+          severity: normalizeSeverity(finding.severity),
+          riskScore: clampRiskScore(finding.riskScore),
+          suggestion: finding.suggestion,
+          whyMatters: `Google Ads reviews product images as well as text, and ${lawReference.law} covers claims made in them.`,
+          ruleRef: `image:${finding.category}`,
+          sourceUrl: lawReference.url,
+          source: "ai",
+          field: "image",
+          // Like text evidence, a quote that cannot be found in the overlay text has no span to highlight and is dropped.
+          evidence:
+            finding.quote && start >= 0
+              ? [
+                  {
+                    field: "image",
+                    start,
+                    end: start + finding.quote.length,
+                    snippet: analysis.overlayText.slice(start, start + finding.quote.length),
+                  },
+                ]
+              : [],
+          image: violationImage,
+        };
+      }),
+    );
+  }
+
+  return violations;
+}
+
+function collectEvidenceFieldTexts(fields: MatchableField[], violations: ComplianceViolation[]) {
+  const referenced = new Set(
+    violations.flatMap((violation) => (violation.evidence ?? []).map((evidence) => evidence.field)),
+  );
+  referenced.delete("title");
+  referenced.delete("description");
+  if (!referenced.size) return undefined;
+
+  return Object.fromEntries(
+    fields.filter((field) => referenced.has(field.field)).map((field) => [field.field, field.text]),
+  );
 }
 
 function buildHeuristicViolations(
-  matches: { rule: PolicyRule; matchingWords: string[] }[],
+  matches: PolicyRuleMatch[],
   market: string,
   productTitle: string,
 ): ComplianceViolation[] {
   if (!matches.length) return [];
   const lawReference = getMarketLawReference(market);
 
-  return matches.map(({ rule, matchingWords }) => {
+  // One violation per rule and field, so each points at the single field a fix has to change.
+  return matches.flatMap(({ rule, matchingWords, matches: termMatches }) => {
     const severity = toSeverityLabel(rule.severity);
-    return {
-      issue: `${rule.description}. Flagged terms: ${matchingWords.join(", ")}.`,
-      policy: `Google Ads – ${rule.category}`,
-      law: lawReference.law,
-      severity,
-      riskScore: severityToRiskScore(severity),
-      suggestion: `Rephrase references to ${matchingWords[0] ?? productTitle} to align with ${lawReference.law}.`,
-      whyMatters: `This violates ${rule.category} guidance in ${lawReference.law}.`,
-      ruleRef: rule.category,
-      sourceUrl: lawReference.url,
-    };
+    const fields = Array.from(new Set(termMatches.map((match) => match.field)));
+    return fields.map((field) => {
+      const fieldMatches = termMatches.filter((match) => match.field === field);
+      const words = matchingWords.filter((word) =>
+        fieldMatches.some((match) => match.term === word || match.text.toLowerCase() === word),
+      );
+      return {
+        issue: `${rule.description}. Flagged terms: ${words.join(", ")}.`,
+        policy: `Google Ads – ${rule.category}`,
+        law: lawReference.law,
+        severity,
+        riskScore: severityToRiskScore(severity),
+        suggestion: `Rephrase references to ${words[0] ?? productTitle} to align with ${lawReference.law}.`,
+        whyMatters: `This violates ${rule.category} guidance in ${lawReference.law}.`,
+        ruleRef: rule.category,
+        sourceUrl: lawReference.url,
+        source: "heuristic" as const,
+        field,
+        evidence: fieldMatches.map((match) => ({
+          field: match.field,
+          start: match.start,
+          end: match.end,
+          snippet: match.text,
+        })),
+      };
+    });
   });
 }
 
 async function buildAiAnalysis({
-  openAiClient,
+  llm,
   market,
   productTitle,
   description,
   url,
   policyHints,
+  allowedTerms = [],
+  fields = [],
+  language,
 }: {
-  openAiClient: any;
+  llm: LlmProvider | null;
   market: string;
   productTitle: string;
   description: string;
   url?: string | null;
   policyHints: string[];
+  allowedTerms?: string[];
+  fields?: MatchableField[];
+  language?: string;
 }): Promise<{
   violations: ComplianceViolation[];
   rewrite?: { title?: string; description?: string };
   errorMessage?: string;
 }> {
-  if (!openAiClient) return { violations: [] };
+  if (!llm) return { violations: [] };
 
   const lawReference = getMarketLawReference(market);
   const truncatedDescription = description.slice(0, 3500);
+  const otherFields = fields
+    .filter((field) => field.field !== "title" && field.field !== "description" && field.text.trim())
+    .map((field) => `[${field.field}] ${field.text.replace(/\s+/g, " ").slice(0, 400)}`)
+    .join("\n")
+    .slice(0, 3000);
   const hints = policyHints.slice(0, 6).join("\n");
-  let lastError: unknown;
 
-  for (let attempt = 0; attempt < 3; attempt += 1) {
-    try {
-      const completion = await openAiClient.chat.completions.create({
-        model: "gpt-4o-mini",
+  try {
+    const { value: parsed } = await completeStructured<AiAnalysisResponse>(
+      llm,
+      {
         temperature: 0.1,
-        response_format: { type: "json_object" },
         messages: [
           {
             role: "system",
@@ -523,46 +1400,76 @@ async function buildAiAnalysis({
             role: "user",
             content: `Market: ${market.toUpperCase()}
 Local law focus: ${lawReference.law}
+Product language: ${language ? `${languageName(language)} (${language})` : "Unknown"}
 Product title: ${productTitle}
 Product description: ${truncatedDescription}
+Other fields:
+${otherFields || "None"}
 Product URL: ${url ?? "N/A"}
 Known heuristic flags: ${hints || "None"}
-Return JSON {"violations":[{"issue":"","policy":"","law":"","severity":"High|Medium|Low","riskScore":0-1,"suggestion":"","whyMatters":"","ruleRef":"","sourceUrl":"","policyUrl":""}],"rewrite":{"title":"","description":""}}.`,
+Merchant-approved terms (do not flag): ${allowedTerms.join(", ") || "None"}
+For every violation, quote the exact offending text in "evidence" and name the field it came from, using the bracketed field names for other fields.
+Write "suggestion" and the rewrite in the product's language so fixes stay in that language; write "issue" and "whyMatters" in English.
+Return JSON {"violations":[{"issue":"","policy":"","law":"","severity":"High|Medium|Low","riskScore":0-1,"suggestion":"","whyMatters":"","ruleRef":"","sourceUrl":"","policyUrl":"","evidence":[{"field":"title|description|<other field>","quote":""}]}],"rewrite":{"title":"","description":""}}.`,
           },
         ],
-      });
-
-      const content = completion.choices?.[0]?.message?.content;
-      if (!content) return { violations: [] };
-      const parsed = JSON.parse(content);
-      const violations = Array.isArray(parsed.violations)
-        ? parsed.violations
-            .map((violation: any) => normalizeViolation(violation, market))
-            .filter((violation): violation is ComplianceViolation => Boolean(violation.issue))
-        : [];
+      },
+      AI_ANALYSIS_SCHEMA,
+    );
 
+    const violations = parsed.violations.map((violation): ComplianceViolation => {
+      const evidence = locateAiEvidence(violation.evidence, fields);
       return {
-        violations,
-        rewrite: parsed.rewrite,
+        ...normalizeViolation(violation, market),
+        field: evidence[0]?.field ?? knownField(violation.evidence?.[0]?.field, fields),
+        evidence,
+        source: "ai",
       };
-    } catch (error) {
-      lastError = error;
-      if (attempt < 2) {
-        const backoff = 500 * 2 ** attempt;
-        await new Promise((resolve) => setTimeout(resolve, backoff));
-        continue;
-      }
+    });
+
+    return {
+      violations,
+      rewrite: parsed.rewrite
+        ? { title: parsed.rewrite.title ?? undefined, description: parsed.rewrite.description ?? undefined }
+        : undefined,
+    };
+  } catch (error) {
+    if (error instanceof LlmResponseInvalidError) {
+      console.error(`AI response invalid for ${productTitle}`, error.issues);
+      return { violations: [], errorMessage: error.message };
     }
+    console.error("AI violation generation failed", error);
+    return { violations: [], errorMessage: "AI scan failed. Please retry." };
   }
+}
 
-  console.error("OpenAI violation generation failed", lastError);
-  return { violations: [], errorMessage: "AI scan failed. Please retry." };
+// The model only returns quotes; offsets are recovered by finding each quote in the scanned fields.
+function locateAiEvidence(raw: unknown, fields: MatchableField[]): ViolationEvidence[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item: any) => {
+    const quote = typeof item?.quote === "string" ? item.quote.trim() : "";
+    if (!quote) return [];
+    const needle = quote.toLowerCase();
+    const preferred = fields.filter((field) => field.field === item.field);
+    for (const field of [...preferred, ...fields]) {
+      const start = field.text.toLowerCase().indexOf(needle);
+      if (start >= 0) {
+        return [{ field: field.field, start, end: start + quote.length, snippet: field.text.slice(start, start + quote.length) }];
+      }
+    }
+    return [];
+  });
+}
+
+function knownField(field: unknown, fields: MatchableField[]) {
+  return typeof field === "string" && fields.some((candidate) => candidate.field === field) ? field : undefined;
 }
 
 function dedupeViolations(violations: ComplianceViolation[]) {
   const seen = new Set<string>();
   return violations.filter((violation) => {
-    const key = `${violation.issue}|${violation.policy}|${violation.law}`;
+    const key = `${violation.issue}|${violation.policy}|${violation.law}|${violation.field ?? ""}|${violation.image?.mediaId ?? ""}`;
     if (seen.has(key)) return false;
     seen.add(key);
     return true;
@@ -691,6 +1598,10 @@ const MARKET_LAW_REFERENCES: Record<string, { law: string; url?: string }> = {
     law: "EU Consumer Protection Regulation & Google Merchant Center EU policies",
     url: "https://europa.eu/youreurope/business/product-requirements/index_en.htm",
   },
+  de: {
+    law: "German Heilmittelwerbegesetz (HWG) & UWG unfair competition rules",
+    url: "https://www.gesetze-im-internet.de/heilmwerbg/",
+  },
   au: {
     law: "Australia ACCC advertising rules & TGA code",
     url: "https://www.tga.gov.au/resources/resource/guidance/advertising-code",
@@ -0,0 +1,268 @@
+import prisma from "../db.server";
+import { MULTI_MARKET } from "../data/markets";
+import { unauthenticated } from "../shopify.server";
+import { WORKER_INSTANCE_ID } from "../utils/worker.server";
+import { assertScanAllowed } from "./billing.server";
+import { runFullScan, runMultiMarketScan, serializeScan, toScanMode, type ScanMode, type SerializedScan } from "./scan.server";
+
+const WORKER_CONCURRENCY = Number(process.env.SCAN_WORKER_CONCURRENCY ?? 2);
+const JOB_LEASE_MS = Number(process.env.SCAN_JOB_LEASE_MS ?? 5 * 60 * 1000);
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __activeScanJobs: Set<string> | undefined;
+}
+
+const activeJobs = globalThis.__activeScanJobs ?? new Set<string>();
+globalThis.__activeScanJobs = activeJobs;
+
+export type ScanJobStatus = "queued" | "running" | "complete" | "failed" | "cancelled";
+
+export type ScanProgress = {
+  id: string;
+  status: ScanJobStatus;
+  market: string;
+  /** Markets covered by a multi-market scan; empty for single-market scans. */
+  markets: string[];
+  mode: ScanMode;
+  progressDone: number;
+  progressTotal: number;
+  currentProduct: string | null;
+  cancelRequested: boolean;
+  errorMessage: string | null;
+  startedAt: string;
+  completedAt: string | null;
+};
+
+/** Queues a scan of `market`, or of every market in `markets` in a single run when there is more than one. */
+export async function enqueueScan({
+  shopDomain,
+  market,
+  markets = [],
+  forceFull = false,
+  mode = "hybrid",
+}: {
+  shopDomain: string;
+  market: string;
+  markets?: string[];
+  forceFull?: boolean;
+  mode?: ScanMode;
+}) {
+  const multiMarket = markets.length > 1;
+  const scanMarket = multiMarket ? MULTI_MARKET : markets[0] ?? market;
+  const existing = await prisma.scan.findFirst({
+    where: { shopDomain, market: scanMarket, status: { in: ["queued", "running"] } },
+    orderBy: { startedAt: "desc" },
+  });
+  if (existing) {
+    return serializeScan(existing);
+  }
+  // Checked again when the job runs; this just refuses to queue a scan that could never start.
+  await assertScanAllowed({ shopDomain, markets: multiMarket ? markets : [scanMarket] });
+
+  const scan = await prisma.scan.create({
+    data: {
+      shopDomain,
+      market: scanMarket,
+      markets: multiMarket ? markets : [],
+      mode,
+      status: "queued",
+      fullRescan: forceFull,
+    },
+  });
+
+  // Start right away on this instance when there is capacity; otherwise the worker tick picks it up.
+  void processScanJob(scan.id);
+
+  return serializeScan(scan);
+}
+
+export async function processQueuedScans({ limit = WORKER_CONCURRENCY }: { limit?: number } = {}) {
+  const capacity = Math.max(0, limit - activeJobs.size);
+  if (!capacity) return 0;
+
+  const now = new Date();
+  const candidates = await prisma.scan.findMany({
+    where: {
+      OR: [{ status: "queued" }, { status: "running", lockedUntil: { lt: now } }],
+    },
+    orderBy: { startedAt: "asc" },
+    take: capacity,
+    select: { id: true },
+  });
+
+  // Jobs run in the background so the scheduler tick and the cron request are not held for a whole catalog scan.
+  candidates.forEach((candidate: { id: string }) => void processScanJob(candidate.id));
+  return candidates.length;
+}
+
+export async function processScanJob(scanId: string) {
+  if (activeJobs.has(scanId) || activeJobs.size >= WORKER_CONCURRENCY) {
+    return;
+  }
+
+  activeJobs.add(scanId);
+  // One product can take longer than the lease (slow model, rate-limit backoff), so the lease is renewed on a timer
+  // rather than only when progress is reported.
+  const heartbeat = setInterval(() => void renewLease(scanId).catch(() => undefined), JOB_LEASE_MS / 3);
+  heartbeat.unref?.();
+  try {
+    const job = await claimScanJob(scanId);
+    if (!job) return;
+
+    if (job.cancelRequested) {
+      await prisma.scan.update({
+        where: { id: job.id },
+        data: { status: "cancelled", completedAt: new Date(), lockedBy: null, lockedUntil: null },
+      });
+      return;
+    }
+
+    const { admin } = await unauthenticated.admin(job.shopDomain);
+    const options = {
+      admin,
+      shopDomain: job.shopDomain,
+      scanId: job.id,
+      forceFull: Boolean(job.fullRescan),
+      mode: toScanMode(job.mode),
+      lockedBy: WORKER_INSTANCE_ID,
+      hooks: {
+        onProductsLoaded: (total: number) => updateProgress(job.id, { progressTotal: total, progressDone: 0 }),
+        onProductAnalyzed: ({ done, productTitle }: { done: number; productTitle: string }) =>
+          updateProgress(job.id, { progressDone: done, currentProduct: productTitle }),
+        shouldCancel: () => isCancellationRequested(job.id),
+      },
+    };
+    if (job.market === MULTI_MARKET) {
+      await runMultiMarketScan({ ...options, markets: job.markets ?? [] });
+    } else {
+      await runFullScan({ ...options, market: job.market });
+    }
+  } catch (error) {
+    console.error(`[scan-queue] Scan job ${scanId} failed`, error);
+    await prisma.scan.updateMany({
+      where: { id: scanId, status: { in: ["queued", "running"] }, lockedBy: WORKER_INSTANCE_ID },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        errorMessage: error instanceof Error ? error.message : "Scan failed",
+      },
+    });
+  } finally {
+    clearInterval(heartbeat);
+    activeJobs.delete(scanId);
+    await prisma.scan
+      .updateMany({ where: { id: scanId, lockedBy: WORKER_INSTANCE_ID }, data: { lockedBy: null, lockedUntil: null } })
+      .catch(() => undefined);
+  }
+}
+
+export async function requestScanCancellation({ scanId, shopDomain }: { scanId: string; shopDomain: string }) {
+  const scan = await prisma.scan.findUnique({ where: { id: scanId } });
+  if (!scan || scan.shopDomain !== shopDomain) {
+    throw new Error("Scan not found");
+  }
+
+  if (scan.status === "queued") {
+    const updated = await prisma.scan.update({
+      where: { id: scanId },
+      data: { status: "cancelled", cancelRequested: true, completedAt: new Date() },
+    });
+    return toScanProgress(updated);
+  }
+
+  const updated = await prisma.scan.update({
+    where: { id: scanId },
+    data: { cancelRequested: true },
+  });
+  return toScanProgress(updated);
+}
+
+export async function getScanJob({ scanId, shopDomain }: { scanId: string; shopDomain: string }) {
+  const scan = await prisma.scan.findUnique({ where: { id: scanId } });
+  if (!scan || scan.shopDomain !== shopDomain) {
+    return null;
+  }
+  const finished = isFinished(scan.status);
+  // A finished multi-market scan reports its per-market scans, which hold the findings.
+  const marketScans: SerializedScan[] | undefined =
+    finished && scan.market === MULTI_MARKET
+      ? (await prisma.scan.findMany({ where: { parentScanId: scan.id }, orderBy: { market: "asc" } })).map(serializeScan)
+      : undefined;
+  return {
+    progress: toScanProgress(scan),
+    scan: finished ? serializeScan(scan) : undefined,
+    marketScans,
+  };
+}
+
+function toScanProgress(scan: any): ScanProgress {
+  return {
+    id: scan.id,
+    status: scan.status as ScanJobStatus,
+    market: scan.market,
+    markets: scan.markets ?? [],
+    mode: toScanMode(scan.mode),
+    progressDone: scan.progressDone ?? 0,
+    progressTotal: scan.progressTotal ?? 0,
+    currentProduct: scan.currentProduct ?? null,
+    cancelRequested: Boolean(scan.cancelRequested),
+    errorMessage: scan.errorMessage ?? null,
+    startedAt: scan.startedAt.toISOString(),
+    completedAt: scan.completedAt ? scan.completedAt.toISOString() : null,
+  };
+}
+
+function isFinished(status: string) {
+  return status === "complete" || status === "failed" || status === "cancelled";
+}
+
+async function claimScanJob(scanId: string) {
+  const now = new Date();
+  const claimed = await prisma.scan.updateMany({
+    where: {
+      id: scanId,
+      OR: [{ status: "queued" }, { status: "running", lockedUntil: { lt: now } }],
+    },
+    data: {
+      status: "running",
+      startedAt: now,
+      progressDone: 0,
+      currentProduct: null,
+      lockedBy: WORKER_INSTANCE_ID,
+      lockedUntil: new Date(now.getTime() + JOB_LEASE_MS),
+    },
+  });
+  if (claimed.count !== 1) {
+    return null;
+  }
+  return prisma.scan.findUnique({ where: { id: scanId } });
+}
+
+async function updateProgress(
+  scanId: string,
+  data: { progressDone?: number; progressTotal?: number; currentProduct?: string | null },
+) {
+  await prisma.scan.updateMany({
+    where: { id: scanId, lockedBy: WORKER_INSTANCE_ID },
+    data: {
+      ...data,
+      lockedUntil: new Date(Date.now() + JOB_LEASE_MS),
+    },
+  });
+}
+
+async function renewLease(scanId: string) {
+  await prisma.scan.updateMany({
+    where: { id: scanId, lockedBy: WORKER_INSTANCE_ID },
+    data: { lockedUntil: new Date(Date.now() + JOB_LEASE_MS) },
+  });
+}
+
+async function isCancellationRequested(scanId: string) {
+  const scan = await prisma.scan.findUnique({
+    where: { id: scanId },
+    select: { cancelRequested: true },
+  });
+  return Boolean(scan?.cancelRequested);
+}
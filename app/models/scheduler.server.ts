@@ -0,0 +1,208 @@
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { WORKER_INSTANCE_ID } from "../utils/worker.server";
+import { assertPlanFeature } from "./billing.server";
+import { computeNextRun, rescanSingleProduct } from "./scan.server";
+import { processPendingProductRescans } from "./productRescan.server";
+import { purgeExpiredUninstalledShops } from "./shopData.server";
+import { enqueueScan, processQueuedScans } from "./scanQueue.server";
+
+const SCHEDULER_INTERVAL_MS = Number(process.env.SCAN_SCHEDULER_INTERVAL_MS ?? 60_000);
+const SCHEDULER_BATCH_SIZE = Number(process.env.SCAN_SCHEDULER_BATCH_SIZE ?? 10);
+const LEASE_DURATION_MS = Number(process.env.SCAN_SCHEDULER_LEASE_MS ?? 10 * 60 * 1000);
+const RETRY_BASE_DELAY_MS = 15 * 60 * 1000;
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __scanSchedulerTimer: NodeJS.Timeout | undefined;
+  // eslint-disable-next-line no-var
+  var __scanSchedulerTickRunning: boolean | undefined;
+}
+
+type ScanScheduleRecord = {
+  id: string;
+  shopDomain: string;
+  productId: string;
+  market: string;
+  frequency: string;
+  failureCount: number;
+};
+
+export type ScheduleRunOutcome = {
+  scheduleId: string;
+  shopDomain: string;
+  productId: string;
+  status: "success" | "failed";
+  error?: string;
+};
+
+/**
+ * Picks up every schedule whose `nextRun` has passed, leases it to this instance and runs the rescan.
+ * Leases are taken with a conditional update so concurrent app instances never run the same row twice;
+ * a lease left behind by a crashed instance expires after `SCAN_SCHEDULER_LEASE_MS`.
+ */
+export async function runDueScanSchedules({
+  now = new Date(),
+  limit = SCHEDULER_BATCH_SIZE,
+}: { now?: Date; limit?: number } = {}) {
+  const candidates = await prisma.scanSchedule.findMany({
+    where: {
+      nextRun: { lte: now },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    },
+    orderBy: { nextRun: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  const outcomes: ScheduleRunOutcome[] = [];
+  for (const candidate of candidates) {
+    const schedule = await claimSchedule(candidate.id, now);
+    if (!schedule) continue;
+    outcomes.push(await executeSchedule(schedule));
+  }
+
+  return outcomes;
+}
+
+export function startScanScheduler() {
+  if (process.env.SCAN_SCHEDULER_DISABLED === "true" || globalThis.__scanSchedulerTimer) {
+    return;
+  }
+
+  globalThis.__scanSchedulerTimer = setInterval(() => {
+    void tickScheduler();
+  }, SCHEDULER_INTERVAL_MS);
+  globalThis.__scanSchedulerTimer.unref?.();
+}
+
+export function stopScanScheduler() {
+  if (globalThis.__scanSchedulerTimer) {
+    clearInterval(globalThis.__scanSchedulerTimer);
+    globalThis.__scanSchedulerTimer = undefined;
+  }
+}
+
+async function tickScheduler() {
+  if (globalThis.__scanSchedulerTickRunning) return;
+  globalThis.__scanSchedulerTickRunning = true;
+  try {
+    const outcomes = await runDueScanSchedules();
+    const failures = outcomes.filter((outcome) => outcome.status === "failed");
+    if (outcomes.length) {
+      console.log(`[scheduler] Ran ${outcomes.length} scheduled scan(s), ${failures.length} failed`);
+    }
+    await processQueuedScans();
+    const rescanned = await processPendingProductRescans();
+    if (rescanned) {
+      console.log(`[scheduler] Rescanned ${rescanned} changed product(s)`);
+    }
+    const purged = await purgeExpiredUninstalledShops();
+    if (purged.length) {
+      console.log(`[scheduler] Purged data for ${purged.length} uninstalled shop(s)`);
+    }
+  } catch (error) {
+    console.error("[scheduler] Tick failed", error);
+  } finally {
+    globalThis.__scanSchedulerTickRunning = false;
+  }
+}
+
+async function claimSchedule(id: string, now: Date): Promise<ScanScheduleRecord | null> {
+  const claimed = await prisma.scanSchedule.updateMany({
+    where: {
+      id,
+      nextRun: { lte: now },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    },
+    data: {
+      lockedBy: WORKER_INSTANCE_ID,
+      lockedUntil: new Date(now.getTime() + LEASE_DURATION_MS),
+    },
+  });
+  if (claimed.count !== 1) {
+    return null;
+  }
+  return prisma.scanSchedule.findUnique({ where: { id } });
+}
+
+async function executeSchedule(schedule: ScanScheduleRecord): Promise<ScheduleRunOutcome> {
+  const base = {
+    scheduleId: schedule.id,
+    shopDomain: schedule.shopDomain,
+    productId: schedule.productId,
+  };
+
+  try {
+    const { admin } = await unauthenticated.admin(schedule.shopDomain);
+    await runScheduledScan(admin, schedule);
+
+    const finishedAt = new Date();
+    await releaseSchedule(schedule.id, {
+      lastRun: finishedAt,
+      nextRun: computeNextRun(schedule.frequency, finishedAt),
+      lastStatus: "success",
+      lastError: null,
+      failureCount: 0,
+    });
+    return { ...base, status: "success" };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Scheduled scan failed";
+    const failureCount = schedule.failureCount + 1;
+    const finishedAt = new Date();
+    const regularNextRun = computeNextRun(schedule.frequency, finishedAt);
+    const retryAt = new Date(finishedAt.getTime() + RETRY_BASE_DELAY_MS * 2 ** Math.min(failureCount - 1, 6));
+
+    console.error(`[scheduler] Schedule ${schedule.id} for ${schedule.shopDomain} failed`, message);
+    await releaseSchedule(schedule.id, {
+      lastRun: finishedAt,
+      nextRun: retryAt < regularNextRun ? retryAt : regularNextRun,
+      lastStatus: "failed",
+      lastError: message,
+      failureCount,
+    });
+    return { ...base, status: "failed", error: message };
+  }
+}
+
+async function runScheduledScan(admin: any, schedule: ScanScheduleRecord) {
+  // A shop that downgraded keeps its schedules; they fail (and back off) until it upgrades again.
+  await assertPlanFeature(schedule.shopDomain, "scheduledScans");
+
+  const latestScan = await prisma.scan.findFirst({
+    where: { shopDomain: schedule.shopDomain, market: schedule.market, status: "complete" },
+    orderBy: { startedAt: "desc" },
+    select: { id: true },
+  });
+
+  if (latestScan) {
+    return rescanSingleProduct({
+      admin,
+      scanId: latestScan.id,
+      productId: schedule.productId,
+      shopDomain: schedule.shopDomain,
+    });
+  }
+
+  return enqueueScan({ shopDomain: schedule.shopDomain, market: schedule.market });
+}
+
+async function releaseSchedule(
+  id: string,
+  data: {
+    lastRun: Date;
+    nextRun: Date;
+    lastStatus: "success" | "failed";
+    lastError: string | null;
+    failureCount: number;
+  },
+) {
+  await prisma.scanSchedule.updateMany({
+    where: { id, lockedBy: WORKER_INSTANCE_ID },
+    data: {
+      ...data,
+      lockedBy: null,
+      lockedUntil: null,
+    },
+  });
+}
@@ -0,0 +1,167 @@
+import prisma from "../db.server";
+
+// Unset means uninstalled shops are only purged when Shopify sends `shop/redact` (48 hours after uninstall).
+const RETENTION_DAYS = process.env.SHOP_DATA_RETENTION_DAYS ? Number(process.env.SHOP_DATA_RETENTION_DAYS) : null;
+
+export type RedactionTopic =
+  | "customers/data_request"
+  | "customers/redact"
+  | "shop/redact"
+  | "retention/uninstalled";
+
+export type ShopDataDeletionCounts = Record<string, number>;
+
+export async function markShopInstalled(shopDomain: string) {
+  await prisma.shop.upsert({
+    where: { domain: shopDomain },
+    update: { uninstalledAt: null },
+    create: { domain: shopDomain },
+  });
+}
+
+export async function markShopUninstalled(shopDomain: string) {
+  await prisma.shop.updateMany({
+    where: { domain: shopDomain, uninstalledAt: null },
+    data: { uninstalledAt: new Date() },
+  });
+  // Nothing can run against the shop without a session, so drop work that would only fail and retry.
+  await prisma.pendingProductRescan.deleteMany({ where: { shopDomain } });
+  await prisma.scan.updateMany({
+    where: { shopDomain, status: "queued" },
+    data: { status: "cancelled", cancelRequested: true, completedAt: new Date() },
+  });
+}
+
+/**
+ * Deletes every shop-scoped row the app holds and writes a `DataRedactionAudit` entry with per-table counts.
+ * The audit row is the only record kept for the shop afterwards.
+ */
+export async function purgeShopData(shopDomain: string, topic: RedactionTopic = "shop/redact") {
+  const audit = await prisma.dataRedactionAudit.create({
+    data: { shopDomain, topic, status: "pending" },
+  });
+
+  try {
+    const scans = await prisma.scan.findMany({ where: { shopDomain }, select: { id: true } });
+    const scanIds = scans.map((scan: { id: string }) => scan.id);
+
+    const [
+      scanResults,
+      productScanHistory,
+      fixProposals,
+      fixLogs,
+      scanSchedules,
+      productFingerprints,
+      pendingProductRescans,
+      customPolicyRules,
+      policyAllowListEntries,
+      aiUsage,
+      shopStaff,
+      themeDrafts,
+      scanRows,
+      sessions,
+      shops,
+    ] = await prisma.$transaction([
+      prisma.scanResult.deleteMany({ where: { scanId: { in: scanIds } } }),
+      prisma.productScanHistory.deleteMany({ where: { shopDomain } }),
+      prisma.fixProposal.deleteMany({ where: { shopDomain } }),
+      prisma.fixLog.deleteMany({ where: { shopDomain } }),
+      prisma.scanSchedule.deleteMany({ where: { shopDomain } }),
+      prisma.productFingerprint.deleteMany({ where: { shopDomain } }),
+      prisma.pendingProductRescan.deleteMany({ where: { shopDomain } }),
+      prisma.customPolicyRule.deleteMany({ where: { shopDomain } }),
+      prisma.policyAllowListEntry.deleteMany({ where: { shopDomain } }),
+      prisma.aiUsage.deleteMany({ where: { shopDomain } }),
+      prisma.shopStaff.deleteMany({ where: { shopDomain } }),
+      prisma.themeDraft.deleteMany({ where: { shopDomain } }),
+      prisma.scan.deleteMany({ where: { shopDomain } }),
+      prisma.session.deleteMany({ where: { shop: shopDomain } }),
+      prisma.shop.deleteMany({ where: { domain: shopDomain } }),
+    ]);
+
+    const deleted: ShopDataDeletionCounts = {
+      scanResult: scanResults.count,
+      productScanHistory: productScanHistory.count,
+      fixProposal: fixProposals.count,
+      fixLog: fixLogs.count,
+      scanSchedule: scanSchedules.count,
+      productFingerprint: productFingerprints.count,
+      pendingProductRescan: pendingProductRescans.count,
+      customPolicyRule: customPolicyRules.count,
+      policyAllowListEntry: policyAllowListEntries.count,
+      aiUsage: aiUsage.count,
+      shopStaff: shopStaff.count,
+      themeDraft: themeDrafts.count,
+      scan: scanRows.count,
+      session: sessions.count,
+      shop: shops.count,
+    };
+
+    await completeAudit(audit.id, deleted);
+    return deleted;
+  } catch (error) {
+    await prisma.dataRedactionAudit.update({
+      where: { id: audit.id },
+      data: {
+        status: "failed",
+        errorMessage: error instanceof Error ? error.message : "Shop data purge failed",
+        completedAt: new Date(),
+      },
+    });
+    throw error;
+  }
+}
+
+/**
+ * The app only stores product, scan and fix data; nothing is keyed by customer. Customer requests are still
+ * acknowledged and audited so there is a record that they were received and answered.
+ */
+export async function recordCustomerRequest({
+  shopDomain,
+  topic,
+  customerId,
+}: {
+  shopDomain: string;
+  topic: "customers/data_request" | "customers/redact";
+  customerId?: string | number | null;
+}) {
+  const audit = await prisma.dataRedactionAudit.create({
+    data: {
+      shopDomain,
+      topic,
+      customerId: customerId != null ? String(customerId) : null,
+      status: "pending",
+    },
+  });
+  await completeAudit(audit.id, {});
+}
+
+export async function purgeExpiredUninstalledShops({ now = new Date() }: { now?: Date } = {}) {
+  if (RETENTION_DAYS === null || !Number.isFinite(RETENTION_DAYS)) {
+    return [];
+  }
+
+  const cutoff = new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const shops = await prisma.shop.findMany({
+    where: { uninstalledAt: { lte: cutoff } },
+    select: { domain: true },
+  });
+
+  const purged: string[] = [];
+  for (const shop of shops) {
+    try {
+      await purgeShopData(shop.domain, "retention/uninstalled");
+      purged.push(shop.domain);
+    } catch (error) {
+      console.error(`[shop-data] Failed to purge ${shop.domain}`, error);
+    }
+  }
+  return purged;
+}
+
+async function completeAudit(id: string, deleted: ShopDataDeletionCounts) {
+  await prisma.dataRedactionAudit.update({
+    where: { id },
+    data: { status: "complete", deleted, completedAt: new Date() },
+  });
+}
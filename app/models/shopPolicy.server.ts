@@ -0,0 +1,192 @@
+import prisma from "../db.server";
+import type { PolicyRule } from "../data/policyKeywords";
+
+export type AllowListScope = "global" | "product" | "collection";
+
+export type AllowListEntry = {
+  id: string;
+  term: string;
+  scope: AllowListScope;
+  targetId: string | null;
+  targetLabel: string | null;
+  note: string | null;
+};
+
+export type CustomPolicyRuleInput = {
+  id?: string;
+  market: string;
+  category: string;
+  severity: PolicyRule["severity"];
+  description: string;
+  keywords: string[];
+  patterns: string[];
+  enabled?: boolean;
+};
+
+export type ShopPolicy = {
+  rules: PolicyRule[];
+  allowList: AllowListEntry[];
+};
+
+const SEVERITIES: PolicyRule["severity"][] = ["high", "medium", "low"];
+const SCOPES: AllowListScope[] = ["global", "product", "collection"];
+
+export async function listCustomRules(shopDomain: string) {
+  return prisma.customPolicyRule.findMany({
+    where: { shopDomain },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function saveCustomRule(shopDomain: string, input: CustomPolicyRuleInput) {
+  const data = validateCustomRule(input);
+
+  if (input.id) {
+    const updated = await prisma.customPolicyRule.updateMany({
+      where: { id: input.id, shopDomain },
+      data,
+    });
+    if (!updated.count) {
+      throw new Error("Rule not found");
+    }
+    return prisma.customPolicyRule.findUnique({ where: { id: input.id } });
+  }
+
+  return prisma.customPolicyRule.create({ data: { ...data, shopDomain } });
+}
+
+export async function deleteCustomRule(shopDomain: string, id: string) {
+  await prisma.customPolicyRule.deleteMany({ where: { id, shopDomain } });
+}
+
+export async function listAllowList(shopDomain: string): Promise<AllowListEntry[]> {
+  const entries = await prisma.policyAllowListEntry.findMany({
+    where: { shopDomain },
+    orderBy: { createdAt: "asc" },
+  });
+  return entries.map(toAllowListEntry);
+}
+
+export async function addAllowListEntry(
+  shopDomain: string,
+  input: { term: string; scope: string; targetId?: string | null; targetLabel?: string | null; note?: string | null },
+) {
+  const term = input.term.trim();
+  if (!term) {
+    throw new Error("Enter a term to allow");
+  }
+  const scope = SCOPES.includes(input.scope as AllowListScope) ? (input.scope as AllowListScope) : "global";
+  if (scope !== "global" && !input.targetId) {
+    throw new Error(`Choose a ${scope} for this allow-list entry`);
+  }
+
+  const entry = await prisma.policyAllowListEntry.create({
+    data: {
+      shopDomain,
+      term,
+      scope,
+      targetId: scope === "global" ? null : input.targetId,
+      targetLabel: scope === "global" ? null : input.targetLabel ?? null,
+      note: input.note?.trim() || null,
+    },
+  });
+  return toAllowListEntry(entry);
+}
+
+export async function deleteAllowListEntry(shopDomain: string, id: string) {
+  await prisma.policyAllowListEntry.deleteMany({ where: { id, shopDomain } });
+}
+
+/**
+ * Loads the shop's enabled custom rules for a market (plus those marked `all`) and its allow-list. Callers
+ * merge the rules over the policy pack with `mergePolicyRules` and filter the allow-list per product with
+ * `allowedTermsFor`.
+ */
+export async function loadShopPolicy(shopDomain: string, market: string): Promise<ShopPolicy> {
+  const [rules, allowList] = await Promise.all([
+    prisma.customPolicyRule.findMany({
+      where: { shopDomain, enabled: true, market: { in: ["all", market.toLowerCase()] } },
+      orderBy: { createdAt: "asc" },
+    }),
+    listAllowList(shopDomain),
+  ]);
+
+  return {
+    rules: rules.map(
+      (rule: any): PolicyRule => ({
+        category: rule.category,
+        severity: SEVERITIES.includes(rule.severity) ? rule.severity : "medium",
+        description: rule.description,
+        keywords: toStringArray(rule.keywords),
+        patterns: toStringArray(rule.patterns),
+      }),
+    ),
+    allowList,
+  };
+}
+
+/** Custom rules replace pack rules with the same category, so a merchant can retune severity or wording. */
+export function mergePolicyRules(packRules: PolicyRule[], customRules: PolicyRule[]) {
+  const byCategory = new Map<string, PolicyRule>();
+  [...packRules, ...customRules].forEach((rule) => byCategory.set(rule.category.toLowerCase(), rule));
+  return Array.from(byCategory.values());
+}
+
+export function allowedTermsFor(
+  allowList: AllowListEntry[],
+  product: { id: string; collections?: { nodes?: Array<{ id: string }> } | null },
+) {
+  const collectionIds = new Set((product.collections?.nodes ?? []).map((collection) => collection.id));
+  return allowList
+    .filter((entry) => {
+      if (entry.scope === "product") return entry.targetId === product.id;
+      if (entry.scope === "collection") return Boolean(entry.targetId && collectionIds.has(entry.targetId));
+      return true;
+    })
+    .map((entry) => entry.term);
+}
+
+function validateCustomRule(input: CustomPolicyRuleInput) {
+  const category = input.category.trim();
+  if (!category) {
+    throw new Error("Rule category is required");
+  }
+
+  const keywords = input.keywords.map((keyword) => keyword.trim().toLowerCase()).filter(Boolean);
+  const patterns = input.patterns.map((pattern) => pattern.trim()).filter(Boolean);
+  if (!keywords.length && !patterns.length) {
+    throw new Error("Add at least one keyword or pattern");
+  }
+  patterns.forEach((pattern) => {
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      throw new Error(`Invalid pattern: ${pattern}`);
+    }
+  });
+
+  return {
+    market: input.market.trim().toLowerCase() || "all",
+    category,
+    severity: SEVERITIES.includes(input.severity) ? input.severity : "medium",
+    description: input.description.trim() || category,
+    keywords,
+    patterns,
+    enabled: input.enabled ?? true,
+  };
+}
+
+function toAllowListEntry(entry: any): AllowListEntry {
+  return {
+    id: entry.id,
+    term: entry.term,
+    scope: SCOPES.includes(entry.scope) ? entry.scope : "global",
+    targetId: entry.targetId ?? null,
+    targetLabel: entry.targetLabel ?? null,
+    note: entry.note ?? null,
+  };
+}
+
+function toStringArray(value: unknown) {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
@@ -0,0 +1,289 @@
+import type { Session } from "@shopify/shopify-api";
+import { ApiVersion } from "@shopify/shopify-app-remix/server";
+
+import prisma from "../db.server";
+
+export type ThemeDraftStatus = "creating" | "ready" | "published" | "discarded" | "failed";
+
+export type ThemeDraftView = {
+  id: string;
+  themeId: string | null;
+  sourceThemeId: string;
+  name: string;
+  status: ThemeDraftStatus;
+  errorMessage: string | null;
+  previewUrl: string | null;
+  createdAt: string;
+};
+
+// `themeDuplicate` is not available in the app's default API version.
+const THEME_DUPLICATE_API_VERSION = ApiVersion.July25;
+const PROCESSING_POLL_ATTEMPTS = 10;
+const PROCESSING_POLL_DELAY_MS = 1500;
+
+const THEME_DUPLICATE_MUTATION = `#graphql
+  mutation ThemeDraftDuplicate($id: ID!, $name: String) {
+    themeDuplicate(id: $id, name: $name) {
+      newTheme { id processing }
+      userErrors { field message }
+    }
+  }
+`;
+
+const THEME_STATUS_QUERY = `#graphql
+  query ThemeDraftStatus($id: ID!) {
+    theme(id: $id) {
+      id
+      role
+      processing
+    }
+  }
+`;
+
+const THEME_PUBLISH_MUTATION = `#graphql
+  mutation ThemeDraftPublish($id: ID!) {
+    themePublish(id: $id) {
+      theme { id role }
+      userErrors { field message }
+    }
+  }
+`;
+
+const THEME_DELETE_MUTATION = `#graphql
+  mutation ThemeDraftDelete($id: ID!) {
+    themeDelete(id: $id) {
+      deletedThemeId
+      userErrors { field message }
+    }
+  }
+`;
+
+/** Raised when a template fix's `before` snippet cannot be located exactly once in the asset. */
+export class TemplateSnippetError extends Error {
+  constructor(
+    message: string,
+    readonly occurrences: number,
+  ) {
+    super(message);
+    this.name = "TemplateSnippetError";
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function resolveMainTheme(admin: any, session: Session) {
+  const themesResponse = await admin.rest.resources.Theme.all({ session });
+  const mainTheme = themesResponse?.data?.find((theme: any) => theme.role === "main") ?? themesResponse?.data?.[0];
+  return mainTheme?.id ? { id: String(mainTheme.id), name: String(mainTheme.name ?? "Live theme") } : null;
+}
+
+export async function getActiveThemeDraft(shopDomain: string): Promise<ThemeDraftView | null> {
+  const draft = await prisma.themeDraft.findUnique({ where: { activeFor: shopDomain } });
+  return draft ? toDraftView(draft) : null;
+}
+
+/**
+ * Returns the shop's open draft theme, duplicating the live theme the first time a template fix needs one. Template
+ * fixes are only ever written to this unpublished copy; the merchant previews it and publishes or discards it.
+ */
+export async function ensureThemeDraft({
+  admin,
+  session,
+  shopDomain,
+}: {
+  admin: any;
+  session: Session;
+  shopDomain: string;
+}): Promise<ThemeDraftView> {
+  const existing = await prisma.themeDraft.findUnique({ where: { activeFor: shopDomain } });
+  if (existing) {
+    return waitForDraft(admin, existing);
+  }
+
+  const mainTheme = await resolveMainTheme(admin, session);
+  if (!mainTheme) {
+    throw new Error("No editable theme found");
+  }
+
+  let draft: any;
+  try {
+    draft = await prisma.themeDraft.create({
+      data: {
+        shopDomain,
+        activeFor: shopDomain,
+        sourceThemeId: mainTheme.id,
+        name: `${mainTheme.name} (compliance fixes)`.slice(0, 50),
+      },
+    });
+  } catch (error: any) {
+    // Another request claimed the slot first; use its draft.
+    if (error?.code !== "P2002") throw error;
+    const claimed = await prisma.themeDraft.findUnique({ where: { activeFor: shopDomain } });
+    if (!claimed) throw error;
+    return waitForDraft(admin, claimed);
+  }
+
+  try {
+    const response = await admin.graphql(THEME_DUPLICATE_MUTATION, {
+      variables: { id: toThemeGid(mainTheme.id), name: draft.name },
+      apiVersion: THEME_DUPLICATE_API_VERSION,
+    });
+    const body = await response.json();
+    const errors = body?.data?.themeDuplicate?.userErrors;
+    const newTheme = body?.data?.themeDuplicate?.newTheme;
+    if (errors?.length || !newTheme?.id) {
+      throw new Error(errors?.[0]?.message ?? "Theme could not be duplicated");
+    }
+    draft = await prisma.themeDraft.update({
+      where: { id: draft.id },
+      data: { themeId: fromThemeGid(newTheme.id) },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Theme could not be duplicated";
+    await prisma.themeDraft.update({
+      where: { id: draft.id },
+      data: { status: "failed", errorMessage: message, activeFor: null, closedAt: new Date() },
+    });
+    throw new Error(`Could not create a draft theme: ${message}`);
+  }
+
+  return waitForDraft(admin, draft);
+}
+
+/** Publishes the draft, refusing when the live theme was changed since the draft was copied from it. */
+export async function publishThemeDraft({
+  admin,
+  session,
+  shopDomain,
+  draftId,
+}: {
+  admin: any;
+  session: Session;
+  shopDomain: string;
+  draftId: string;
+}) {
+  const draft = await requireOpenDraft(shopDomain, draftId);
+  if (draft.status !== "ready" || !draft.themeId) {
+    throw new Error("The draft theme is not ready yet");
+  }
+  const mainTheme = await resolveMainTheme(admin, session);
+  if (mainTheme && mainTheme.id !== draft.sourceThemeId) {
+    throw new Error("A different theme was published after this draft was created. Discard the draft and apply the fixes again.");
+  }
+
+  const response = await admin.graphql(THEME_PUBLISH_MUTATION, { variables: { id: toThemeGid(draft.themeId) } });
+  const body = await response.json();
+  const errors = body?.data?.themePublish?.userErrors;
+  if (errors?.length) {
+    throw new Error(errors[0].message ?? "Theme could not be published");
+  }
+
+  const updated = await prisma.themeDraft.update({
+    where: { id: draft.id },
+    data: { status: "published", activeFor: null, closedAt: new Date() },
+  });
+  return toDraftView(updated);
+}
+
+export async function discardThemeDraft({ admin, shopDomain, draftId }: { admin: any; shopDomain: string; draftId: string }) {
+  const draft = await requireOpenDraft(shopDomain, draftId);
+  if (draft.themeId) {
+    const response = await admin.graphql(THEME_DELETE_MUTATION, { variables: { id: toThemeGid(draft.themeId) } });
+    const body = await response.json();
+    const errors = body?.data?.themeDelete?.userErrors;
+    if (errors?.length) {
+      throw new Error(errors[0].message ?? "Draft theme could not be deleted");
+    }
+  }
+
+  const updated = await prisma.themeDraft.update({
+    where: { id: draft.id },
+    data: { status: "discarded", activeFor: null, closedAt: new Date() },
+  });
+  return toDraftView(updated);
+}
+
+/**
+ * Replaces `before` with `after` only when `before` occurs exactly once, so a fix never lands in the wrong place
+ * or silently does nothing because the template changed since it was analysed.
+ */
+export function replaceUniqueSnippet(source: string, before: string, after: string, assetKey: string) {
+  if (!before) {
+    throw new TemplateSnippetError(`The fix for ${assetKey} has no original snippet to replace`, 0);
+  }
+  const occurrences = source.split(before).length - 1;
+  if (occurrences === 0) {
+    throw new TemplateSnippetError(
+      `The original snippet no longer exists in ${assetKey}. Rescan the product to refresh the suggestion.`,
+      0,
+    );
+  }
+  if (occurrences > 1) {
+    throw new TemplateSnippetError(
+      `The original snippet matches ${occurrences} places in ${assetKey}. Edit the fix so it matches exactly one.`,
+      occurrences,
+    );
+  }
+  const index = source.indexOf(before);
+  return source.slice(0, index) + after + source.slice(index + before.length);
+}
+
+export function themePreviewUrl(shopDomain: string, themeId: string) {
+  return `https://${shopDomain}/?preview_theme_id=${themeId}`;
+}
+
+// Duplicated themes are copied in the background; assets cannot be written until processing finishes.
+async function waitForDraft(admin: any, draft: any): Promise<ThemeDraftView> {
+  if (draft.status === "ready") return toDraftView(draft);
+  if (!draft.themeId) {
+    throw new Error("The draft theme is still being created. Try again in a minute.");
+  }
+
+  for (let attempt = 0; attempt < PROCESSING_POLL_ATTEMPTS; attempt += 1) {
+    const response = await admin.graphql(THEME_STATUS_QUERY, { variables: { id: toThemeGid(draft.themeId) } });
+    const body = await response.json();
+    const theme = body?.data?.theme;
+    if (!theme) {
+      await prisma.themeDraft.update({
+        where: { id: draft.id },
+        data: { status: "discarded", activeFor: null, closedAt: new Date(), errorMessage: "Theme was deleted in Shopify" },
+      });
+      throw new Error("The draft theme was deleted in Shopify. Apply the fix again to create a new draft.");
+    }
+    if (!theme.processing) {
+      const ready = await prisma.themeDraft.update({ where: { id: draft.id }, data: { status: "ready" } });
+      return toDraftView(ready);
+    }
+    await wait(PROCESSING_POLL_DELAY_MS);
+  }
+  throw new Error("The draft theme is still being prepared. Try again in a minute.");
+}
+
+async function requireOpenDraft(shopDomain: string, draftId: string) {
+  const draft = await prisma.themeDraft.findFirst({ where: { id: draftId, shopDomain, activeFor: shopDomain } });
+  if (!draft) {
+    throw new Error("Draft theme not found or already closed");
+  }
+  return draft;
+}
+
+function toThemeGid(themeId: string) {
+  return `gid://shopify/OnlineStoreTheme/${themeId}`;
+}
+
+function fromThemeGid(gid: string) {
+  return gid.split("/").pop() as string;
+}
+
+function toDraftView(draft: any): ThemeDraftView {
+  return {
+    id: draft.id,
+    themeId: draft.themeId ?? null,
+    sourceThemeId: draft.sourceThemeId,
+    name: draft.name,
+    status: draft.status,
+    errorMessage: draft.errorMessage ?? null,
+    previewUrl: draft.themeId ? themePreviewUrl(draft.shopDomain, draft.themeId) : null,
+    createdAt: draft.createdAt.toISOString(),
+  };
+}
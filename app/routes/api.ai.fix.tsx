@@ -11,6 +11,13 @@ import {
   type FixScope,
   type WorkspaceIssue,
 } from "../models/fixWorkspace.server";
+import { PlanLimitError } from "../models/billing.server";
+import {
+  FixApprovalPermissionError,
+  isFixApprovalRequired,
+  proposeFixes,
+  requireStaffUserId,
+} from "../models/fixApproval.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const url = new URL(request.url);
@@ -48,7 +55,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return json({ error: "intent is required" }, { status: 400 });
   }
 
-  const { admin, session } = await authenticate.admin(request);
+  const { admin, session, sessionToken } = await authenticate.admin(request);
   const shopDomain = session.shop;
   const productId = body.productId;
   const market = (body.market ?? "us").toLowerCase();
@@ -62,6 +69,18 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         if (!productId || !issue) {
           return json({ error: "Missing product or issue" }, { status: 400 });
         }
+        if (await isFixApprovalRequired(shopDomain)) {
+          const [proposal] = await proposeFixes({
+            shopDomain,
+            userId: requireStaffUserId({ session, sessionToken }),
+            productId,
+            market,
+            scanId,
+            scope,
+            issues: [issue],
+          });
+          return json({ success: true, proposed: true, proposalId: proposal.id });
+        }
         const result = await applyIssueFix({
           admin,
           session,
@@ -79,6 +98,20 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         if (!productId || !issues.length) {
           return json({ error: "No issues provided" }, { status: 400 });
         }
+        if (await isFixApprovalRequired(shopDomain)) {
+          const proposals = await proposeFixes({
+            shopDomain,
+            userId: requireStaffUserId({ session, sessionToken }),
+            productId,
+            market,
+            scanId,
+            scope,
+            issues,
+          });
+          return json({
+            results: proposals.map((proposal) => ({ issueId: proposal.issue.id, success: true, proposed: true })),
+          });
+        }
         const results = await applyBulkIssueFixes({
           admin,
           session,
@@ -100,6 +133,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           product,
           issue: body.issue,
           market,
+          shopDomain,
         });
         return json({ issue: updatedIssue });
       }
@@ -107,6 +141,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         return json({ error: "Unsupported intent" }, { status: 400 });
     }
   } catch (error) {
+    if (error instanceof PlanLimitError) {
+      return json({ error: error.message, upgradeRequired: true }, { status: 402 });
+    }
+    if (error instanceof FixApprovalPermissionError) {
+      return json({ error: error.message }, { status: 403 });
+    }
     const message = error instanceof Error ? error.message : "Unable to process request";
     return json({ error: message }, { status: 500 });
   }
@@ -0,0 +1,27 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { runDueScanSchedules } from "../models/scheduler.server";
+import { processQueuedScans } from "../models/scanQueue.server";
+import { processPendingProductRescans } from "../models/productRescan.server";
+import { purgeExpiredUninstalledShops } from "../models/shopData.server";
+
+// Entry point for external cron runners (e.g. Vercel Cron) where the in-process scheduler cannot stay alive.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const outcomes = await runDueScanSchedules();
+  const queuedScansProcessed = await processQueuedScans();
+  const productRescansProcessed = await processPendingProductRescans();
+  const purgedShops = await purgeExpiredUninstalledShops();
+  return json({
+    ran: outcomes.length,
+    queuedScansProcessed,
+    productRescansProcessed,
+    purgedShops: purgedShops.length,
+    failed: outcomes.filter((outcome) => outcome.status === "failed").length,
+    outcomes,
+  });
+};
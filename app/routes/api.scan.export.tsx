@@ -3,7 +3,9 @@ import { json } from "@remix-run/node";
 import PDFDocument from "pdfkit";
 import prisma from "../db.server";
 import { authenticate } from "../shopify.server";
-import type { ComplianceFinding } from "../models/scan.server";
+import { assertPlanFeature, PlanLimitError } from "../models/billing.server";
+import { toScanMode, type ComplianceFinding, type ScanMode, type ViolationEvidence } from "../models/scan.server";
+import { buildExcerpt, formatEvidenceField, type HighlightSegment } from "../utils/highlight";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -21,6 +23,15 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     return json({ error: "Scan not found" }, { status: 404 });
   }
 
+  try {
+    await assertPlanFeature(session.shop, "exports");
+  } catch (error) {
+    if (error instanceof PlanLimitError) {
+      return json({ error: error.message, upgradeRequired: true }, { status: 402 });
+    }
+    throw error;
+  }
+
   const results = ((scan.results as ComplianceFinding[] | null) ?? []).filter(
     (result) => result.market === market,
   );
@@ -32,6 +43,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       shop: session.shop,
       market,
       startedAt: scan.startedAt,
+      policyPackVersion: scan.policyPackVersion ?? null,
+      mode: toScanMode(scan.mode),
     });
     return new Response(pdfBuffer, {
       headers: {
@@ -58,6 +71,7 @@ function buildCsv(results: ComplianceFinding[]) {
     "Violations",
     "Policy",
     "Law",
+    "Field",
     "Severity",
     "Risk",
     "Why it matters",
@@ -78,6 +92,7 @@ function buildCsv(results: ComplianceFinding[]) {
           "",
           "",
           "",
+          "",
         ],
       ];
     }
@@ -89,6 +104,7 @@ function buildCsv(results: ComplianceFinding[]) {
       String(result.violations.length),
       escapeCsv(violation.policy),
       escapeCsv(violation.law),
+      violation.field ? escapeCsv(formatEvidenceField(violation.field)) : "",
       violation.severity,
       formatRisk(violation.riskScore),
       escapeCsv(violation.whyMatters),
@@ -108,7 +124,7 @@ function escapeCsv(value: string) {
 
 async function buildPdf(
   results: ComplianceFinding[],
-  meta: { shop: string; market: string; startedAt: Date },
+  meta: { shop: string; market: string; startedAt: Date; policyPackVersion: string | null; mode: ScanMode },
 ): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const doc = new PDFDocument({ margin: 40 });
@@ -123,6 +139,10 @@ async function buildPdf(
     doc.text(`Market: ${meta.market.toUpperCase()}`);
     doc.text(`Generated: ${new Date().toLocaleString()}`);
     doc.text(`Scan started: ${meta.startedAt.toLocaleString()}`);
+    doc.text(`Scan mode: ${meta.mode}`);
+    if (meta.policyPackVersion) {
+      doc.text(`Policy pack: ${meta.policyPackVersion}`);
+    }
     doc.moveDown();
 
     results.forEach((result, index) => {
@@ -134,9 +154,15 @@ async function buildPdf(
         result.violations.forEach((violation, violationIndex) => {
           doc.moveDown(0.25);
           doc.fontSize(11).text(
-            `${violationIndex + 1}) ${violation.policy} — ${violation.law} (${violation.severity}, ${formatRisk(violation.riskScore)} risk)`,
+            `${violationIndex + 1}) ${violation.policy} — ${violation.law} (${violation.severity}, ${formatRisk(violation.riskScore)} risk${violation.source ? `, ${violation.source}` : ""})`,
           );
           doc.fontSize(10).text(`Issue: ${violation.issue}`);
+          if (violation.field) {
+            doc.text(`Field: ${formatEvidenceField(violation.field)}`);
+          }
+          (violation.evidence ?? []).forEach((evidence) => {
+            writeHighlightedLine(doc, `${formatEvidenceField(evidence.field)}: `, evidenceSegments(result, evidence));
+          });
           doc.text(`Why it matters: ${violation.whyMatters}`);
           doc.text(`AI guidance: ${violation.suggestion}`);
           if (violation.sourceUrl) {
@@ -157,6 +183,29 @@ async function buildPdf(
   });
 }
 
+function evidenceSegments(result: ComplianceFinding, evidence: ViolationEvidence): HighlightSegment[] {
+  const text =
+    evidence.field === "title"
+      ? result.productTitle
+      : evidence.field === "description"
+        ? result.originalDescription
+        : result.fieldTexts?.[evidence.field];
+  return text ? buildExcerpt(text, evidence) : [{ text: evidence.snippet, highlighted: true }];
+}
+
+function writeHighlightedLine(doc: PDFKit.PDFDocument, label: string, segments: HighlightSegment[]) {
+  doc.fillColor("#555555").text(label, { continued: true });
+  segments.forEach((segment, index) => {
+    const continued = index < segments.length - 1;
+    if (segment.highlighted) {
+      doc.fillColor("#b42318").text(segment.text, { continued, underline: true });
+    } else {
+      doc.fillColor("#000000").text(segment.text, { continued, underline: false });
+    }
+  });
+  doc.fillColor("#000000");
+}
+
 function formatRisk(score: number) {
   return `${Math.round(Math.min(1, Math.max(0, score)) * 100)}%`;
 }
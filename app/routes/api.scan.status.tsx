@@ -0,0 +1,39 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getScanJob, requestScanCancellation } from "../models/scanQueue.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const scanId = url.searchParams.get("scanId");
+
+  if (!scanId) {
+    return json({ error: "scanId is required" }, { status: 400 });
+  }
+
+  const job = await getScanJob({ scanId, shopDomain: session.shop });
+  if (!job) {
+    return json({ error: "Scan not found" }, { status: 404 });
+  }
+
+  return json(job);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent")?.toString();
+  const scanId = formData.get("scanId")?.toString();
+
+  if (intent !== "cancel" || !scanId) {
+    return json({ error: "Unsupported action" }, { status: 400 });
+  }
+
+  try {
+    const progress = await requestScanCancellation({ scanId, shopDomain: session.shop });
+    return json({ progress });
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : "Unable to cancel scan" }, { status: 404 });
+  }
+};
@@ -0,0 +1,249 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useEffect, useState } from "react";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { Badge, Banner, BlockStack, Button, Card, InlineGrid, InlineStack, Layout, Text, TextField } from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  type FixProposalView,
+  type ReviewDecision,
+  FixApprovalPermissionError,
+  isFixApprovalRequired,
+  listFixProposals,
+  registerStaffUser,
+  resolveStaffUserId,
+  requireStaffUserId,
+  reviewFixProposal,
+} from "../models/fixApproval.server";
+
+type ActionResponse = { proposal?: FixProposalView; error?: string };
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const userId = resolveStaffUserId({ session, sessionToken });
+  const [role, approvalRequired, pending, recent] = await Promise.all([
+    userId ? registerStaffUser(session.shop, userId) : Promise.resolve(null),
+    isFixApprovalRequired(session.shop),
+    listFixProposals(session.shop, { status: "pending" }),
+    listFixProposals(session.shop, { take: 25 }),
+  ]);
+
+  return json({
+    userId,
+    isApprover: role === "approver",
+    approvalRequired,
+    pending: pending as FixProposalView[],
+    reviewed: (recent as FixProposalView[]).filter((proposal) => proposal.status !== "pending"),
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session, sessionToken } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const proposalId = formData.get("proposalId")?.toString();
+  const decision = formData.get("decision")?.toString() as ReviewDecision | undefined;
+
+  try {
+    if (!proposalId || (decision !== "approve" && decision !== "reject")) {
+      return json<ActionResponse>({ error: "Missing proposal or decision" }, { status: 400 });
+    }
+    const proposal = await reviewFixProposal({
+      admin,
+      session,
+      shopDomain: session.shop,
+      userId: requireStaffUserId({ session, sessionToken }),
+      proposalId,
+      decision,
+      comment: formData.get("comment")?.toString(),
+    });
+    return json<ActionResponse>({ proposal });
+  } catch (error) {
+    const status = error instanceof FixApprovalPermissionError ? 403 : 400;
+    return json<ActionResponse>({ error: error instanceof Error ? error.message : "Review failed" }, { status });
+  }
+};
+
+export default function ApprovalsPage() {
+  const { userId, isApprover, approvalRequired, pending, reviewed } = useLoaderData<typeof loader>();
+
+  return (
+    <Layout>
+      <Layout.Section>
+        <BlockStack gap="400">
+          {!approvalRequired && (
+            <Banner tone="info" title="Fix approval is off">
+              <p>Fixes are applied as soon as they are clicked. Turn on approvals in Settings to route them through this queue.</p>
+            </Banner>
+          )}
+          {approvalRequired && !isApprover && (
+            <Banner tone="info" title="Read-only">
+              <p>Only approvers can approve or reject fixes. Ask an approver to change your role in Settings.</p>
+            </Banner>
+          )}
+          <Text as="h2" variant="headingMd">
+            Waiting for review ({pending.length})
+          </Text>
+          {pending.length ? (
+            pending.map((proposal) => (
+              <ProposalCard
+                key={proposal.id}
+                proposal={proposal}
+                userId={userId}
+                canReview={isApprover && proposal.proposedBy !== userId}
+              />
+            ))
+          ) : (
+            <Card>
+              <Text as="p" tone="subdued">
+                No fixes are waiting for review.
+              </Text>
+            </Card>
+          )}
+          {reviewed.length > 0 && (
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Recently reviewed
+                </Text>
+                {reviewed.map((proposal) => (
+                  <InlineStack key={proposal.id} align="space-between" blockAlign="center" gap="200">
+                    <BlockStack gap="050">
+                      <Text as="span" fontWeight="semibold">
+                        {proposal.issue.title}
+                      </Text>
+                      <Text as="span" tone="subdued" variant="bodySm">
+                        {`Proposed by ${formatUser(proposal.proposedBy, userId)} • reviewed by ${formatUser(proposal.reviewedBy, userId)} ${
+                          proposal.reviewedAt ? formatTimestamp(proposal.reviewedAt) : ""
+                        }${proposal.reviewComment ? ` • “${proposal.reviewComment}”` : ""}`}
+                      </Text>
+                      {proposal.errorMessage && (
+                        <Text as="span" tone="critical" variant="bodySm">
+                          {proposal.errorMessage}
+                        </Text>
+                      )}
+                    </BlockStack>
+                    <Badge tone={STATUS_TONES[proposal.status]}>{proposal.status}</Badge>
+                  </InlineStack>
+                ))}
+              </BlockStack>
+            </Card>
+          )}
+        </BlockStack>
+      </Layout.Section>
+    </Layout>
+  );
+}
+
+function ProposalCard({
+  proposal,
+  userId,
+  canReview,
+}: {
+  proposal: FixProposalView;
+  userId: string | null;
+  canReview: boolean;
+}) {
+  const fetcher = useFetcher<ActionResponse>();
+  const appBridge = useAppBridge();
+  const [comment, setComment] = useState("");
+  const busy = fetcher.state !== "idle";
+  const pendingDecision = busy ? fetcher.formData?.get("decision") : undefined;
+  const { issue } = proposal;
+  const ownProposal = proposal.proposedBy === userId;
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    const result = fetcher.data.proposal;
+    if (fetcher.data.error || result?.status === "failed") {
+      appBridge.toast.show(fetcher.data.error ?? result?.errorMessage ?? "Fix could not be applied", { isError: true });
+    } else if (result) {
+      appBridge.toast.show(result.status === "applied" ? "Fix approved and applied" : "Fix rejected");
+    }
+  }, [fetcher.state, fetcher.data, appBridge]);
+
+  const submit = (decision: ReviewDecision) =>
+    fetcher.submit({ proposalId: proposal.id, decision, comment }, { method: "post" });
+
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <InlineStack align="space-between" blockAlign="center">
+          <InlineStack gap="200" blockAlign="center">
+            <Badge tone={issue.severity === "High" ? "critical" : issue.severity === "Medium" ? "warning" : "info"}>
+              {issue.severity}
+            </Badge>
+            <Badge>{issue.targetField}</Badge>
+            <Text as="h3" variant="headingSm">
+              {issue.title}
+            </Text>
+          </InlineStack>
+          <Text as="span" tone="subdued" variant="bodySm">
+            {`${proposal.productId.replace("gid://shopify/Product/", "Product ")} • ${proposal.market.toUpperCase()} • proposed by ${formatUser(proposal.proposedBy, userId)} ${formatTimestamp(
+              proposal.proposedAt,
+            )}`}
+          </Text>
+        </InlineStack>
+        <Text as="p" tone="subdued">
+          {issue.summary}
+        </Text>
+        <InlineGrid columns={{ xs: 1, md: 2 }} gap="300">
+          <BlockStack gap="100">
+            <Text as="span" fontWeight="semibold">
+              Current
+            </Text>
+            <Text as="p">{issue.before || "—"}</Text>
+          </BlockStack>
+          <BlockStack gap="100">
+            <Text as="span" fontWeight="semibold">
+              {issue.allowManualEdit ? "Proposed (edited by staff)" : "Proposed"}
+            </Text>
+            <Text as="p">{issue.after ?? issue.suggestion}</Text>
+          </BlockStack>
+        </InlineGrid>
+        <TextField
+          label="Review comment"
+          value={comment}
+          onChange={setComment}
+          multiline={2}
+          autoComplete="off"
+          disabled={!canReview || busy}
+        />
+        <InlineStack gap="200" align="end">
+          {ownProposal && (
+            <Text as="span" tone="subdued">
+              You proposed this fix, so someone else has to review it.
+            </Text>
+          )}
+          <Button onClick={() => submit("reject")} disabled={!canReview || busy} loading={pendingDecision === "reject"}>
+            Reject
+          </Button>
+          <Button
+            variant="primary"
+            onClick={() => submit("approve")}
+            disabled={!canReview || busy}
+            loading={pendingDecision === "approve"}
+          >
+            Approve and apply
+          </Button>
+        </InlineStack>
+      </BlockStack>
+    </Card>
+  );
+}
+
+const STATUS_TONES: Record<string, "success" | "critical" | "attention" | "info" | undefined> = {
+  applied: "success",
+  failed: "critical",
+  rejected: "attention",
+  applying: "info",
+};
+
+function formatUser(value: string | null, currentUserId: string | null) {
+  if (!value) return "unknown";
+  return value === currentUserId ? "you" : `staff #${value}`;
+}
+
+function formatTimestamp(value: string) {
+  return new Date(value).toLocaleString();
+}
@@ -0,0 +1,209 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useEffect } from "react";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { Badge, Banner, BlockStack, Button, Card, InlineGrid, InlineStack, Layout, List, Text } from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { PAID_PLAN_IDS, PLANS, isPlanId, type PlanDefinition, type PlanId } from "../data/plans";
+import {
+  BILLING_IS_TEST,
+  type PlanUsage,
+  type SubscriptionSnapshot,
+  getPlanUsage,
+  getShopPlan,
+  syncSubscription,
+} from "../models/billing.server";
+
+type ActionResponse = { ok?: boolean; error?: string };
+
+// Keys of the `billing` config in shopify.server.ts.
+type BillingPlanName = "Starter" | "Pro";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session, billing } = await authenticate.admin(request);
+  const billingNames = PAID_PLAN_IDS.map((id) => PLANS[id].billingName as BillingPlanName);
+
+  // Reconcile on every visit so a missed webhook (or the return from the approval page) is picked up.
+  try {
+    const { appSubscriptions } = await billing.check({ plans: billingNames, isTest: BILLING_IS_TEST });
+    await syncSubscription(session.shop, (appSubscriptions[0] as SubscriptionSnapshot | undefined) ?? null);
+  } catch (error) {
+    console.error(`[billing] Could not check subscriptions for ${session.shop}`, error);
+  }
+
+  const [plan, usage] = await Promise.all([getShopPlan(session.shop), getPlanUsage(session.shop)]);
+  return json({
+    currentPlan: plan.id,
+    planStatus: plan.status,
+    usage: usage as PlanUsage,
+    plans: PLANS,
+    isTest: BILLING_IS_TEST,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, billing } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent")?.toString();
+
+  try {
+    switch (intent) {
+      case "subscribe": {
+        const planId = formData.get("plan")?.toString();
+        if (!isPlanId(planId) || !PLANS[planId].billingName) throw new Error("Unknown plan");
+        // Redirects to Shopify's approval page; the plan is applied once the subscription activates.
+        await billing.request({ plan: PLANS[planId].billingName as BillingPlanName, isTest: BILLING_IS_TEST });
+        return json<ActionResponse>({ ok: true });
+      }
+      case "cancel": {
+        const plan = await getShopPlan(session.shop);
+        if (!plan.subscriptionId) throw new Error("There is no active subscription to cancel");
+        await billing.cancel({ subscriptionId: plan.subscriptionId, isTest: BILLING_IS_TEST, prorate: true });
+        await syncSubscription(session.shop, null);
+        return json<ActionResponse>({ ok: true });
+      }
+      default:
+        return json<ActionResponse>({ error: "Unsupported action" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof Response) throw error;
+    return json<ActionResponse>({ error: error instanceof Error ? error.message : "Request failed" }, { status: 500 });
+  }
+};
+
+export default function BillingPage() {
+  const { currentPlan, planStatus, usage, plans, isTest } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<ActionResponse>();
+  const appBridge = useAppBridge();
+  const pendingPlan = fetcher.state !== "idle" ? fetcher.formData?.get("plan")?.toString() : undefined;
+  const current = plans[currentPlan as PlanId];
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    appBridge.toast.show(fetcher.data.error ?? "Subscription cancelled", { isError: Boolean(fetcher.data.error) });
+  }, [fetcher.state, fetcher.data, appBridge]);
+
+  return (
+    <Layout>
+      <Layout.Section>
+        <BlockStack gap="400">
+          {isTest && (
+            <Banner tone="info" title="Test billing">
+              <p>Subscriptions created here are test charges and will not be billed.</p>
+            </Banner>
+          )}
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text as="h2" variant="headingMd">
+                  Current usage
+                </Text>
+                <InlineStack gap="200">
+                  <Badge tone="info">{current.label}</Badge>
+                  {planStatus && planStatus !== "ACTIVE" && <Badge tone="attention">{planStatus.toLowerCase()}</Badge>}
+                </InlineStack>
+              </InlineStack>
+              <InlineGrid columns={{ xs: 1, md: 3 }} gap="400">
+                <UsageMetric label="Scans this month" used={usage.scansThisMonth} limit={current.limits.scansPerMonth} />
+                <UsageMetric label="Markets this month" used={usage.marketsThisMonth.length} limit={current.limits.markets} />
+                <UsageMetric label="AI fixes this month" used={usage.fixesThisMonth} limit={current.includedFixes} />
+              </InlineGrid>
+            </BlockStack>
+          </Card>
+          <InlineGrid columns={{ xs: 1, md: 3 }} gap="400">
+            {(Object.values(plans) as PlanDefinition[]).map((plan) => (
+              <PlanCard
+                key={plan.id}
+                plan={plan}
+                isCurrent={plan.id === currentPlan}
+                loading={pendingPlan === plan.id}
+                disabled={fetcher.state !== "idle"}
+                onSubscribe={() => fetcher.submit({ intent: "subscribe", plan: plan.id }, { method: "post" })}
+                onCancel={() => fetcher.submit({ intent: "cancel" }, { method: "post" })}
+              />
+            ))}
+          </InlineGrid>
+        </BlockStack>
+      </Layout.Section>
+    </Layout>
+  );
+}
+
+function PlanCard({
+  plan,
+  isCurrent,
+  loading,
+  disabled,
+  onSubscribe,
+  onCancel,
+}: {
+  plan: PlanDefinition;
+  isCurrent: boolean;
+  loading: boolean;
+  disabled: boolean;
+  onSubscribe: () => void;
+  onCancel: () => void;
+}) {
+  const { limits } = plan;
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <InlineStack align="space-between" blockAlign="center">
+          <Text as="h3" variant="headingMd">
+            {plan.label}
+          </Text>
+          {isCurrent && <Badge tone="success">Current plan</Badge>}
+        </InlineStack>
+        <Text as="p" variant="headingLg">
+          {plan.monthlyPrice ? `$${plan.monthlyPrice}/month` : "Free"}
+        </Text>
+        {plan.trialDays > 0 && (
+          <Text as="p" tone="subdued">
+            {plan.trialDays}-day free trial
+          </Text>
+        )}
+        <List>
+          <List.Item>{formatLimit(limits.productsPerScan, "products per scan")}</List.Item>
+          <List.Item>{formatLimit(limits.scansPerMonth, "scans a month")}</List.Item>
+          <List.Item>{formatLimit(limits.markets, "markets")}</List.Item>
+          <List.Item>{limits.autoFix ? formatIncludedFixes(plan) : "Manual fixes only"}</List.Item>
+          <List.Item>{limits.scheduledScans ? "Scheduled rescans" : "No scheduled rescans"}</List.Item>
+          <List.Item>{limits.exports ? "CSV and PDF exports" : "No report exports"}</List.Item>
+        </List>
+        {plan.billingName && !isCurrent && (
+          <Button variant="primary" onClick={onSubscribe} loading={loading} disabled={disabled}>
+            {`Choose ${plan.label}`}
+          </Button>
+        )}
+        {plan.billingName && isCurrent && (
+          <Button tone="critical" onClick={onCancel} disabled={disabled}>
+            Cancel subscription
+          </Button>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
+
+function UsageMetric({ label, used, limit }: { label: string; used: number; limit: number | null }) {
+  return (
+    <BlockStack gap="100">
+      <Text as="span" tone="subdued">
+        {label}
+      </Text>
+      <Text as="p" variant="headingLg">
+        {limit === null ? used : `${used} / ${limit}`}
+      </Text>
+    </BlockStack>
+  );
+}
+
+function formatLimit(limit: number | null, unit: string) {
+  return limit === null ? `Unlimited ${unit}` : `${limit} ${unit}`;
+}
+
+function formatIncludedFixes(plan: PlanDefinition) {
+  if (plan.includedFixes === null) return "Unlimited AI fixes";
+  return `${plan.includedFixes} AI fixes, then $${plan.usagePricePerFix.toFixed(2)} each (up to $${plan.usageCappedAmount}/month)`;
+}
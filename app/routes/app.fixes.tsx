@@ -0,0 +1,238 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useEffect, useState } from "react";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { Badge, Banner, BlockStack, Button, Card, DataTable, InlineStack, Layout, Text, TextField } from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { listFixHistory, rollbackFixes, type FixHistoryEntry, type RollbackResult } from "../models/fixHistory.server";
+import {
+  discardThemeDraft,
+  getActiveThemeDraft,
+  publishThemeDraft,
+  type ThemeDraftView,
+} from "../models/themeDraft.server";
+
+type ActionResponse = { results?: RollbackResult[]; draft?: ThemeDraftView; error?: string };
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const productId = new URL(request.url).searchParams.get("productId") ?? undefined;
+  const [fixes, themeDraft] = await Promise.all([
+    listFixHistory(session.shop, { productId, take: 100 }),
+    getActiveThemeDraft(session.shop),
+  ]);
+  return json({ fixes: fixes as FixHistoryEntry[], themeDraft: themeDraft as ThemeDraftView | null, productId: productId ?? null });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent")?.toString();
+  const draftId = formData.get("draftId")?.toString() ?? "";
+
+  try {
+    switch (intent) {
+      case "rollback": {
+        const results = await rollbackFixes({
+          admin,
+          session,
+          shopDomain: session.shop,
+          selection: {
+            fixLogId: formData.get("fixLogId")?.toString() || undefined,
+            productId: formData.get("productId")?.toString() || undefined,
+            from: parseDate(formData.get("from")?.toString()),
+            to: parseDate(formData.get("to")?.toString(), true),
+          },
+          overwriteChanges: formData.get("overwriteChanges") === "true",
+        });
+        return json<ActionResponse>({ results });
+      }
+      case "publishDraft": {
+        const draft = await publishThemeDraft({ admin, session, shopDomain: session.shop, draftId });
+        return json<ActionResponse>({ draft });
+      }
+      case "discardDraft": {
+        const draft = await discardThemeDraft({ admin, shopDomain: session.shop, draftId });
+        return json<ActionResponse>({ draft });
+      }
+      default:
+        return json<ActionResponse>({ error: "Unsupported action" }, { status: 400 });
+    }
+  } catch (error) {
+    return json<ActionResponse>({ error: error instanceof Error ? error.message : "Request failed" }, { status: 500 });
+  }
+};
+
+export default function FixHistoryPage() {
+  const { fixes, themeDraft, productId } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<ActionResponse>();
+  const appBridge = useAppBridge();
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [lastSelection, setLastSelection] = useState<Record<string, string>>({});
+  const busy = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    if (fetcher.data.error) {
+      appBridge.toast.show(fetcher.data.error, { isError: true });
+      return;
+    }
+    if (fetcher.data.draft) {
+      appBridge.toast.show(fetcher.data.draft.status === "published" ? "Draft theme published" : "Draft theme discarded");
+      return;
+    }
+    const results = fetcher.data.results ?? [];
+    const failed = results.filter((result) => !result.success);
+    if (!results.length) {
+      appBridge.toast.show("No fixes to roll back");
+    } else if (failed.length) {
+      appBridge.toast.show(`${failed.length} of ${results.length} rollbacks failed: ${failed[0].error}`, { isError: true });
+    } else {
+      appBridge.toast.show(`${results.length} fix${results.length === 1 ? "" : "es"} rolled back`);
+    }
+  }, [fetcher.state, fetcher.data, appBridge]);
+
+  const submitRollback = (selection: Record<string, string>) => {
+    setLastSelection(selection);
+    fetcher.submit({ intent: "rollback", ...selection }, { method: "post" });
+  };
+  const conflicts = busy ? [] : (fetcher.data?.results ?? []).filter((result) => result.conflict);
+
+  const rows = fixes.map((fix) => [
+    formatTimestamp(fix.appliedAt),
+    fix.productId.replace("gid://shopify/Product/", ""),
+    fix.issueTitle ?? (fix.rollbackOfId ? "Rollback" : fix.issueId),
+    fix.fieldUpdated,
+    <InlineStack key={`${fix.id}-status`} gap="100">
+      <Badge tone={fix.status === "success" ? "success" : fix.status === "failed" ? "critical" : undefined}>{fix.status}</Badge>
+      {fix.revertedAt && <Badge tone="info">rolled back</Badge>}
+    </InlineStack>,
+    fix.canRollback ? (
+      <InlineStack key={`${fix.id}-actions`} gap="200">
+        <Button size="slim" disabled={busy} onClick={() => submitRollback({ fixLogId: fix.id })}>
+          Undo
+        </Button>
+        <Button size="slim" variant="plain" disabled={busy} onClick={() => submitRollback({ productId: fix.productId })}>
+          Undo all for product
+        </Button>
+      </InlineStack>
+    ) : (
+      ""
+    ),
+  ]);
+
+  return (
+    <Layout>
+      <Layout.Section>
+        <BlockStack gap="400">
+          {conflicts.length > 0 && (
+            <Banner
+              tone="warning"
+              title={`${conflicts.length} fix${conflicts.length === 1 ? " was" : "es were"} not rolled back`}
+              action={{
+                content: "Roll back anyway",
+                onAction: () => submitRollback({ ...lastSelection, overwriteChanges: "true" }),
+              }}
+            >
+              <p>
+                The field was changed after the fix was applied, by a later fix or by hand. Rolling back restores the value
+                from before the fix and discards those changes.
+              </p>
+            </Banner>
+          )}
+          {themeDraft && (
+            <Card>
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingMd">
+                    Draft theme
+                  </Text>
+                  <Badge tone={themeDraft.status === "ready" ? "attention" : "info"}>
+                    {themeDraft.status === "ready" ? "Unpublished changes" : themeDraft.status}
+                  </Badge>
+                </InlineStack>
+                <Text as="p" tone="subdued">
+                  {`Template fixes are applied to “${themeDraft.name}”, a copy of your live theme. Preview it, then publish it to make the fixes live or discard it to drop them.`}
+                </Text>
+                <InlineStack gap="200">
+                  {themeDraft.previewUrl && (
+                    <Button url={themeDraft.previewUrl} target="_blank">
+                      Preview
+                    </Button>
+                  )}
+                  <Button
+                    variant="primary"
+                    disabled={busy || themeDraft.status !== "ready"}
+                    onClick={() => fetcher.submit({ intent: "publishDraft", draftId: themeDraft.id }, { method: "post" })}
+                  >
+                    Publish
+                  </Button>
+                  <Button
+                    tone="critical"
+                    disabled={busy}
+                    onClick={() => fetcher.submit({ intent: "discardDraft", draftId: themeDraft.id }, { method: "post" })}
+                  >
+                    Discard
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          )}
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Roll back by date
+              </Text>
+              <Text as="p" tone="subdued">
+                Restores the values that were live before every fix applied in the range, newest first.
+              </Text>
+              <InlineStack gap="300" blockAlign="end">
+                <TextField label="From" type="date" value={from} onChange={setFrom} autoComplete="off" />
+                <TextField label="To" type="date" value={to} onChange={setTo} autoComplete="off" />
+                <Button
+                  tone="critical"
+                  disabled={busy || (!from && !to)}
+                  loading={busy}
+                  onClick={() => submitRollback({ from, to, ...(productId ? { productId } : {}) })}
+                >
+                  Roll back range
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+          <Card padding="0">
+            {fixes.length ? (
+              <DataTable
+                columnContentTypes={["text", "text", "text", "text", "text", "text"]}
+                headings={["Applied", "Product", "Issue", "Field", "Status", ""]}
+                rows={rows}
+              />
+            ) : (
+              <div style={{ padding: "var(--p-space-400)" }}>
+                <Text as="p" tone="subdued">
+                  No fixes have been applied yet.
+                </Text>
+              </div>
+            )}
+          </Card>
+        </BlockStack>
+      </Layout.Section>
+    </Layout>
+  );
+}
+
+// Dates arrive as YYYY-MM-DD; the end of a range covers the whole day.
+function parseDate(value: string | undefined, endOfDay = false) {
+  if (!value) return undefined;
+  const date = new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+function formatTimestamp(value: string) {
+  return new Date(value).toLocaleString();
+}
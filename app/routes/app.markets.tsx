@@ -0,0 +1,141 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useSearchParams } from "@remix-run/react";
+import { Badge, BlockStack, Button, Card, DataTable, InlineStack, Layout, Select, Text } from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { marketLabel } from "../data/markets";
+import {
+  listMultiMarketScans,
+  loadMarketMatrix,
+  type MarketMatrix,
+  type MarketMatrixCell,
+  type MultiMarketScanSummary,
+} from "../models/marketMatrix.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const scanId = new URL(request.url).searchParams.get("scanId");
+  const [matrix, scans] = await Promise.all([loadMarketMatrix(session.shop, scanId), listMultiMarketScans(session.shop)]);
+  return json({ matrix: matrix as MarketMatrix | null, scans: scans as MultiMarketScanSummary[] });
+};
+
+export default function MarketMatrixPage() {
+  const { matrix, scans } = useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
+
+  if (!matrix) {
+    return (
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                No multi-market scans yet
+              </Text>
+              <Text as="p" tone="subdued">
+                Select several markets on the Scans page to check every product against all of them in one run.
+              </Text>
+              <InlineStack>
+                <Button url="/app/scans">Go to scans</Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    );
+  }
+
+  const rows = matrix.rows.map((row) => [
+    row.productTitle,
+    ...matrix.markets.map((market) => <MatrixCell key={`${row.productId}-${market}`} cell={row.cells[market]} />),
+  ]);
+
+  return (
+    <Layout>
+      <Layout.Section>
+        <BlockStack gap="400">
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center" gap="300">
+                <Text as="h2" variant="headingMd">
+                  Compliance by market
+                </Text>
+                {scans.length > 1 && (
+                  <Select
+                    label="Scan"
+                    labelHidden
+                    options={scans.map((scan) => ({
+                      label: `${formatTimestamp(scan.startedAt)} • ${scan.markets.map((market) => market.toUpperCase()).join(", ")}${
+                        scan.status === "complete" ? "" : ` • ${scan.status}`
+                      }`,
+                      value: scan.id,
+                    }))}
+                    value={matrix.scanId}
+                    onChange={(value) => setSearchParams({ scanId: value })}
+                  />
+                )}
+              </InlineStack>
+              <Text as="p" tone="subdued">
+                {`Started ${formatTimestamp(matrix.startedAt)}${matrix.status === "complete" ? "" : ` • ${matrix.status}`}. Each cell is the product's compliance score and open issues in that market.`}
+              </Text>
+              <InlineStack gap="400">
+                {matrix.markets.map((market) => {
+                  const summary = matrix.marketSummaries[market];
+                  return (
+                    <BlockStack key={market} gap="050">
+                      <Text as="span" variant="bodySm" tone="subdued">
+                        {marketLabel(market)}
+                      </Text>
+                      <Text as="span" variant="headingMd">
+                        {summary?.complianceScore != null ? `${Math.round(summary.complianceScore)}%` : "—"}
+                      </Text>
+                      <Text as="span" variant="bodySm" tone="subdued">
+                        {summary ? `${summary.violations} issue${summary.violations === 1 ? "" : "s"}` : "Not scanned"}
+                      </Text>
+                    </BlockStack>
+                  );
+                })}
+              </InlineStack>
+            </BlockStack>
+          </Card>
+          <Card padding="0">
+            {rows.length ? (
+              <DataTable
+                columnContentTypes={["text", ...matrix.markets.map(() => "text" as const)]}
+                headings={["Product", ...matrix.markets.map((market) => market.toUpperCase())]}
+                rows={rows}
+              />
+            ) : (
+              <div style={{ padding: "var(--p-space-400)" }}>
+                <Text as="p" tone="subdued">
+                  This scan has no product results.
+                </Text>
+              </div>
+            )}
+          </Card>
+        </BlockStack>
+      </Layout.Section>
+    </Layout>
+  );
+}
+
+function MatrixCell({ cell }: { cell: MarketMatrixCell | null }) {
+  if (!cell) {
+    return (
+      <Text as="span" tone="subdued">
+        —
+      </Text>
+    );
+  }
+  const tone =
+    cell.status === "error" ? "attention" : cell.status === "clean" ? "success" : cell.highSeverity ? "critical" : "warning";
+  const label =
+    cell.status === "error"
+      ? "Error"
+      : `${Math.round(cell.complianceScore)}%${cell.violations ? ` • ${cell.violations} issue${cell.violations === 1 ? "" : "s"}` : ""}`;
+  return <Badge tone={tone}>{label}</Badge>;
+}
+
+function formatTimestamp(value: string) {
+  return new Date(value).toLocaleString();
+}
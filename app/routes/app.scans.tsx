@@ -1,6 +1,6 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useFetcher, useLoaderData } from "@remix-run/react";
 import { Toast } from "@shopify/app-bridge/actions";
 import { useAppBridge } from "@shopify/app-bridge-react";
@@ -8,10 +8,13 @@ import {
   ActionList,
   Badge,
   Banner,
+  BlockStack,
   Box,
   Button,
   ButtonGroup,
   Card,
+  Checkbox,
+  ChoiceList,
   Collapsible,
   Divider,
   Icon,
@@ -40,24 +43,45 @@ import prisma from "../db.server";
 import { authenticate } from "../shopify.server";
 import {
   hydrateDashboard,
-  runFullScan,
+  isScanMode,
   rescanSingleProduct,
   saveScanSchedule,
   type ComplianceFinding,
   type DashboardNotification,
   type SerializedScan,
 } from "../models/scan.server";
+import { enqueueScan, type ScanProgress } from "../models/scanQueue.server";
+import { loadShopifyMarkets, resolveMarketLocalization, suggestComplianceMarkets } from "../models/marketLocalization.server";
+import { PlanLimitError } from "../models/billing.server";
+import { PLANS, toPlanId } from "../data/plans";
+import { MARKETS, parseMarkets } from "../data/markets";
 import { AIFixWorkspace } from "../components/AIFixWorkspace";
+import { buildExcerpt, formatEvidenceField, splitHighlights, type HighlightSegment } from "../utils/highlight";
 import type { FixScope, WorkspaceIssue, WorkspacePayload } from "../models/fixWorkspace.server";
 
 const RESULTS_PER_PAGE = 8;
-const PROGRESS_WAIT_LIMIT = 70;
-const PROGRESS_INTERVAL_MS = 800;
+const PROGRESS_POLL_MS = 1500;
+const ACTIVE_SCAN_STATUSES = ["queued", "running"];
+
+type ScanStatusResponse = {
+  progress?: ScanProgress;
+  scan?: SerializedScan;
+  marketScans?: SerializedScan[];
+  error?: string;
+};
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const dashboard = await hydrateDashboard(session.shop);
   const shopRecord = await prisma.shop.findUnique({ where: { domain: session.shop } });
+  const shopifyMarkets = await loadShopifyMarkets(admin, session.shop).catch(() => null);
+  const marketSources: Record<string, string> = {};
+  MARKETS.forEach(({ value }) => {
+    const localization = shopifyMarkets && resolveMarketLocalization(shopifyMarkets, value);
+    if (localization?.shopifyMarket) {
+      marketSources[value] = `Shopify Market: ${localization.shopifyMarket.name} • ${localization.locale}`;
+    }
+  });
 
   const normalizedHistory = dashboard.history.map((entry) => ({
     ...entry,
@@ -77,7 +101,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     schedules: normalizedSchedules,
     history: normalizedHistory,
     plan: shopRecord?.plan ?? "free",
+    fixApprovalRequired: Boolean(shopRecord?.fixApprovalRequired),
     shop: session.shop,
+    suggestedMarkets: shopifyMarkets
+      ? suggestComplianceMarkets(shopifyMarkets).filter((market) => MARKETS.some((option) => option.value === market))
+      : [],
+    marketSources,
   });
 };
 
@@ -85,17 +114,26 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const formData = await request.formData();
   const intent = formData.get("intent")?.toString();
   const market = (formData.get("market")?.toString() ?? "uk").toLowerCase();
+  const markets = parseMarkets(formData.get("markets")?.toString());
   const productId = formData.get("productId")?.toString();
   const scanId = formData.get("scanId")?.toString();
   const frequency = formData.get("frequency")?.toString() as "daily" | "weekly" | "monthly" | undefined;
+  const forceFull = formData.get("forceFull") === "true";
+  const mode = formData.get("mode")?.toString();
 
   const { admin, session } = await authenticate.admin(request);
 
   try {
     switch (intent) {
       case "startScan": {
-        const scan = await runFullScan({ admin, shopDomain: session.shop, market });
-        return json({ scan, toast: "Scan complete" });
+        const scan = await enqueueScan({
+          shopDomain: session.shop,
+          market,
+          markets,
+          forceFull,
+          mode: isScanMode(mode) ? mode : undefined,
+        });
+        return json({ scan, toast: "Scan queued" });
       }
       case "rescanProduct": {
         if (!scanId || !productId) {
@@ -120,29 +158,33 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         return json({ error: "Unsupported action" }, { status: 400 });
     }
   } catch (error) {
+    if (error instanceof PlanLimitError) {
+      return json({ error: error.message, upgradeRequired: true }, { status: 402 });
+    }
     return json({ error: error instanceof Error ? error.message : "Request failed" }, { status: 500 });
   }
 };
 
 export default function ComplianceDashboardPage() {
-  const { scans, schedules, history, notifications, aiConnected, plan, shop } = useLoaderData<typeof loader>();
+  const { scans, schedules, history, notifications, aiConnected, plan, fixApprovalRequired, shop, suggestedMarkets, marketSources } =
+    useLoaderData<typeof loader>();
   const [scanHistory, setScanHistory] = useState(scans);
   const [selectedScanId, setSelectedScanId] = useState<string | null>(scans[0]?.id ?? null);
-  const [market, setMarket] = useState<string>(((scans[0]?.market as string) ?? "uk").toLowerCase());
+  const [scanMarkets, setScanMarkets] = useState<string[]>([((scans[0]?.market as string) ?? "uk").toLowerCase()]);
+  const [marketPopoverActive, setMarketPopoverActive] = useState(false);
+  const [forceFullRescan, setForceFullRescan] = useState(false);
+  const [scanMode, setScanMode] = useState<string>(aiConnected ? "hybrid" : "heuristic");
   const [currentPage, setCurrentPage] = useState(0);
   const [expandedHistory, setExpandedHistory] = useState<Record<string, boolean>>({});
   const [notificationPopoverOpen, setNotificationPopoverOpen] = useState(false);
   const [exportPopoverActive, setExportPopoverActive] = useState(false);
   const [scheduleState, setScheduleState] = useState(schedules);
   const [localHistory, setLocalHistory] = useState(history);
-  const [scanResults, setScanResults] = useState<Array<ComplianceFinding | null>>(scans[0]?.results ?? []);
-  const [isScanning, setIsScanning] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [progressLabel, setProgressLabel] = useState("Preparing scan…");
-  const [totalProducts, setTotalProducts] = useState(0);
-  const [currentProductIndex, setCurrentProductIndex] = useState(0);
-  const [scanCompleteState, setScanCompleteState] = useState<"idle" | "success" | "error">("idle");
-  const [lastAnimatedScanId, setLastAnimatedScanId] = useState<string | null>(null);
+  const [activeScanId, setActiveScanId] = useState<string | null>(
+    scans.find((scan) => ACTIVE_SCAN_STATUSES.includes(scan.status))?.id ?? null,
+  );
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const [scanCompleteState, setScanCompleteState] = useState<"idle" | "success" | "cancelled" | "error">("idle");
   const [workspaceOpen, setWorkspaceOpen] = useState(false);
   const [workspaceScope, setWorkspaceScope] = useState<FixScope>("all");
   const [workspaceProductId, setWorkspaceProductId] = useState<string | null>(null);
@@ -150,17 +192,22 @@ export default function ComplianceDashboardPage() {
   const [workspaceLoading, setWorkspaceLoading] = useState(false);
   const [applyAllState, setApplyAllState] = useState({ running: false, current: 0, total: 0, label: "" });
 
-  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const replayTimeoutsRef = useRef<NodeJS.Timeout[]>([]);
-
   const appBridge = useAppBridge();
 
   const runScanFetcher = useFetcher<typeof action>();
   const rescanFetcher = useFetcher<typeof action>();
   const scheduleFetcher = useFetcher<typeof action>();
   const workspaceFetcher = useFetcher<WorkspacePayload & { error?: string }>();
-
-  const isFreePlan = !plan || plan === "free";
+  const statusFetcher = useFetcher<ScanStatusResponse>();
+  const cancelFetcher = useFetcher<ScanStatusResponse>();
+  const { load: loadScanStatus } = statusFetcher;
+  const isScanning = Boolean(activeScanId);
+
+  const planLimits = PLANS[toPlanId(plan)].limits;
+  // Only the 402 response sets `upgradeRequired`; `typeof action` does not narrow to it, hence the cast.
+  const upgradeMessage = [runScanFetcher.data, scheduleFetcher.data]
+    .map((data) => (data && "upgradeRequired" in data ? (data as { error?: string }).error : undefined))
+    .find(Boolean);
   const shopNotifications = notifications;
 
   const displayedScan = useMemo(() => {
@@ -168,6 +215,8 @@ export default function ComplianceDashboardPage() {
     if (!selectedScanId) return scanHistory[0];
     return scanHistory.find((scan) => scan.id === selectedScanId) ?? scanHistory[0];
   }, [scanHistory, selectedScanId]);
+  // Fixes and schedules follow the market of the scan being viewed, not the markets picked for the next run.
+  const market = displayedScan?.market ?? scanMarkets[0] ?? "uk";
 
   const triggerToast = useCallback(
     (message?: string) => {
@@ -180,7 +229,7 @@ export default function ComplianceDashboardPage() {
 
   const finalizeScan = useCallback(
     (scan: SerializedScan, toastMessage?: string) => {
-      setScanHistory((prev) => [scan, ...prev].slice(0, 5));
+      setScanHistory((prev) => [scan, ...prev.filter((entry) => entry.id !== scan.id)].slice(0, 5));
       setSelectedScanId(scan.id);
       setCurrentPage(0);
       setLocalHistory((prev) => [
@@ -191,7 +240,6 @@ export default function ComplianceDashboardPage() {
           complianceScore: result.complianceScore ?? 0,
         })),
       ]);
-      setScanResults(scan.results);
       if (toastMessage) {
         triggerToast(toastMessage);
       }
@@ -199,25 +247,6 @@ export default function ComplianceDashboardPage() {
     [setScanHistory, setSelectedScanId, setCurrentPage, setLocalHistory, triggerToast],
   );
 
-  const clearReplayTimers = useCallback(() => {
-    replayTimeoutsRef.current.forEach((timer) => clearTimeout(timer));
-    replayTimeoutsRef.current = [];
-  }, []);
-
-  const stopProgressInterval = useCallback(() => {
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-      progressIntervalRef.current = null;
-    }
-  }, []);
-
-  useEffect(() => {
-    return () => {
-      clearReplayTimers();
-      stopProgressInterval();
-    };
-  }, [clearReplayTimers, stopProgressInterval]);
-
   useEffect(() => {
     if (workspaceFetcher.state !== "idle") {
       setWorkspaceLoading(true);
@@ -236,77 +265,78 @@ export default function ComplianceDashboardPage() {
     setWorkspacePayload(workspaceFetcher.data as WorkspacePayload);
   }, [workspaceFetcher.data, triggerToast]);
 
-  useEffect(() => {
-    if (runScanFetcher.state === "submitting" && runScanFetcher.formData?.get("intent") === "startScan") {
-      clearReplayTimers();
-      stopProgressInterval();
-      setIsScanning(true);
-      setScanCompleteState("idle");
-      setProgress(5);
-      setProgressLabel("Preparing scan…");
-      setTotalProducts(0);
-      setCurrentProductIndex(0);
-      setScanResults([]);
-
-      progressIntervalRef.current = setInterval(() => {
-        setProgress((prev) => (prev < PROGRESS_WAIT_LIMIT ? prev + 2 : prev));
-        setProgressLabel("Syncing with Shopify…");
-      }, PROGRESS_INTERVAL_MS);
-    }
-  }, [runScanFetcher.state, runScanFetcher.formData, clearReplayTimers, stopProgressInterval]);
-
   useEffect(() => {
     if (!runScanFetcher.data) return;
 
     if (runScanFetcher.data.error) {
-      stopProgressInterval();
-      clearReplayTimers();
-      setIsScanning(false);
       setScanCompleteState("error");
       triggerToast(runScanFetcher.data.error);
       return;
     }
 
     const scan = runScanFetcher.data.scan;
-    if (!scan || scan.id === lastAnimatedScanId) {
+    if (!scan || !ACTIVE_SCAN_STATUSES.includes(scan.status)) {
       return;
     }
 
-    setLastAnimatedScanId(scan.id);
-    stopProgressInterval();
-    clearReplayTimers();
-
-    const total = Math.max(scan.results.length || scan.productsScanned || 1, 1);
-    setTotalProducts(total);
-    setProgress(70);
-    setProgressLabel(`Scanning product 1 of ${total}`);
-    setCurrentProductIndex(0);
-    setScanResults(Array(total).fill(null));
-
-    const stepDelay = 420;
-    scan.results.forEach((result, index) => {
-      const timer = setTimeout(() => {
-        setScanResults((prev) => {
-          const next = [...prev];
-          next[index] = result;
-          return next;
-        });
-        setCurrentProductIndex(index);
-        setProgress(Math.min(98, Math.round(((index + 1) / total) * 100)));
-        setProgressLabel(`Scanning product ${Math.min(index + 1, total)} of ${total}`);
-      }, index * stepDelay);
-      replayTimeoutsRef.current.push(timer);
-    });
+    setActiveScanId(scan.id);
+    setScanCompleteState("idle");
+    triggerToast(runScanFetcher.data.toast);
+  }, [runScanFetcher.data, triggerToast]);
 
-    const completionTimer = setTimeout(() => {
-      setProgress(100);
-      setProgressLabel("Scan complete");
-      setIsScanning(false);
-      setScanCompleteState("success");
-      finalizeScan(scan, runScanFetcher.data.toast);
-    }, scan.results.length * stepDelay + 500);
-    replayTimeoutsRef.current.push(completionTimer);
-  }, [runScanFetcher.data, stopProgressInterval, clearReplayTimers, finalizeScan, triggerToast, lastAnimatedScanId]);
+  useEffect(() => {
+    if (!activeScanId) return;
+    const poll = () => loadScanStatus(`/api/scan/status?scanId=${activeScanId}`);
+    poll();
+    const timer = setInterval(poll, PROGRESS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [activeScanId, loadScanStatus]);
+
+  useEffect(() => {
+    const data = statusFetcher.data;
+    if (!data || !activeScanId) return;
+
+    if (data.error) {
+      setActiveScanId(null);
+      setScanProgress(null);
+      setScanCompleteState("error");
+      triggerToast(data.error);
+      return;
+    }
+
+    const progress = data.progress;
+    if (!progress || progress.id !== activeScanId) return;
+    setScanProgress(progress);
+
+    if (ACTIVE_SCAN_STATUSES.includes(progress.status)) return;
+
+    setActiveScanId(null);
+    setScanProgress(null);
+    if (progress.status === "failed") {
+      setScanCompleteState("error");
+      triggerToast(progress.errorMessage ?? "Scan failed");
+      return;
+    }
+
+    setScanCompleteState(progress.status === "cancelled" ? "cancelled" : "success");
+    if (data.marketScans) {
+      // Added last-first so the first market ends up selected.
+      [...data.marketScans].reverse().forEach((scan) => finalizeScan(scan));
+      triggerToast(
+        `${progress.status === "cancelled" ? "Scan cancelled" : "Scan complete"} for ${data.marketScans.length} markets. See the Market matrix for a side-by-side view.`,
+      );
+    } else if (data.scan) {
+      finalizeScan(data.scan, progress.status === "cancelled" ? "Scan cancelled" : "Scan complete");
+    }
+  }, [statusFetcher.data, activeScanId, finalizeScan, triggerToast]);
+
+  const handleCancelScan = useCallback(() => {
+    if (!activeScanId) return;
+    const formData = new FormData();
+    formData.append("intent", "cancel");
+    formData.append("scanId", activeScanId);
+    cancelFetcher.submit(formData, { method: "post", action: "/api/scan/status" });
+  }, [activeScanId, cancelFetcher]);
 
   useEffect(() => {
     if (rescanFetcher.state === "idle" && rescanFetcher.data?.scan) {
@@ -328,15 +358,7 @@ export default function ComplianceDashboardPage() {
   const summaryMetrics = useMemo(() => buildSummary(scanHistory), [scanHistory]);
   const historyByProduct = useMemo(() => groupHistory(localHistory), [localHistory]);
 
-  const activeResults = useMemo(() => {
-    if (isScanning) {
-      return scanResults.filter(Boolean) as ComplianceFinding[];
-    }
-    if (displayedScan) {
-      return displayedScan.results;
-    }
-    return [];
-  }, [isScanning, scanResults, displayedScan]);
+  const activeResults = useMemo(() => displayedScan?.results ?? [], [displayedScan]);
 
   const visibleResults = useMemo(() => {
     const start = currentPage * RESULTS_PER_PAGE;
@@ -344,7 +366,9 @@ export default function ComplianceDashboardPage() {
   }, [activeResults, currentPage]);
 
   const scanHistoryOptions = scanHistory.map((scan) => ({
-    label: `${scan.market.toUpperCase()} • ${formatTimestamp(scan.completedAt ?? scan.startedAt)}`,
+    label: `${scan.market.toUpperCase()} • ${formatScanMode(scan.mode)} • ${formatTimestamp(scan.completedAt ?? scan.startedAt)}${
+      scan.status === "complete" ? "" : ` • ${scan.status}`
+    }`,
     value: scan.id,
   }));
 
@@ -355,12 +379,12 @@ export default function ComplianceDashboardPage() {
   );
 
   const exportButton = (
-    <Button disclosure onClick={() => setExportPopoverActive((prev) => !prev)} disabled={!displayedScan || isFreePlan}>
+    <Button disclosure onClick={() => setExportPopoverActive((prev) => !prev)} disabled={!displayedScan || !planLimits.exports}>
       Export Report
     </Button>
   );
 
-  const exportActivator = isFreePlan ? (
+  const exportActivator = !planLimits.exports ? (
     <PolarisTooltip content="Upgrade required" dismissOnMouseOut>
       <span>{exportButton}</span>
     </PolarisTooltip>
@@ -369,7 +393,7 @@ export default function ComplianceDashboardPage() {
   );
 
   const exportPopover = (
-    <Popover active={exportPopoverActive && !isFreePlan && Boolean(displayedScan)} onClose={() => setExportPopoverActive(false)} activator={exportActivator}>
+    <Popover active={exportPopoverActive && planLimits.exports && Boolean(displayedScan)} onClose={() => setExportPopoverActive(false)} activator={exportActivator}>
       <ActionList
         items={[{ content: "Export CSV", onAction: () => handleExport(displayedScan, "csv") }, { content: "Export PDF", onAction: () => handleExport(displayedScan, "pdf") }]}
       />
@@ -470,8 +494,22 @@ export default function ComplianceDashboardPage() {
           scanId: displayedScan?.id,
           scope: workspaceScope,
         });
-        updateWorkspaceIssue(issue.id, (current) => ({ ...current, status: result.success ? "applied" : current.status, errorMessage: result.error }));
-        triggerToast(result.success ? "Fix applied" : result.error);
+        const nextStatus = result.proposed ? "proposed" : result.success ? "applied" : undefined;
+        updateWorkspaceIssue(issue.id, (current) => ({
+          ...current,
+          status: nextStatus ?? current.status,
+          errorMessage: result.error,
+          previewUrl: result.previewUrl ?? current.previewUrl,
+        }));
+        triggerToast(
+          result.proposed
+            ? "Fix submitted for approval"
+            : result.previewUrl
+              ? "Fix applied to the draft theme"
+              : result.success
+                ? "Fix applied"
+                : result.error,
+        );
         return result;
       } catch (error) {
         const message = error instanceof Error ? error.message : "Failed to apply fix";
@@ -507,7 +545,7 @@ export default function ComplianceDashboardPage() {
 
   const handleApplyAllWorkspaceIssues = useCallback(async () => {
     if (!workspacePayload || !workspaceProductId) return;
-    const pendingIssues = workspacePayload.issues.filter((issue) => issue.status !== "applied");
+    const pendingIssues = workspacePayload.issues.filter((issue) => issue.status !== "applied" && issue.status !== "proposed");
     if (!pendingIssues.length) {
       triggerToast("All issues are already resolved");
       return;
@@ -518,18 +556,23 @@ export default function ComplianceDashboardPage() {
         running: true,
         current: index,
         total: pendingIssues.length,
-        label: `Applying fix ${index + 1} of ${pendingIssues.length}…`,
+        label: `${fixApprovalRequired ? "Submitting" : "Applying"} fix ${index + 1} of ${pendingIssues.length}…`,
       });
       await handleApplyWorkspaceIssue(pendingIssues[index]);
       setApplyAllState({
         running: true,
         current: index + 1,
         total: pendingIssues.length,
-        label: `Applying fix ${index + 1} of ${pendingIssues.length}…`,
+        label: `${fixApprovalRequired ? "Submitting" : "Applying"} fix ${index + 1} of ${pendingIssues.length}…`,
       });
     }
-    setApplyAllState({ running: false, current: pendingIssues.length, total: pendingIssues.length, label: "All fixes applied" });
-  }, [workspacePayload, workspaceProductId, handleApplyWorkspaceIssue, triggerToast]);
+    setApplyAllState({
+      running: false,
+      current: pendingIssues.length,
+      total: pendingIssues.length,
+      label: fixApprovalRequired ? "All fixes submitted for approval" : "All fixes applied",
+    });
+  }, [workspacePayload, workspaceProductId, handleApplyWorkspaceIssue, triggerToast, fixApprovalRequired]);
 
   const closeWorkspace = useCallback(() => {
     setWorkspaceOpen(false);
@@ -537,11 +580,17 @@ export default function ComplianceDashboardPage() {
     setWorkspaceProductId(null);
   }, []);
 
+  const progressPercent = scanProgress?.progressTotal
+    ? Math.min(100, Math.round((scanProgress.progressDone / scanProgress.progressTotal) * 100))
+    : 0;
+  const progressLabel = describeScanProgress(scanProgress);
+
   const estimatedSecondsLeft = useMemo(() => {
-    if (!isScanning || !totalProducts) return null;
-    const remaining = Math.max(totalProducts - currentProductIndex - 1, 0);
-    return Math.ceil(remaining * 0.6);
-  }, [isScanning, totalProducts, currentProductIndex]);
+    if (!scanProgress?.progressTotal || !scanProgress.progressDone) return null;
+    const elapsedMs = Date.now() - new Date(scanProgress.startedAt).getTime();
+    const remaining = Math.max(scanProgress.progressTotal - scanProgress.progressDone, 0);
+    return Math.ceil(((elapsedMs / scanProgress.progressDone) * remaining) / 1000);
+  }, [scanProgress]);
 
   return (
     <Layout>
@@ -592,13 +641,58 @@ export default function ComplianceDashboardPage() {
             <InlineStack gap="200" wrap blockAlign="center">
               <runScanFetcher.Form method="post">
                 <input type="hidden" name="intent" value="startScan" />
-                <input type="hidden" name="market" value={market} />
-                <Button primary submit disabled={runScanFetcher.state !== "idle"} icon={RefreshIcon}>
-                  {runScanFetcher.state !== "idle" ? "Scanning…" : "Rescan all products"}
+                <input type="hidden" name="market" value={scanMarkets[0] ?? market} />
+                <input type="hidden" name="markets" value={scanMarkets.join(",")} />
+                <input type="hidden" name="forceFull" value={String(forceFullRescan)} />
+                <input type="hidden" name="mode" value={scanMode} />
+                <Button primary submit disabled={runScanFetcher.state !== "idle" || isScanning} icon={RefreshIcon}>
+                  {runScanFetcher.state !== "idle" || isScanning ? "Scanning…" : "Rescan all products"}
                 </Button>
               </runScanFetcher.Form>
-              <Select labelHidden label="Market" options={MARKETS} value={market} onChange={(value) => setMarket(value)} />
-              {isFreePlan ? (
+              <Popover
+                active={marketPopoverActive}
+                onClose={() => setMarketPopoverActive(false)}
+                activator={
+                  <Button disclosure onClick={() => setMarketPopoverActive((prev) => !prev)}>
+                    {`Markets: ${scanMarkets.map((value) => value.toUpperCase()).join(", ")}`}
+                  </Button>
+                }
+              >
+                <Box padding="300" minWidth="240px">
+                  <BlockStack gap="300">
+                    <ChoiceList
+                      allowMultiple
+                      title="Markets"
+                      titleHidden
+                      choices={MARKETS.map((option) => ({ ...option, helpText: marketSources[option.value] }))}
+                      selected={scanMarkets}
+                      onChange={(selected) => selected.length && setScanMarkets(selected)}
+                    />
+                    {suggestedMarkets.length > 0 && (
+                      <Button variant="plain" onClick={() => setScanMarkets(suggestedMarkets)}>
+                        Match my Shopify Markets
+                      </Button>
+                    )}
+                  </BlockStack>
+                </Box>
+              </Popover>
+              <Select
+                labelHidden
+                label="Scan mode"
+                options={SCAN_MODE_OPTIONS.map((option) => ({
+                  ...option,
+                  disabled: option.value !== "heuristic" && !aiConnected,
+                }))}
+                value={scanMode}
+                onChange={(value) => setScanMode(value)}
+              />
+              <Checkbox
+                label="Force full rescan"
+                helpText="Re-analyze products even if they have not changed since the last scan"
+                checked={forceFullRescan}
+                onChange={setForceFullRescan}
+              />
+              {!planLimits.autoFix ? (
                 <PolarisTooltip content="Upgrade required" dismissOnMouseOut>
                   <span>
                     <Button disabled>Launch AI Fix Workspace</Button>
@@ -622,10 +716,19 @@ export default function ComplianceDashboardPage() {
         </Box>
       </Layout.Section>
 
+      {upgradeMessage && (
+        <Layout.Section>
+          <Banner tone="warning" title="Plan limit reached" action={{ content: "View plans", url: "/app/billing" }}>
+            {upgradeMessage}
+          </Banner>
+        </Layout.Section>
+      )}
+
       {!aiConnected && (
         <Layout.Section>
-          <Banner status="critical" title="AI connection failed">
-            We could not reach OpenAI. Double-check your OPENAI_API_KEY and retry.
+          <Banner status="warning" title="AI provider unavailable">
+            We could not reach the configured AI provider, so only heuristic scans can run. Check the provider
+            settings and retry.
           </Banner>
         </Layout.Section>
       )}
@@ -638,13 +741,22 @@ export default function ComplianceDashboardPage() {
                 <Stack vertical spacing="300">
                   <InlineStack align="space-between" blockAlign="center">
                     <Text variant="bodyMd">{progressLabel}</Text>
-                    <Text tone="subdued">{progress}%</Text>
+                    <InlineStack gap="200" blockAlign="center">
+                      <Text tone="subdued">{progressPercent}%</Text>
+                      <Button
+                        size="slim"
+                        onClick={handleCancelScan}
+                        disabled={scanProgress?.cancelRequested || cancelFetcher.state !== "idle"}
+                      >
+                        {scanProgress?.cancelRequested ? "Cancelling…" : "Cancel scan"}
+                      </Button>
+                    </InlineStack>
                   </InlineStack>
-                  <ProgressBar progress={progress} size="small" tone="primary" />
-                  {totalProducts > 0 && (
+                  <ProgressBar progress={progressPercent} size="small" tone="primary" />
+                  {Boolean(scanProgress?.progressTotal) && (
                     <InlineStack gap="200" blockAlign="center">
-                      <Text tone="subdued">
-                        Scanning product {Math.min(currentProductIndex + 1, totalProducts)} of {totalProducts}
+                      <Text as="span" tone="subdued">
+                        {scanProgress?.progressDone} of {scanProgress?.progressTotal} products analyzed
                       </Text>
                       {estimatedSecondsLeft !== null && <Text tone="subdued">Estimated time left {estimatedSecondsLeft}s</Text>}
                     </InlineStack>
@@ -664,6 +776,16 @@ export default function ComplianceDashboardPage() {
             </Card>
           </motion.div>
         )}
+        {!isScanning && scanCompleteState === "cancelled" && (
+          <motion.div key="scan-cancelled" initial={{ opacity: 0, y: -5 }} animate={{ opacity: 1, y: 0 }}>
+            <Card background="bg-surface-secondary">
+              <InlineStack gap="200" blockAlign="center">
+                <Icon source={AlertCircleIcon} tone="warning" />
+                <Text as="p">Scan cancelled — partial results saved below.</Text>
+              </InlineStack>
+            </Card>
+          </motion.div>
+        )}
         {!isScanning && scanCompleteState === "error" && (
           <motion.div key="scan-error" initial={{ opacity: 0, y: -5 }} animate={{ opacity: 1, y: 0 }}>
             <Card subdued>
@@ -692,7 +814,13 @@ export default function ComplianceDashboardPage() {
             <InlineStack align="space-between" blockAlign="center">
               <Text tone="subdued">
                 {displayedScan
-                  ? `Completed ${formatTimestamp(displayedScan.completedAt ?? displayedScan.startedAt)} • Market ${displayedScan.market.toUpperCase()}`
+                  ? `Completed ${formatTimestamp(displayedScan.completedAt ?? displayedScan.startedAt)} • Market ${displayedScan.market.toUpperCase()} • ${formatScanMode(displayedScan.mode)} scan${
+                      displayedScan.productsReused ? ` • ${displayedScan.productsReused} unchanged products reused` : ""
+                    }${
+                      displayedScan.productsSkipped
+                        ? ` • ${displayedScan.productsSkipped} products not scanned (plan limit)`
+                        : ""
+                    }${displayedScan.policyPackVersion ? ` • Policy pack ${displayedScan.policyPackVersion}` : ""}`
                   : "No scans yet."}
               </Text>
               {activeResults.length > RESULTS_PER_PAGE && (
@@ -746,7 +874,7 @@ export default function ComplianceDashboardPage() {
                   rescanFetcher.submit(formData, { method: "post" });
                 }}
                 onSchedule={(frequency) => handleSchedule(result.productId, frequency)}
-                isFreePlan={isFreePlan}
+                schedulingLocked={!planLimits.scheduledScans}
               />
             ))}
           </Stack>
@@ -763,6 +891,7 @@ export default function ComplianceDashboardPage() {
         scope={workspaceScope}
         payload={workspacePayload}
         shopDomain={shop}
+        approvalRequired={fixApprovalRequired}
         onClose={closeWorkspace}
         onScopeChange={handleWorkspaceScopeChange}
         onApplyIssue={handleApplyWorkspaceIssue}
@@ -823,18 +952,24 @@ function ProductResultCard({
   onOpenWorkspace,
   onRescan,
   onSchedule,
-  isFreePlan,
+  schedulingLocked,
 }: {
   shopDomain: string;
   result: ComplianceFinding;
   history: { scannedAt: string; complianceScore: number }[];
-  schedule?: { productId: string; frequency: string; nextRun: string | Date | null };
+  schedule?: {
+    productId: string;
+    frequency: string;
+    nextRun: string | Date | null;
+    lastStatus?: string | null;
+    lastError?: string | null;
+  };
   expanded: boolean;
   toggleExpanded: () => void;
   onOpenWorkspace: () => void;
   onRescan: () => void;
   onSchedule: (frequency: "daily" | "weekly" | "monthly") => void;
-  isFreePlan: boolean;
+  schedulingLocked: boolean;
 }) {
   const hasViolations = result.violations.length > 0;
   const highestSeverity = getHighestSeverity(result.violations);
@@ -873,6 +1008,9 @@ function ProductResultCard({
                   </Text>
                 )}
                 <Badge tone="subdued">Market: {result.market.toUpperCase()}</Badge>
+                {(result.language ?? result.locale) && (
+                  <Badge tone="info">{`Language: ${(result.language ?? result.locale ?? "").toUpperCase()}`}</Badge>
+                )}
                 <Badge tone={complianceTone}>Score {result.complianceScore}%</Badge>
               </InlineStack>
               <Text tone="subdued">{shopDomain}</Text>
@@ -896,6 +1034,8 @@ function ProductResultCard({
           <Banner status="success" title="✅ Clean — No issues detected" />
         )}
 
+        {hasViolations && <FlaggedProductText result={result} />}
+
         {hasViolations && (
           <Stack vertical spacing="200">
             {result.violations.map((violation, index) => (
@@ -904,6 +1044,8 @@ function ProductResultCard({
                   <InlineStack gap="200" blockAlign="center">
                     <Badge tone={severityTone(violation.severity)}>{violation.severity}</Badge>
                     <Badge tone={riskTone(violation.riskScore)}>Risk {formatRisk(violation.riskScore)}</Badge>
+                    {violation.source && <Badge tone="info">{formatScanMode(violation.source)}</Badge>}
+                    {violation.field && <Badge>{formatEvidenceField(violation.field)}</Badge>}
                   </InlineStack>
                   {violation.sourceUrl && (
                     <Link url={violation.sourceUrl} target="_blank">
@@ -917,6 +1059,34 @@ function ProductResultCard({
                 <Text tone="subdued" as="p">
                   {violation.issue}
                 </Text>
+                {violation.image && (
+                  <InlineStack gap="300" blockAlign="center" wrap={false}>
+                    <Thumbnail source={violation.image.url} alt={violation.image.alt ?? result.productTitle} size="small" />
+                    <BlockStack gap="050">
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        {`Alt text: ${violation.image.alt?.trim() || "none"}`}
+                      </Text>
+                      {violation.image.suggestedAlt && (
+                        <Text as="p" variant="bodySm">
+                          {`Suggested alt text: ${violation.image.suggestedAlt}`}
+                        </Text>
+                      )}
+                    </BlockStack>
+                  </InlineStack>
+                )}
+                {(violation.evidence ?? []).map((evidence, evidenceIndex) => {
+                  const fieldText = getEvidenceFieldText(result, evidence.field);
+                  return (
+                    <Text as="p" variant="bodySm" key={`${result.productId}-violation-${index}-evidence-${evidenceIndex}`}>
+                      <strong>{formatEvidenceField(evidence.field)}:</strong>{" "}
+                      <HighlightedText
+                        segments={
+                          fieldText ? buildExcerpt(fieldText, evidence) : [{ text: evidence.snippet, highlighted: true }]
+                        }
+                      />
+                    </Text>
+                  );
+                })}
                 <Text as="p">
                   <strong>AI guidance:</strong> {violation.suggestion}
                 </Text>
@@ -942,11 +1112,16 @@ function ProductResultCard({
               value={schedule?.frequency ?? ""}
               placeholder="Schedule"
               onChange={(value) => onSchedule(value as "daily" | "weekly" | "monthly")}
-              disabled={isFreePlan}
+              disabled={schedulingLocked}
             />
             {schedule?.nextRun && (
               <Text tone="subdued">Next run {formatTimestamp(schedule.nextRun)}</Text>
             )}
+            {schedule?.lastStatus === "failed" && (
+              <PolarisTooltip content={schedule.lastError ?? "Scheduled rescan failed"}>
+                <Text as="span" tone="critical">Last run failed</Text>
+              </PolarisTooltip>
+            )}
           </InlineStack>
         </InlineStack>
 
@@ -982,6 +1157,70 @@ function ProductResultCard({
   );
 }
 
+function FlaggedProductText({ result }: { result: ComplianceFinding }) {
+  const spansByField = new Map<string, { start: number; end: number }[]>();
+  result.violations.forEach((violation) => {
+    (violation.evidence ?? []).forEach((evidence) => {
+      spansByField.set(evidence.field, [...(spansByField.get(evidence.field) ?? []), evidence]);
+    });
+  });
+  if (!spansByField.size) return null;
+
+  const fields = Array.from(spansByField.keys()).sort((a, b) => fieldOrder(a) - fieldOrder(b));
+
+  return (
+    <Box padding="300" borderRadius="300" background="bg-surface-secondary">
+      <Stack vertical spacing="tight">
+        <Text as="h4" variant="headingXs">
+          Flagged text
+        </Text>
+        {fields.map((field) => {
+          const text = getEvidenceFieldText(result, field);
+          if (!text) return null;
+          return (
+            <div key={`${result.productId}-flagged-${field}`} style={{ maxHeight: 160, overflowY: "auto" }}>
+              <Text as="p" variant="bodySm" tone="subdued">
+                {formatEvidenceField(field)}
+              </Text>
+              <Text as="p">
+                <HighlightedText segments={splitHighlights(text, spansByField.get(field) ?? [])} />
+              </Text>
+            </div>
+          );
+        })}
+      </Stack>
+    </Box>
+  );
+}
+
+function HighlightedText({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} style={{ background: "#ffd79d", borderRadius: 2, padding: "0 1px" }}>
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+function getEvidenceFieldText(result: ComplianceFinding, field: string) {
+  if (field === "title") return result.productTitle;
+  if (field === "description") return result.originalDescription;
+  return result.fieldTexts?.[field];
+}
+
+function fieldOrder(field: string) {
+  const order = ["title", "description", "seo:title", "seo:description", "variants", "options", "imageAlt", "image", "vendor", "productType", "tags"];
+  const index = order.indexOf(field);
+  return index >= 0 ? index : order.length;
+}
+
 function ProductHistorySparkline({
   data,
 }: {
@@ -1012,12 +1251,10 @@ function ProductHistorySparkline({
   );
 }
 
-const MARKETS = [
-  { label: "United Kingdom", value: "uk" },
-  { label: "United States", value: "us" },
-  { label: "European Union", value: "eu" },
-  { label: "Australia", value: "au" },
-  { label: "Canada", value: "ca" },
+const SCAN_MODE_OPTIONS = [
+  { label: "Hybrid (rules + AI)", value: "hybrid" },
+  { label: "Heuristic only (offline)", value: "heuristic" },
+  { label: "AI only", value: "ai" },
 ];
 
 const SCHEDULE_OPTIONS = [
@@ -1026,11 +1263,26 @@ const SCHEDULE_OPTIONS = [
   { label: "Monthly", value: "monthly" },
 ];
 
+function describeScanProgress(progress: ScanProgress | null) {
+  if (!progress || progress.status === "queued") return "Waiting for a scan worker…";
+  if (progress.cancelRequested) return "Cancelling scan…";
+  if (!progress.progressTotal) return "Syncing with Shopify…";
+  if (progress.currentProduct) return `Analyzed ${progress.currentProduct}`;
+  if (progress.markets.length > 1) return `Scanning product 1 of ${progress.progressTotal} across ${progress.markets.length} markets`;
+  return `Scanning product 1 of ${progress.progressTotal}`;
+}
+
 function formatTimestamp(value: string | Date | null) {
   if (!value) return "Unknown";
   return new Date(value).toLocaleString();
 }
 
+function formatScanMode(mode: string | null | undefined) {
+  if (mode === "heuristic") return "Heuristic";
+  if (mode === "ai") return "AI";
+  return "Hybrid";
+}
+
 function formatRelative(value: string) {
   const diff = Date.now() - new Date(value).getTime();
   const mins = Math.round(diff / 60000);
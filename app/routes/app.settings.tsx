@@ -1,6 +1,199 @@
-import { useOutletContext } from "@remix-run/react";
-import { Card, Layout, Text } from "@shopify/polaris";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useCallback, useEffect, useState } from "react";
+import { useFetcher, useLoaderData, useOutletContext } from "@remix-run/react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Button,
+  Card,
+  Checkbox,
+  Divider,
+  FormLayout,
+  InlineStack,
+  Layout,
+  ProgressBar,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
 import type { AppContext } from "./app";
+import prisma from "../db.server";
+import { authenticate } from "../shopify.server";
+import { listLlmProviders, setShopLlmProvider } from "../utils/llm.server";
+import {
+  type AiBudget,
+  type AiBudgetAction,
+  type AiMonthlyUsage,
+  type AiScanUsage,
+  type AiUsageTotals,
+  getAiBudget,
+  getMonthlyUsage,
+  getRecentScanUsage,
+  getUsageHistory,
+  saveAiBudget,
+} from "../models/aiUsage.server";
+import {
+  type StaffMember,
+  type StaffRole,
+  listStaff,
+  registerStaffUser,
+  requireStaffUserId,
+  resolveStaffUserId,
+  setFixApprovalRequired,
+  setStaffRole,
+} from "../models/fixApproval.server";
+import {
+  type AllowListEntry,
+  addAllowListEntry,
+  deleteAllowListEntry,
+  deleteCustomRule,
+  listAllowList,
+  listCustomRules,
+  saveCustomRule,
+} from "../models/shopPolicy.server";
+import type { PolicyRule } from "../data/policyKeywords";
+
+type ActionResponse = { ok?: boolean; error?: string };
+
+type CustomRuleView = {
+  id: string;
+  market: string;
+  category: string;
+  severity: PolicyRule["severity"];
+  description: string;
+  keywords: string[];
+  patterns: string[];
+  enabled: boolean;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const userId = resolveStaffUserId({ session, sessionToken });
+  if (userId) {
+    await registerStaffUser(session.shop, userId);
+  }
+  const [records, allowList, shopRecord, aiBudget, aiUsage, aiUsageHistory, aiScanUsage, staff] = await Promise.all([
+    listCustomRules(session.shop),
+    listAllowList(session.shop),
+    prisma.shop.findUnique({
+      where: { domain: session.shop },
+      select: { llmProvider: true, fixApprovalRequired: true },
+    }),
+    getAiBudget(session.shop),
+    getMonthlyUsage(session.shop),
+    getUsageHistory(session.shop),
+    getRecentScanUsage(session.shop),
+    listStaff(session.shop),
+  ]);
+  const rules: CustomRuleView[] = records.map((rule: any) => ({
+    id: rule.id,
+    market: rule.market,
+    category: rule.category,
+    severity: rule.severity,
+    description: rule.description,
+    keywords: (rule.keywords as string[] | null) ?? [],
+    patterns: (rule.patterns as string[] | null) ?? [],
+    enabled: Boolean(rule.enabled),
+  }));
+
+  return json({
+    rules,
+    allowList: allowList as AllowListEntry[],
+    llmProviders: listLlmProviders(),
+    llmProvider: (shopRecord?.llmProvider as string | null) ?? "",
+    aiBudget: aiBudget as AiBudget,
+    aiUsage: aiUsage as AiUsageTotals,
+    aiUsageHistory: aiUsageHistory as AiMonthlyUsage[],
+    aiScanUsage: aiScanUsage as AiScanUsage[],
+    fixApprovalRequired: Boolean(shopRecord?.fixApprovalRequired),
+    staff: staff as StaffMember[],
+    currentUserId: userId,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent")?.toString();
+  const id = formData.get("id")?.toString();
+
+  try {
+    switch (intent) {
+      case "saveRule": {
+        await saveCustomRule(session.shop, {
+          id: id || undefined,
+          market: formData.get("market")?.toString() ?? "all",
+          category: formData.get("category")?.toString() ?? "",
+          severity: (formData.get("severity")?.toString() ?? "medium") as PolicyRule["severity"],
+          description: formData.get("description")?.toString() ?? "",
+          keywords: splitList(formData.get("keywords")?.toString(), /[,\n]/),
+          patterns: splitList(formData.get("patterns")?.toString(), /\n/),
+          enabled: formData.get("enabled") !== "false",
+        });
+        return json<ActionResponse>({ ok: true });
+      }
+      case "deleteRule": {
+        if (!id) throw new Error("Missing rule");
+        await deleteCustomRule(session.shop, id);
+        return json<ActionResponse>({ ok: true });
+      }
+      case "addAllowTerm": {
+        await addAllowListEntry(session.shop, {
+          term: formData.get("term")?.toString() ?? "",
+          scope: formData.get("scope")?.toString() ?? "global",
+          targetId: formData.get("targetId")?.toString() || null,
+          targetLabel: formData.get("targetLabel")?.toString() || null,
+          note: formData.get("note")?.toString() || null,
+        });
+        return json<ActionResponse>({ ok: true });
+      }
+      case "setLlmProvider": {
+        await setShopLlmProvider(session.shop, formData.get("provider")?.toString() || null);
+        return json<ActionResponse>({ ok: true });
+      }
+      case "saveAiBudget": {
+        await saveAiBudget(session.shop, {
+          tokenBudget: parseOptionalNumber(formData.get("tokenBudget")?.toString()),
+          costBudget: parseOptionalNumber(formData.get("costBudget")?.toString()),
+          action: (formData.get("budgetAction")?.toString() ?? "downgrade") as AiBudgetAction,
+        });
+        return json<ActionResponse>({ ok: true });
+      }
+      case "setFixApproval": {
+        await setFixApprovalRequired({
+          shopDomain: session.shop,
+          userId: requireStaffUserId({ session, sessionToken }),
+          required: formData.get("required") === "true",
+        });
+        return json<ActionResponse>({ ok: true });
+      }
+      case "setStaffRole": {
+        await setStaffRole({
+          shopDomain: session.shop,
+          actingUserId: requireStaffUserId({ session, sessionToken }),
+          userId: formData.get("userId")?.toString() ?? "",
+          role: (formData.get("role")?.toString() ?? "staff") as StaffRole,
+        });
+        return json<ActionResponse>({ ok: true });
+      }
+      case "deleteAllowTerm": {
+        if (!id) throw new Error("Missing allow-list entry");
+        await deleteAllowListEntry(session.shop, id);
+        return json<ActionResponse>({ ok: true });
+      }
+      default:
+        return json<ActionResponse>({ error: "Unsupported action" }, { status: 400 });
+    }
+  } catch (error) {
+    return json<ActionResponse>(
+      { error: error instanceof Error ? error.message : "Request failed" },
+      { status: 400 },
+    );
+  }
+};
 
 export default function AppSettingsPage() {
   const { shop } = useOutletContext<AppContext>();
@@ -20,6 +213,21 @@ export default function AppSettingsPage() {
           </Card.Section>
         </Card>
       </Layout.Section>
+      <Layout.Section>
+        <AiProviderCard />
+      </Layout.Section>
+      <Layout.Section>
+        <AiUsageCard />
+      </Layout.Section>
+      <Layout.Section>
+        <FixApprovalCard />
+      </Layout.Section>
+      <Layout.Section>
+        <CustomRulesCard />
+      </Layout.Section>
+      <Layout.Section>
+        <AllowListCard />
+      </Layout.Section>
       <Layout.Section>
         <Card>
           <Card.Section>
@@ -35,3 +243,535 @@ export default function AppSettingsPage() {
     </Layout>
   );
 }
+
+function AiProviderCard() {
+  const { llmProviders, llmProvider } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<ActionResponse>();
+  const defaultProvider = llmProviders.find((provider) => provider.isDefault);
+  const options = [
+    { label: `Server default (${defaultProvider?.label ?? "OpenAI"})`, value: "" },
+    ...llmProviders.map((provider) => ({
+      label: provider.configured ? provider.label : `${provider.label} (not configured)`,
+      value: provider.id,
+      disabled: !provider.configured,
+    })),
+  ];
+
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <BlockStack gap="100">
+          <Text variant="headingMd" as="h2">
+            AI provider
+          </Text>
+          <Text as="p" tone="subdued">
+            Choose which model reviews your products and drafts fixes. Pick the local provider to keep product data
+            on infrastructure you control.
+          </Text>
+        </BlockStack>
+        {fetcher.data?.error && <Banner tone="critical">{fetcher.data.error}</Banner>}
+        <Select
+          label="Provider"
+          options={options}
+          value={(fetcher.formData?.get("provider") as string | null) ?? llmProvider}
+          onChange={(value) => fetcher.submit({ intent: "setLlmProvider", provider: value }, { method: "post" })}
+        />
+      </BlockStack>
+    </Card>
+  );
+}
+
+function AiUsageCard() {
+  const { aiBudget, aiUsage, aiUsageHistory, aiScanUsage } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<ActionResponse>();
+  const [tokenBudget, setTokenBudget] = useState(aiBudget.tokenBudget?.toString() ?? "");
+  const [costBudget, setCostBudget] = useState(aiBudget.costBudget?.toString() ?? "");
+  const [budgetAction, setBudgetAction] = useState<string>(aiBudget.action);
+
+  const usedShare = Math.max(
+    aiBudget.tokenBudget ? aiUsage.totalTokens / aiBudget.tokenBudget : 0,
+    aiBudget.costBudget ? aiUsage.costUsd / aiBudget.costBudget : 0,
+  );
+
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <BlockStack gap="100">
+          <Text variant="headingMd" as="h2">
+            AI usage
+          </Text>
+          <Text as="p" tone="subdued">
+            Tokens and estimated cost for scans and fixes this month. Budgets reset on the first of each month (UTC).
+          </Text>
+        </BlockStack>
+        <InlineStack gap="400">
+          <Text as="p">
+            <strong>{formatNumber(aiUsage.totalTokens)}</strong> tokens
+          </Text>
+          <Text as="p">
+            <strong>{formatUsd(aiUsage.costUsd)}</strong> estimated
+          </Text>
+          <Text as="p">
+            <strong>{aiUsage.calls}</strong> AI calls
+          </Text>
+        </InlineStack>
+        {(aiBudget.tokenBudget || aiBudget.costBudget) && (
+          <BlockStack gap="100">
+            <ProgressBar
+              progress={Math.min(100, Math.round(usedShare * 100))}
+              size="small"
+              tone={usedShare >= 1 ? "critical" : "primary"}
+            />
+            <Text as="p" variant="bodySm" tone="subdued">
+              {Math.round(usedShare * 100)}% of this month&apos;s budget used
+            </Text>
+          </BlockStack>
+        )}
+        {fetcher.data?.error && <Banner tone="critical">{fetcher.data.error}</Banner>}
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="saveAiBudget" />
+          <input type="hidden" name="budgetAction" value={budgetAction} />
+          <FormLayout>
+            <FormLayout.Group>
+              <TextField
+                label="Monthly token budget"
+                name="tokenBudget"
+                type="number"
+                min={0}
+                value={tokenBudget}
+                onChange={setTokenBudget}
+                helpText="Leave empty for no limit"
+                autoComplete="off"
+              />
+              <TextField
+                label="Monthly cost budget (USD)"
+                name="costBudget"
+                type="number"
+                min={0}
+                step={0.01}
+                value={costBudget}
+                onChange={setCostBudget}
+                helpText="Leave empty for no limit"
+                autoComplete="off"
+              />
+            </FormLayout.Group>
+            <Select
+              label="When the budget is reached"
+              options={BUDGET_ACTION_OPTIONS}
+              value={budgetAction}
+              onChange={setBudgetAction}
+              helpText="AI fixes are paused either way until the next month."
+            />
+            <Button submit loading={fetcher.state !== "idle"}>
+              Save budget
+            </Button>
+          </FormLayout>
+        </fetcher.Form>
+        <Divider />
+        <BlockStack gap="200">
+          <Text variant="headingSm" as="h3">
+            By month
+          </Text>
+          {aiUsageHistory.map((month) => (
+            <InlineStack key={month.month} align="space-between">
+              <Text as="span">{month.month}</Text>
+              <Text as="span" tone="subdued">
+                {formatNumber(month.totalTokens)} tokens · {formatUsd(month.costUsd)} · {month.calls} calls
+              </Text>
+            </InlineStack>
+          ))}
+        </BlockStack>
+        {aiScanUsage.length > 0 && (
+          <BlockStack gap="200">
+            <Text variant="headingSm" as="h3">
+              Recent scans
+            </Text>
+            {aiScanUsage.map((scan) => (
+              <InlineStack key={scan.scanId} align="space-between">
+                <Text as="span">
+                  {scan.market?.toUpperCase() ?? "Scan"} ·{" "}
+                  {scan.startedAt ? new Date(scan.startedAt).toLocaleString() : "Unknown"}
+                </Text>
+                <Text as="span" tone="subdued">
+                  {formatNumber(scan.totalTokens)} tokens · {formatUsd(scan.costUsd)}
+                </Text>
+              </InlineStack>
+            ))}
+          </BlockStack>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
+
+function FixApprovalCard() {
+  const { fixApprovalRequired, staff, currentUserId } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<ActionResponse>();
+  const currentRole = staff.find((member) => member.userId === currentUserId)?.role;
+  const hasApprovers = staff.some((member) => member.role === "approver");
+  const canManage = currentRole === "approver" || !hasApprovers;
+  const pendingRequired = fetcher.formData?.get("intent") === "setFixApproval" ? fetcher.formData.get("required") : null;
+  const required = pendingRequired !== null ? pendingRequired === "true" : fixApprovalRequired;
+
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <BlockStack gap="100">
+          <Text variant="headingMd" as="h2">
+            Fix approvals
+          </Text>
+          <Text as="p" tone="subdued">
+            Queue fixes for review instead of applying them straight away. An approver other than the person who
+            proposed a fix must approve it before it is written to the store.
+          </Text>
+        </BlockStack>
+        {fetcher.data?.error && <Banner tone="critical">{fetcher.data.error}</Banner>}
+        <Checkbox
+          label="Require approval before fixes are applied"
+          helpText={hasApprovers ? undefined : "You will become the first approver."}
+          checked={required}
+          disabled={!canManage || !currentUserId}
+          onChange={(value) => fetcher.submit({ intent: "setFixApproval", required: String(value) }, { method: "post" })}
+        />
+        {staff.length > 0 && (
+          <BlockStack gap="200">
+            <Divider />
+            {staff.map((member) => (
+              <InlineStack key={member.userId} align="space-between" blockAlign="center">
+                <Text as="span">
+                  {member.userId === currentUserId ? `Staff #${member.userId} (you)` : `Staff #${member.userId}`}
+                </Text>
+                <Select
+                  label="Role"
+                  labelHidden
+                  options={STAFF_ROLE_OPTIONS}
+                  value={member.role}
+                  disabled={currentRole !== "approver"}
+                  onChange={(value) =>
+                    fetcher.submit({ intent: "setStaffRole", userId: member.userId, role: value }, { method: "post" })
+                  }
+                />
+              </InlineStack>
+            ))}
+          </BlockStack>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
+
+function CustomRulesCard() {
+  const { rules } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<ActionResponse>();
+  const [form, setForm] = useState(EMPTY_RULE_FORM);
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.ok) {
+      setForm(EMPTY_RULE_FORM);
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  const submitRule = useCallback(() => {
+    fetcher.submit({ intent: "saveRule", ...form }, { method: "post" });
+  }, [fetcher, form]);
+
+  const toggleRule = useCallback(
+    (rule: CustomRuleView) => {
+      fetcher.submit(
+        {
+          intent: "saveRule",
+          id: rule.id,
+          market: rule.market,
+          category: rule.category,
+          severity: rule.severity,
+          description: rule.description,
+          keywords: rule.keywords.join(", "),
+          patterns: rule.patterns.join("\n"),
+          enabled: String(!rule.enabled),
+        },
+        { method: "post" },
+      );
+    },
+    [fetcher],
+  );
+
+  const updateField = (field: keyof typeof EMPTY_RULE_FORM) => (value: string) =>
+    setForm((current) => ({ ...current, [field]: value }));
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="100">
+          <Text variant="headingMd" as="h2">
+            Custom policy rules
+          </Text>
+          <Text as="p" tone="subdued">
+            Flag extra keywords or regular expressions on every scan. A rule with the same category as a built-in rule
+            replaces it.
+          </Text>
+        </BlockStack>
+        {fetcher.data?.error && <Banner tone="critical">{fetcher.data.error}</Banner>}
+        {rules.length ? (
+          <BlockStack gap="200">
+            {rules.map((rule) => (
+              <InlineStack key={rule.id} align="space-between" blockAlign="center" wrap={false} gap="200">
+                <BlockStack gap="050">
+                  <InlineStack gap="200" blockAlign="center">
+                    <Text as="span" fontWeight="semibold">
+                      {rule.category}
+                    </Text>
+                    <Badge tone={SEVERITY_TONES[rule.severity]}>{rule.severity}</Badge>
+                    <Badge>{rule.market === "all" ? "All markets" : rule.market.toUpperCase()}</Badge>
+                    {!rule.enabled && <Badge tone="attention">Disabled</Badge>}
+                  </InlineStack>
+                  <Text as="span" tone="subdued">
+                    {[...rule.keywords, ...rule.patterns.map((pattern) => `/${pattern}/`)].join(", ")}
+                  </Text>
+                </BlockStack>
+                <InlineStack gap="200">
+                  <Button onClick={() => toggleRule(rule)}>{rule.enabled ? "Disable" : "Enable"}</Button>
+                  <Button
+                    tone="critical"
+                    variant="plain"
+                    onClick={() => fetcher.submit({ intent: "deleteRule", id: rule.id }, { method: "post" })}
+                  >
+                    Delete
+                  </Button>
+                </InlineStack>
+              </InlineStack>
+            ))}
+          </BlockStack>
+        ) : (
+          <Text as="p" tone="subdued">
+            No custom rules yet.
+          </Text>
+        )}
+        <Divider />
+        <FormLayout>
+          <FormLayout.Group>
+            <TextField label="Category" value={form.category} onChange={updateField("category")} autoComplete="off" />
+            <Select label="Severity" options={SEVERITY_OPTIONS} value={form.severity} onChange={updateField("severity")} />
+            <Select label="Market" options={RULE_MARKET_OPTIONS} value={form.market} onChange={updateField("market")} />
+          </FormLayout.Group>
+          <TextField
+            label="Description"
+            value={form.description}
+            onChange={updateField("description")}
+            autoComplete="off"
+          />
+          <TextField
+            label="Keywords"
+            helpText="Comma separated, matched case-insensitively."
+            value={form.keywords}
+            onChange={updateField("keywords")}
+            autoComplete="off"
+          />
+          <TextField
+            label="Patterns"
+            helpText="One regular expression per line, e.g. \b\d+% off\b"
+            value={form.patterns}
+            onChange={updateField("patterns")}
+            multiline={3}
+            autoComplete="off"
+          />
+          <InlineStack align="end">
+            <Button variant="primary" onClick={submitRule} loading={fetcher.state !== "idle"}>
+              Add rule
+            </Button>
+          </InlineStack>
+        </FormLayout>
+      </BlockStack>
+    </Card>
+  );
+}
+
+function AllowListCard() {
+  const { allowList } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<ActionResponse>();
+  const appBridge = useAppBridge();
+  const [term, setTerm] = useState("");
+  const [scope, setScope] = useState("global");
+  const [note, setNote] = useState("");
+  const [target, setTarget] = useState<{ id: string; label: string } | null>(null);
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.ok) {
+      setTerm("");
+      setNote("");
+      setTarget(null);
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  const pickTarget = useCallback(async () => {
+    if (scope === "global") return;
+    const selection = await appBridge.resourcePicker({ type: scope as "product" | "collection", multiple: false });
+    const picked = selection?.[0];
+    if (picked) {
+      const { id } = picked;
+      setTarget({ id, label: "title" in picked ? String(picked.title) : id });
+    }
+  }, [appBridge, scope]);
+
+  const submitEntry = useCallback(() => {
+    fetcher.submit(
+      {
+        intent: "addAllowTerm",
+        term,
+        scope,
+        note,
+        targetId: target?.id ?? "",
+        targetLabel: target?.label ?? "",
+      },
+      { method: "post" },
+    );
+  }, [fetcher, term, scope, note, target]);
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="100">
+          <Text variant="headingMd" as="h2">
+            Allow-list
+          </Text>
+          <Text as="p" tone="subdued">
+            Terms your brand uses legitimately, such as product or blend names. Allowed terms are ignored by keyword
+            checks and passed to the AI reviewer as approved wording.
+          </Text>
+        </BlockStack>
+        {fetcher.data?.error && <Banner tone="critical">{fetcher.data.error}</Banner>}
+        {allowList.length ? (
+          <BlockStack gap="200">
+            {allowList.map((entry) => (
+              <InlineStack key={entry.id} align="space-between" blockAlign="center" wrap={false} gap="200">
+                <BlockStack gap="050">
+                  <InlineStack gap="200" blockAlign="center">
+                    <Text as="span" fontWeight="semibold">
+                      {entry.term}
+                    </Text>
+                    <Badge>
+                      {entry.scope === "global" ? "All products" : `${entry.scope}: ${entry.targetLabel ?? entry.targetId}`}
+                    </Badge>
+                  </InlineStack>
+                  {entry.note && (
+                    <Text as="span" tone="subdued">
+                      {entry.note}
+                    </Text>
+                  )}
+                </BlockStack>
+                <Button
+                  tone="critical"
+                  variant="plain"
+                  onClick={() => fetcher.submit({ intent: "deleteAllowTerm", id: entry.id }, { method: "post" })}
+                >
+                  Remove
+                </Button>
+              </InlineStack>
+            ))}
+          </BlockStack>
+        ) : (
+          <Text as="p" tone="subdued">
+            Nothing is allow-listed yet.
+          </Text>
+        )}
+        <Divider />
+        <FormLayout>
+          <FormLayout.Group>
+            <TextField label="Term" value={term} onChange={setTerm} autoComplete="off" />
+            <Select
+              label="Applies to"
+              options={SCOPE_OPTIONS}
+              value={scope}
+              onChange={(value) => {
+                setScope(value);
+                setTarget(null);
+              }}
+            />
+          </FormLayout.Group>
+          {scope !== "global" && (
+            <InlineStack gap="200" blockAlign="center">
+              <Button onClick={pickTarget}>{scope === "product" ? "Choose product" : "Choose collection"}</Button>
+              <Text as="span" tone="subdued">
+                {target?.label ?? "Nothing selected"}
+              </Text>
+            </InlineStack>
+          )}
+          <TextField label="Note" value={note} onChange={setNote} autoComplete="off" />
+          <InlineStack align="end">
+            <Button variant="primary" onClick={submitEntry} loading={fetcher.state !== "idle"}>
+              Allow term
+            </Button>
+          </InlineStack>
+        </FormLayout>
+      </BlockStack>
+    </Card>
+  );
+}
+
+function splitList(value: string | undefined, separator: RegExp) {
+  return (value ?? "")
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseOptionalNumber(value: string | undefined) {
+  if (!value?.trim()) return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error(`Invalid number: ${value}`);
+  return parsed;
+}
+
+function formatNumber(value: number) {
+  return new Intl.NumberFormat().format(value);
+}
+
+function formatUsd(value: number) {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 2 }).format(value);
+}
+
+const EMPTY_RULE_FORM = {
+  category: "",
+  severity: "medium",
+  market: "all",
+  description: "",
+  keywords: "",
+  patterns: "",
+};
+
+const SEVERITY_TONES: Record<PolicyRule["severity"], "critical" | "warning" | "info"> = {
+  high: "critical",
+  medium: "warning",
+  low: "info",
+};
+
+const SEVERITY_OPTIONS = [
+  { label: "High", value: "high" },
+  { label: "Medium", value: "medium" },
+  { label: "Low", value: "low" },
+];
+
+const RULE_MARKET_OPTIONS = [
+  { label: "All markets", value: "all" },
+  { label: "United Kingdom", value: "uk" },
+  { label: "United States", value: "us" },
+  { label: "European Union", value: "eu" },
+  { label: "Germany", value: "de" },
+  { label: "Australia", value: "au" },
+  { label: "Canada", value: "ca" },
+];
+
+const SCOPE_OPTIONS = [
+  { label: "All products", value: "global" },
+  { label: "One product", value: "product" },
+  { label: "One collection", value: "collection" },
+];
+
+const BUDGET_ACTION_OPTIONS = [
+  { label: "Finish scans with heuristics only", value: "downgrade" },
+  { label: "Stop scans", value: "stop" },
+];
+
+const STAFF_ROLE_OPTIONS = [
+  { label: "Staff (can propose)", value: "staff" },
+  { label: "Approver", value: "approver" },
+];
@@ -118,7 +118,11 @@ export default function App() {
       <NavMenu>
         <a data-primary-nav-item href={linkWithParams("/app")}>Dashboard</a>
         <a data-primary-nav-item href={linkWithParams("/app/scans")}>Scans</a>
+        <a data-primary-nav-item href={linkWithParams("/app/markets")}>Market matrix</a>
+        <a data-primary-nav-item href={linkWithParams("/app/approvals")}>Approvals</a>
+        <a data-primary-nav-item href={linkWithParams("/app/fixes")}>Fix history</a>
         <a data-primary-nav-item href={linkWithParams("/app/settings")}>Settings</a>
+        <a data-primary-nav-item href={linkWithParams("/app/billing")}>Plans</a>
         <a
           data-secondary-nav-item
           href="https://aithorapp.co.uk/support"
@@ -133,7 +137,7 @@ export default function App() {
           title="Google Ads Policy & Local Laws Copilot"
           primaryAction={{
             content: "Upgrade",
-            url: linkWithParams("/app/settings"),
+            url: linkWithParams("/app/billing"),
           }}
         />
         <Page fullWidth>
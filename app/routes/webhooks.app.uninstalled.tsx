@@ -1,6 +1,7 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { markShopUninstalled } from "../models/shopData.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { shop, session, topic } = await authenticate.webhook(request);
@@ -13,5 +14,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     await db.session.deleteMany({ where: { shop } });
   }
 
+  // Scan data is kept until shop/redact arrives (or SHOP_DATA_RETENTION_DAYS passes) in case the merchant reinstalls.
+  await markShopUninstalled(shop);
+
   return new Response();
 };
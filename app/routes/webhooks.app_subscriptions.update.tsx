@@ -0,0 +1,13 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { handleSubscriptionWebhook } from "../models/billing.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload, admin } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  await handleSubscriptionWebhook(shop, payload, admin);
+
+  return new Response();
+};
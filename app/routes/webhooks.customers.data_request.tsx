@@ -0,0 +1,17 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { recordCustomerRequest } from "../models/shopData.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  await recordCustomerRequest({
+    shopDomain: shop,
+    topic: "customers/data_request",
+    customerId: payload?.customer?.id,
+  });
+
+  return new Response();
+};
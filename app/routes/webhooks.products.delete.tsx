@@ -0,0 +1,15 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { handleProductDeleted, toProductGid } from "../models/productRescan.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  if (payload?.id) {
+    await handleProductDeleted({ shopDomain: shop, productId: toProductGid(payload.id) });
+  }
+
+  return new Response();
+};
@@ -0,0 +1,17 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { queueProductRescan, toProductGid } from "../models/productRescan.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const productId = payload?.admin_graphql_api_id ?? payload?.id;
+  if (productId) {
+    // The rescan itself runs from the background worker so Shopify gets its response well within the timeout.
+    await queueProductRescan({ shopDomain: shop, productId: toProductGid(productId), topic });
+  }
+
+  return new Response();
+};
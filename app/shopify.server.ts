@@ -2,11 +2,30 @@ import "@shopify/shopify-app-remix/adapters/node";
 import {
   ApiVersion,
   AppDistribution,
+  BillingInterval,
   shopifyApp,
 } from "@shopify/shopify-app-remix/server";
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 import { restResources } from "@shopify/shopify-api/rest/admin/2025-01";
 import prisma from "./db.server";
+import { PLANS, type PlanDefinition } from "./data/plans";
+import { markShopInstalled } from "./models/shopData.server";
+
+// Each paid plan is a 30-day recurring charge plus a capped usage line for AI fixes beyond the included amount.
+function subscriptionPlan(plan: PlanDefinition) {
+  return {
+    trialDays: plan.trialDays,
+    lineItems: [
+      { amount: plan.monthlyPrice, currencyCode: "USD", interval: BillingInterval.Every30Days as const },
+      {
+        amount: plan.usageCappedAmount,
+        currencyCode: "USD",
+        interval: BillingInterval.Usage as const,
+        terms: `${plan.includedFixes} AI fixes included each month, then $${plan.usagePricePerFix.toFixed(2)} per fix`,
+      },
+    ],
+  };
+}
 
 const shopify = shopifyApp({
   apiKey: process.env.SHOPIFY_API_KEY,
@@ -21,6 +40,15 @@ const shopify = shopifyApp({
     unstable_newEmbeddedAuthStrategy: true,
   },
   restResources,
+  billing: {
+    Starter: subscriptionPlan(PLANS.starter),
+    Pro: subscriptionPlan(PLANS.pro),
+  },
+  hooks: {
+    afterAuth: async ({ session }) => {
+      await markShopInstalled(session.shop);
+    },
+  },
   ...(process.env.SHOP_CUSTOM_DOMAIN
     ? { customShopDomains: [process.env.SHOP_CUSTOM_DOMAIN] }
     : {}),
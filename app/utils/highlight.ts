@@ -0,0 +1,76 @@
+export type HighlightSpan = {
+  start: number;
+  end: number;
+};
+
+export type HighlightSegment = {
+  text: string;
+  highlighted: boolean;
+};
+
+export function mergeSpans(spans: HighlightSpan[], length: number) {
+  const sorted = spans
+    .map((span) => ({ start: Math.max(0, span.start), end: Math.min(length, span.end) }))
+    .filter((span) => span.end > span.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: HighlightSpan[] = [];
+  sorted.forEach((span) => {
+    const previous = merged[merged.length - 1];
+    if (previous && span.start <= previous.end) {
+      previous.end = Math.max(previous.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  });
+  return merged;
+}
+
+export function splitHighlights(text: string, spans: HighlightSpan[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  mergeSpans(spans, text.length).forEach((span) => {
+    if (span.start > cursor) {
+      segments.push({ text: text.slice(cursor, span.start), highlighted: false });
+    }
+    segments.push({ text: text.slice(span.start, span.end), highlighted: true });
+    cursor = span.end;
+  });
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), highlighted: false });
+  }
+  return segments;
+}
+
+/** A window of `radius` characters either side of the span, cut at word boundaries where possible. */
+export function buildExcerpt(text: string, span: HighlightSpan, radius = 60): HighlightSegment[] {
+  let from = Math.max(0, span.start - radius);
+  let to = Math.min(text.length, span.end + radius);
+  if (from > 0) {
+    const space = text.indexOf(" ", from);
+    if (space >= 0 && space < span.start) from = space + 1;
+  }
+  if (to < text.length) {
+    const space = text.lastIndexOf(" ", to);
+    if (space > span.end) to = space;
+  }
+
+  const segments = splitHighlights(text.slice(from, to), [{ start: span.start - from, end: span.end - from }]);
+  if (from > 0) segments.unshift({ text: "…", highlighted: false });
+  if (to < text.length) segments.push({ text: "…", highlighted: false });
+  return segments;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  "seo:title": "SEO title",
+  "seo:description": "SEO description",
+  imageAlt: "Image alt text",
+  productType: "Product type",
+};
+
+/** Display label for a `ViolationEvidence.field` value. */
+export function formatEvidenceField(field: string) {
+  if (field.startsWith("metafield:")) return `Metafield ${field.slice("metafield:".length)}`;
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  return field.charAt(0).toUpperCase() + field.slice(1);
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { HtmlTextMatchError, replaceHtmlText } from "./html";
+
+describe("replaceHtmlText", () => {
+  describe("inline formatting", () => {
+    test("rewrites a word inside a formatting tag and keeps the tag", () => {
+      const { html } = replaceHtmlText("<p>This <strong>miracle cure</strong> helps.</p>", "miracle cure", "herbal blend");
+      assert.equal(html, "<p>This <strong>herbal blend</strong> helps.</p>");
+    });
+
+    test("keeps formatting around words that did not change", () => {
+      const { html } = replaceHtmlText("<p>Our <em>best</em> tea cures colds.</p>", "best tea cures colds.", "best tea soothes.");
+      assert.equal(html, "<p>Our <em>best</em> tea soothes.</p>");
+    });
+
+    test("keeps a formatting tag around the words that replace its contents", () => {
+      const { html } = replaceHtmlText("<p>Tea <strong>that heals</strong> you.</p>", "Tea that heals you.", "Tea for you.");
+      assert.equal(html, "<p>Tea <strong>for</strong> you.</p>");
+    });
+
+    test("marks removed and added words for previews", () => {
+      const { html, removed, added } = replaceHtmlText("<p>It cures colds.</p>", "cures colds.", "soothes.", { markChanges: true });
+      assert.equal(html, "<p>It<del> cures</del> <del>colds.</del><ins>soothes.</ins></p>");
+      assert.equal(removed, 2);
+      assert.equal(added, 1);
+    });
+  });
+
+  describe("lists", () => {
+    test("rewrites one list item and leaves the others alone", () => {
+      const { html } = replaceHtmlText(
+        "<ul><li>Organic</li><li>Cures anxiety</li><li>Vegan</li></ul>",
+        "Cures anxiety",
+        "Calming blend",
+      );
+      assert.equal(html, "<ul><li>Organic</li><li>Calming blend</li><li>Vegan</li></ul>");
+    });
+
+    test("keeps new words in the block of the words they replace", () => {
+      const { html } = replaceHtmlText(
+        "<p>This <strong>miracle cure</strong> heals everything.</p><ul><li>Best tea</li></ul>",
+        "heals everything. Best tea",
+        "soothes. Great tea",
+      );
+      assert.equal(html, "<p>This <strong>miracle cure</strong> soothes.</p><ul><li>Great tea</li></ul>");
+    });
+
+    test("matches text across list items", () => {
+      const { html } = replaceHtmlText("<ol><li>Step one</li><li>Guaranteed results</li></ol>", "one Guaranteed results", "one Lasting results");
+      assert.equal(html, "<ol><li>Step one</li><li>Lasting results</li></ol>");
+    });
+  });
+
+  describe("links", () => {
+    test("rewrites link text and keeps the link", () => {
+      const { html } = replaceHtmlText('<p>Read <a href="/pages/study">the clinical proof</a> today.</p>', "the clinical proof", "the ingredient list");
+      assert.equal(html, '<p>Read <a href="/pages/study">the ingredient list</a> today.</p>');
+    });
+
+    test("keeps a link whose text did not change when the sentence around it does", () => {
+      const { html } = replaceHtmlText('<p>Cures colds, see <a href="/faq">our FAQ</a>.</p>', "Cures colds, see", "Soothing, see");
+      assert.equal(html, '<p>Soothing, see <a href="/faq">our FAQ</a>.</p>');
+    });
+  });
+
+  describe("whitespace", () => {
+    test("leaves no extra spaces when leading words are removed", () => {
+      const { html } = replaceHtmlText("<p>Cures colds fast and more.</p>", "Cures colds fast", "Soothing");
+      assert.equal(html, "<p>Soothing and more.</p>");
+    });
+  });
+
+  describe("matching", () => {
+    test("refuses text that is not in the description", () => {
+      assert.throws(
+        () => replaceHtmlText("<p>Green tea.</p>", "miracle cure", "tea"),
+        (error: unknown) => error instanceof HtmlTextMatchError && error.occurrences === 0,
+      );
+    });
+
+    test("refuses text that matches more than once", () => {
+      assert.throws(
+        () => replaceHtmlText("<p>Best tea.</p><p>Best tea.</p>", "Best tea.", "Good tea."),
+        (error: unknown) => error instanceof HtmlTextMatchError && error.occurrences === 2,
+      );
+    });
+  });
+});
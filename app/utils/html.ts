@@ -0,0 +1,413 @@
+/**
+ * A small HTML tree for product descriptions, shared by the server (applying fixes) and the fix workspace (previewing
+ * them). Fixes rewrite only the words that change inside existing text nodes, so lists, links, emphasis, images and
+ * tables survive a rewrite.
+ */
+
+export type HtmlText = { type: "text"; value: string; raw: string };
+export type HtmlElement = { type: "element"; tag: string; attrs: Array<[string, string | null]>; children: HtmlNode[] };
+export type HtmlComment = { type: "comment"; raw: string };
+export type HtmlNode = HtmlText | HtmlElement | HtmlComment;
+
+export type HtmlTextReplacement = {
+  html: string;
+  /** Number of words removed from and added to the description. */
+  removed: number;
+  added: number;
+};
+
+/** Raised when the text a fix was written against cannot be found exactly once in the current description. */
+export class HtmlTextMatchError extends Error {
+  constructor(
+    message: string,
+    readonly occurrences: number,
+  ) {
+    super(message);
+    this.name = "HtmlTextMatchError";
+  }
+}
+
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+const INLINE_FORMATTING_TAGS = new Set(["b", "strong", "i", "em", "u", "s", "strike", "span", "small", "mark", "sub", "sup"]);
+
+const ALLOWED_TAGS = new Set([
+  "a", "b", "blockquote", "br", "caption", "code", "col", "colgroup", "dd", "del", "div", "dl", "dt", "em", "figcaption",
+  "figure", "h1", "h2", "h3", "h4", "h5", "h6", "hr", "i", "iframe", "img", "ins", "li", "mark", "ol", "p", "pre", "s",
+  "small", "span", "strike", "strong", "sub", "sup", "table", "tbody", "td", "tfoot", "th", "thead", "tr", "u", "ul",
+]);
+// Dropped together with their content; any other unknown tag is unwrapped and its children kept.
+const DROPPED_TAGS = new Set(["script", "style", "object", "embed", "form", "input", "button", "textarea", "select", "noscript", "template", "link", "meta", "base"]);
+const GLOBAL_ATTRS = new Set(["class", "id", "style", "title", "dir", "lang", "align"]);
+const TAG_ATTRS: Record<string, Set<string>> = {
+  a: new Set(["href", "target", "rel", "name"]),
+  img: new Set(["src", "alt", "width", "height", "srcset", "sizes", "loading"]),
+  iframe: new Set(["src", "width", "height", "allow", "allowfullscreen", "frameborder", "loading"]),
+  td: new Set(["colspan", "rowspan", "width", "valign"]),
+  th: new Set(["colspan", "rowspan", "scope", "width", "valign"]),
+  col: new Set(["span", "width"]),
+  colgroup: new Set(["span"]),
+  ol: new Set(["start", "type", "reversed"]),
+  table: new Set(["border", "cellpadding", "cellspacing", "width"]),
+};
+const URL_ATTRS = new Set(["href", "src"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  hellip: "…",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  deg: "°",
+  euro: "€",
+};
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<\/?([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+const ATTR_PATTERN = /([^\s=/"'>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+export function decodeEntities(value: string) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+export function escapeHtml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\u00a0/g, "&nbsp;");
+}
+
+export function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { type: "element", tag: "#root", attrs: [], children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(html))) {
+    const [token, tagName, attrSource] = match;
+    if (token.startsWith("<!--")) {
+      current().children.push({ type: "comment", raw: token });
+      continue;
+    }
+    if (!tagName) {
+      current().children.push({ type: "text", value: decodeEntities(token), raw: token });
+      continue;
+    }
+
+    const tag = tagName.toLowerCase();
+    if (token.startsWith("</")) {
+      // Close the nearest matching element; stray end tags are ignored the way browsers do.
+      const index = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: HtmlElement = { type: "element", tag, attrs: parseAttributes(attrSource ?? ""), children: [] };
+    current().children.push(element);
+    if (VOID_TAGS.has(tag) || /\/\s*$/.test(attrSource ?? "")) continue;
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = html.toLowerCase().indexOf(`</${tag}`, TOKEN_PATTERN.lastIndex);
+      const stop = end === -1 ? html.length : end;
+      const raw = html.slice(TOKEN_PATTERN.lastIndex, stop);
+      if (raw) element.children.push({ type: "text", value: raw, raw });
+      TOKEN_PATTERN.lastIndex = end === -1 ? html.length : html.indexOf(">", end) + 1 || html.length;
+      continue;
+    }
+    stack.push(element);
+  }
+  return root.children;
+}
+
+export function serializeHtml(nodes: HtmlNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") return node.raw;
+      if (node.type === "comment") return node.raw;
+      const attrs = node.attrs
+        .map(([name, value]) => (value === null ? ` ${name}` : ` ${name}="${value.replace(/"/g, "&quot;")}"`))
+        .join("");
+      if (VOID_TAGS.has(node.tag)) return `<${node.tag}${attrs}>`;
+      return `<${node.tag}${attrs}>${serializeHtml(node.children)}</${node.tag}>`;
+    })
+    .join("");
+}
+
+/**
+ * Keeps the formatting tags product descriptions use and drops scripts, event handlers, forms and unsafe URLs.
+ * Unknown tags are unwrapped so their text survives.
+ */
+export function sanitizeHtml(html: string) {
+  return serializeHtml(sanitizeNodes(parseHtml(html)));
+}
+
+/** Plain text to paragraphs, for descriptions that have no markup yet. */
+export function textToHtml(text: string) {
+  return (
+    text
+      .split(/\n+/)
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => `<p>${escapeHtml(line)}</p>`)
+      .join("") || "<p></p>"
+  );
+}
+
+/**
+ * Rewrites `before` to `after` inside the description's text nodes. `before` is matched word by word against the
+ * visible text, ignoring whitespace and tag boundaries, and must occur exactly once. Only the words that differ are
+ * touched, so surrounding markup is kept; with `markChanges` removed words are wrapped in `<del>` and added words in
+ * `<ins>` instead, for previews.
+ */
+export function replaceHtmlText(
+  html: string,
+  before: string,
+  after: string,
+  { markChanges = false }: { markChanges?: boolean } = {},
+): HtmlTextReplacement {
+  const beforeWords = splitWords(decodeEntities(before));
+  const afterWords = splitWords(decodeEntities(after));
+  if (!beforeWords.length) {
+    throw new HtmlTextMatchError("The fix has no original text to replace", 0);
+  }
+
+  const nodes = parseHtml(html);
+  const words = collectWords(nodes);
+  const starts: number[] = [];
+  for (let index = 0; index + beforeWords.length <= words.length; index += 1) {
+    if (beforeWords.every((word, offset) => words[index + offset].text === word)) starts.push(index);
+  }
+  if (starts.length === 0) {
+    throw new HtmlTextMatchError("The original text no longer appears in the description. Rescan the product to refresh the suggestion.", 0);
+  }
+  if (starts.length > 1) {
+    throw new HtmlTextMatchError(
+      `The original text matches ${starts.length} places in the description. Edit the fix so it matches exactly one.`,
+      starts.length,
+    );
+  }
+
+  const region = words.slice(starts[0], starts[0] + beforeWords.length);
+  const splices = new Map<HtmlText, TextSplice[]>();
+  const addSplice = (word: LocatedWord, start: number, end: number, insert: string) => {
+    const list = splices.get(word.node) ?? [];
+    list.push({ start, end, insert });
+    splices.set(word.node, list);
+  };
+
+  let removed = 0;
+  let added = 0;
+  const tookTrailingSpace = new Set<LocatedWord>();
+  diffWords(beforeWords, afterWords).forEach((hunk) => {
+    added += hunk.inserted.length;
+    removed += hunk.removed;
+    if (hunk.removed === 0) {
+      // Pure insertion: attach to the word before it, or in front of the first word of the match.
+      const insert = hunk.inserted.join(" ");
+      const anchor = hunk.at > 0 ? region[hunk.at - 1] : region[0];
+      if (hunk.at > 0) addSplice(anchor, anchor.end, anchor.end, ` ${insert}`);
+      else addSplice(anchor, anchor.start, anchor.start, `${insert} `);
+      return;
+    }
+    // New words are spread over the words they replace, in order, so each lands in the text node (and the list
+    // item, link or paragraph) of the words at the same position rather than all in the first one.
+    for (let offset = 0; offset < hunk.removed; offset += 1) {
+      const word = region[hunk.at + offset];
+      const from = Math.floor((offset * hunk.inserted.length) / hunk.removed);
+      const to = Math.floor(((offset + 1) * hunk.inserted.length) / hunk.removed);
+      const insert = hunk.inserted.slice(from, to).join(" ");
+      if (insert) {
+        addSplice(word, word.start, word.end, insert);
+        continue;
+      }
+      // Take the whitespace around a dropped word with it so no double spaces are left behind: the space in front
+      // when an earlier word shares the text node, otherwise the space after it. Each space is taken only once.
+      const previous = words[word.index - 1];
+      const next = words[word.index + 1];
+      if (previous?.node === word.node && !tookTrailingSpace.has(previous)) {
+        addSplice(word, previous.end, word.end, "");
+      } else if (next?.node === word.node) {
+        addSplice(word, word.start, next.start, "");
+        tookTrailingSpace.add(word);
+      } else {
+        addSplice(word, word.start, word.end, "");
+      }
+    }
+  });
+
+  const updated = applySplices(nodes, splices, markChanges);
+  return { html: serializeHtml(updated), removed, added };
+}
+
+/** The description's visible text, with block boundaries as line breaks. */
+export function htmlToText(html: string) {
+  const lines: string[] = [""];
+  const walk = (nodes: HtmlNode[]) => {
+    nodes.forEach((node) => {
+      if (node.type === "text") {
+        lines[lines.length - 1] += node.value;
+      } else if (node.type === "element" && !DROPPED_TAGS.has(node.tag)) {
+        const block = !INLINE_FORMATTING_TAGS.has(node.tag) && node.tag !== "a" && node.tag !== "img";
+        if (block) lines.push("");
+        walk(node.children);
+        if (block) lines.push("");
+      }
+    });
+  };
+  walk(parseHtml(html));
+  return lines
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+type LocatedWord = { text: string; node: HtmlText; start: number; end: number; index: number };
+type TextSplice = { start: number; end: number; insert: string };
+type WordHunk = { at: number; removed: number; inserted: string[] };
+
+function parseAttributes(source: string): Array<[string, string | null]> {
+  const attrs: Array<[string, string | null]> = [];
+  ATTR_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTR_PATTERN.exec(source))) {
+    const value = match[2] ?? match[3] ?? match[4];
+    attrs.push([match[1].toLowerCase(), value === undefined ? null : value]);
+  }
+  return attrs;
+}
+
+function sanitizeNodes(nodes: HtmlNode[]): HtmlNode[] {
+  return nodes.flatMap((node): HtmlNode[] => {
+    if (node.type === "comment") return [];
+    if (node.type === "text") return [node];
+    if (DROPPED_TAGS.has(node.tag)) return [];
+    const children = sanitizeNodes(node.children);
+    if (!ALLOWED_TAGS.has(node.tag)) return children;
+    const attrs = node.attrs.filter(([name, value]) => isAllowedAttribute(node.tag, name, value));
+    if (node.tag === "a" && attrs.some(([name, value]) => name === "target" && value === "_blank") && !attrs.some(([name]) => name === "rel")) {
+      attrs.push(["rel", "noopener noreferrer"]);
+    }
+    if (node.tag === "iframe" && !attrs.some(([name, value]) => name === "src" && value?.startsWith("https://"))) return [];
+    return [{ ...node, attrs, children }];
+  });
+}
+
+function isAllowedAttribute(tag: string, name: string, value: string | null) {
+  if (!GLOBAL_ATTRS.has(name) && !TAG_ATTRS[tag]?.has(name)) return false;
+  if (name === "style" && value && /expression\s*\(|url\s*\(\s*['"]?\s*javascript:/i.test(value)) return false;
+  if (URL_ATTRS.has(name)) {
+    // Browsers ignore whitespace and control characters inside a scheme, so "java\tscript:" must not slip through.
+    const url = Array.from(decodeEntities(value ?? ""))
+      .filter((char) => char.charCodeAt(0) > 32)
+      .join("")
+      .toLowerCase();
+    return !/^[a-z][a-z0-9+.-]*:/.test(url) || /^(https?|mailto|tel):/.test(url);
+  }
+  return true;
+}
+
+function splitWords(text: string) {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+// Text inside scripts and styles is not visible copy and never matches.
+function collectWords(nodes: HtmlNode[], words: LocatedWord[] = []) {
+  nodes.forEach((node) => {
+    if (node.type === "element" && !RAW_TEXT_TAGS.has(node.tag)) collectWords(node.children, words);
+    if (node.type !== "text") return;
+    const pattern = /\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(node.value))) {
+      words.push({ text: match[0], node, start: match.index, end: match.index + match[0].length, index: words.length });
+    }
+  });
+  return words;
+}
+
+/** Longest-common-subsequence word diff, grouped into hunks positioned on `before`. */
+function diffWords(before: string[], after: string[]): WordHunk[] {
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const hunks: WordHunk[] = [];
+  let hunk: WordHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      hunk = null;
+      i += 1;
+      j += 1;
+      continue;
+    }
+    if (!hunk) {
+      hunk = { at: i, removed: 0, inserted: [] };
+      hunks.push(hunk);
+    }
+    if (j < after.length && (i === before.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      hunk.inserted.push(after[j]);
+      j += 1;
+    } else {
+      hunk.removed += 1;
+      i += 1;
+    }
+  }
+  return hunks;
+}
+
+function applySplices(nodes: HtmlNode[], splices: Map<HtmlText, TextSplice[]>, markChanges: boolean): HtmlNode[] {
+  return nodes.flatMap((node): HtmlNode[] => {
+    if (node.type === "element") {
+      const children = applySplices(node.children, splices, markChanges);
+      // Formatting wrappers whose text was rewritten away are dropped rather than left empty.
+      const emptied = node.children.some((child) => !isBlankText(child)) && children.every(isBlankText);
+      return !markChanges && emptied && INLINE_FORMATTING_TAGS.has(node.tag) ? [] : [{ ...node, children }];
+    }
+    if (node.type !== "text" || !splices.has(node)) return [node];
+
+    const parts: HtmlNode[] = [];
+    const pushText = (value: string) => {
+      if (value) parts.push({ type: "text", value, raw: escapeHtml(value) });
+    };
+    const pushMarked = (tag: "ins" | "del", value: string) => {
+      if (value.trim()) parts.push({ type: "element", tag, attrs: [], children: [{ type: "text", value, raw: escapeHtml(value) }] });
+    };
+
+    let cursor = 0;
+    [...(splices.get(node) as TextSplice[])]
+      .sort((a, b) => a.start - b.start || a.end - b.end)
+      .forEach((splice) => {
+        pushText(node.value.slice(cursor, splice.start));
+        if (markChanges) {
+          pushMarked("del", node.value.slice(splice.start, splice.end));
+          pushMarked("ins", splice.insert);
+        } else {
+          pushText(splice.insert);
+        }
+        cursor = Math.max(cursor, splice.end);
+      });
+    pushText(node.value.slice(cursor));
+    return parts;
+  });
+}
+
+function isBlankText(node: HtmlNode) {
+  return node.type === "text" && !node.value.trim();
+}
@@ -0,0 +1,59 @@
+// Frequent function words per language. Product copy is short, so a stopword vote is more reliable here than
+// character n-grams, and it needs no model or dictionary.
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "with", "for", "your", "this", "that", "are", "is", "of", "to", "it", "you", "our", "from", "will", "can", "all", "not", "be"],
+  de: ["der", "die", "das", "und", "mit", "für", "ist", "nicht", "ein", "eine", "sie", "ihre", "auf", "den", "dem", "zu", "von", "wird", "auch", "sich"],
+  es: ["el", "los", "las", "y", "con", "para", "es", "un", "una", "que", "por", "del", "su", "sus", "se", "muy", "más", "como", "al", "tu"],
+  fr: ["le", "les", "et", "avec", "pour", "des", "est", "une", "du", "votre", "vos", "sur", "dans", "pas", "au", "aux", "qui", "ce", "cette", "vous"],
+  it: ["il", "lo", "gli", "e", "con", "per", "di", "è", "che", "della", "delle", "non", "sono", "alla", "tuo", "tua", "questo", "questa", "anche", "nel"],
+  nl: ["het", "een", "en", "met", "voor", "van", "niet", "dat", "op", "te", "zijn", "uw", "je", "ook", "aan", "bij", "naar", "wordt", "deze", "onze"],
+  pt: ["o", "os", "as", "e", "com", "para", "não", "um", "uma", "que", "do", "da", "dos", "das", "seu", "sua", "em", "mais", "por", "você"],
+};
+
+const STOPWORD_LANGUAGES = new Map<string, string[]>();
+Object.entries(STOPWORDS).forEach(([language, words]) => {
+  words.forEach((word) => STOPWORD_LANGUAGES.set(word, [...(STOPWORD_LANGUAGES.get(word) ?? []), language]));
+});
+
+const MIN_STOPWORD_HITS = 3;
+const MIN_CONFIDENCE = 0.4;
+
+export type DetectedLanguage = {
+  /** ISO 639-1 code, e.g. `de`. */
+  language: string;
+  /** Share of stopword hits that belong to the winning language, 0–1. */
+  confidence: number;
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(STOPWORDS);
+
+/** Detects the language of product copy, or returns null when the text is too short or too mixed to tell. */
+export function detectLanguage(text: string): DetectedLanguage | null {
+  const scores = new Map<string, number>();
+  let hits = 0;
+  for (const [word] of text.toLowerCase().matchAll(/\p{L}+/gu)) {
+    const languages = STOPWORD_LANGUAGES.get(word);
+    if (!languages) continue;
+    hits += 1;
+    languages.forEach((language) => scores.set(language, (scores.get(language) ?? 0) + 1 / languages.length));
+  }
+  if (hits < MIN_STOPWORD_HITS) return null;
+
+  const [language, score] = Array.from(scores.entries()).sort((a, b) => b[1] - a[1])[0];
+  const confidence = score / hits;
+  return confidence >= MIN_CONFIDENCE ? { language, confidence: Math.round(confidence * 100) / 100 } : null;
+}
+
+/** `fr-CA` → `fr`. */
+export function languageOfLocale(locale: string) {
+  return locale.split("-")[0].toLowerCase();
+}
+
+/** English name of a language code for prompts and labels, e.g. `de` → "German". */
+export function languageName(language: string) {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
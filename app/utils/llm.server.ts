@@ -0,0 +1,348 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import prisma from "../db.server";
+import { emptyJsonFor, type LlmResponseSchema } from "./llmSchema.server";
+import { withLlmRetry } from "./rateLimit.server";
+
+export type LlmProviderId = "openai" | "azure-openai" | "anthropic" | "local" | "fake";
+
+export type LlmMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+  /** Image URLs attached to a user message. Only send these to providers with `vision`. */
+  images?: string[];
+};
+
+export type LlmCompletionRequest = {
+  messages: LlmMessage[];
+  temperature?: number;
+  /** Ask the provider for a single JSON object. */
+  json?: boolean;
+  /** Passed to providers with structured outputs, otherwise described in the system prompt. */
+  schema?: LlmResponseSchema;
+  maxTokens?: number;
+};
+
+export type LlmCompletion = {
+  content: string | null;
+  model: string;
+  usage?: { inputTokens: number; outputTokens: number };
+};
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  model: string;
+  /** Whether the model accepts `LlmMessage.images`. */
+  vision?: boolean;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  openai: "OpenAI",
+  "azure-openai": "Azure OpenAI",
+  anthropic: "Anthropic",
+  local: "Local (OpenAI-compatible)",
+  fake: "Offline stub",
+};
+
+const DEFAULT_MAX_TOKENS = 2048;
+
+/** Raised by the fetch-based providers; carries `status` and `headers` so `withLlmRetry` can back off. */
+export class LlmHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly headers: Headers,
+  ) {
+    super(message);
+    this.name = "LlmHttpError";
+  }
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __llmProviders: Map<LlmProviderId, LlmProvider | null> | undefined;
+}
+
+const providers = globalThis.__llmProviders ?? new Map<LlmProviderId, LlmProvider | null>();
+globalThis.__llmProviders = providers;
+
+/**
+ * Resolves the provider for a shop: the shop's saved choice when it is configured on this deployment,
+ * otherwise `LLM_PROVIDER`, otherwise OpenAI. Returns null when nothing usable is configured.
+ */
+export async function getLlmProvider(shopDomain?: string | null): Promise<LlmProvider | null> {
+  if (shopDomain) {
+    const shop = await prisma.shop.findUnique({ where: { domain: shopDomain }, select: { llmProvider: true } });
+    const preferred = shop?.llmProvider as LlmProviderId | null | undefined;
+    if (preferred && isLlmProviderId(preferred)) {
+      const provider = resolveProvider(preferred);
+      if (provider) return provider;
+    }
+  }
+  return resolveProvider(getDefaultProviderId());
+}
+
+export function listLlmProviders() {
+  const defaultId = getDefaultProviderId();
+  const ids = (Object.keys(LLM_PROVIDER_LABELS) as LlmProviderId[]).filter((id) => id !== "fake" || isFakeProviderEnabled());
+  return ids.map((id) => ({
+    id,
+    label: LLM_PROVIDER_LABELS[id],
+    configured: Boolean(resolveProvider(id)),
+    isDefault: id === defaultId,
+  }));
+}
+
+export async function setShopLlmProvider(shopDomain: string, providerId: string | null) {
+  if (providerId && (!isLlmProviderId(providerId) || !resolveProvider(providerId))) {
+    throw new Error("That AI provider is not configured on this server");
+  }
+  await prisma.shop.upsert({
+    where: { domain: shopDomain },
+    update: { llmProvider: providerId },
+    create: { domain: shopDomain, llmProvider: providerId },
+  });
+}
+
+export async function testConnection(shopDomain?: string | null) {
+  const provider = await getLlmProvider(shopDomain);
+  if (!provider) return null;
+  try {
+    const completion = await provider.complete({
+      messages: [{ role: "user", content: "Reply with the word ok." }],
+      maxTokens: 5,
+    });
+    return completion.content ?? "ok";
+  } catch (error) {
+    console.error(`❌ ${LLM_PROVIDER_LABELS[provider.id]} connection failed:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export function isLlmProviderId(value: string): value is LlmProviderId {
+  return value in LLM_PROVIDER_LABELS;
+}
+
+/** A deterministic provider for tests and offline runs; nothing leaves the process. */
+export function createFakeProvider(respond?: (request: LlmCompletionRequest) => string): LlmProvider {
+  return {
+    id: "fake",
+    model: "fake-1",
+    async complete(request) {
+      return {
+        content: respond
+          ? respond(request)
+          : request.schema
+            ? JSON.stringify(emptyJsonFor(request.schema.schema))
+            : request.json
+              ? "{}"
+              : "ok",
+        model: "fake-1",
+        usage: { inputTokens: 0, outputTokens: 0 },
+      };
+    },
+  };
+}
+
+// The stub answers every request with empty JSON, which reads as "no issues", so merchants never get it by accident.
+function isFakeProviderEnabled() {
+  return process.env.LLM_FAKE_PROVIDER ? process.env.LLM_FAKE_PROVIDER === "true" : process.env.NODE_ENV === "test";
+}
+
+function getDefaultProviderId(): LlmProviderId {
+  const configured = process.env.LLM_PROVIDER;
+  return configured && isLlmProviderId(configured) ? configured : "openai";
+}
+
+function resolveProvider(id: LlmProviderId) {
+  if (!providers.has(id)) {
+    providers.set(id, createProvider(id));
+  }
+  return providers.get(id) ?? null;
+}
+
+function createProvider(id: LlmProviderId): LlmProvider | null {
+  switch (id) {
+    case "openai": {
+      if (!process.env.OPENAI_API_KEY) return null;
+      const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 });
+      return createOpenAiCompatibleProvider(id, client, process.env.OPENAI_MODEL ?? "gpt-4o-mini", true, true);
+    }
+    case "azure-openai": {
+      const deployment = process.env.AZURE_OPENAI_DEPLOYMENT;
+      if (!process.env.AZURE_OPENAI_API_KEY || !process.env.AZURE_OPENAI_ENDPOINT || !deployment) return null;
+      const client = new AzureOpenAI({
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION ?? "2024-10-21",
+        deployment,
+        maxRetries: 0,
+      });
+      return createOpenAiCompatibleProvider(id, client, deployment, true, process.env.AZURE_OPENAI_VISION !== "false");
+    }
+    case "local": {
+      // Ollama, llama.cpp server, vLLM and LM Studio all expose the OpenAI chat completions API.
+      if (!process.env.LOCAL_LLM_BASE_URL) return null;
+      const client = new OpenAI({
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        apiKey: process.env.LOCAL_LLM_API_KEY ?? "local",
+        maxRetries: 0,
+      });
+      // Only some local models (llava, llama3.2-vision, ...) read images, so vision is opt-in.
+      return createOpenAiCompatibleProvider(
+        id,
+        client,
+        process.env.LOCAL_LLM_MODEL ?? "llama3.1",
+        false,
+        process.env.LOCAL_LLM_VISION === "true",
+      );
+    }
+    case "anthropic": {
+      if (!process.env.ANTHROPIC_API_KEY) return null;
+      return createAnthropicProvider(process.env.ANTHROPIC_API_KEY, process.env.ANTHROPIC_MODEL ?? "claude-3-5-haiku-latest");
+    }
+    case "fake":
+      return isFakeProviderEnabled() ? createFakeProvider() : null;
+    default:
+      return null;
+  }
+}
+
+function createOpenAiCompatibleProvider(
+  id: LlmProviderId,
+  client: OpenAI,
+  model: string,
+  structuredOutputs: boolean,
+  vision: boolean,
+): LlmProvider {
+  return {
+    id,
+    model,
+    vision,
+    async complete({ messages, temperature, json, schema, maxTokens }) {
+      // Validation happens after the call, so a non-strict schema is enough and tolerates optional fields.
+      const responseFormat =
+        schema && structuredOutputs
+          ? { type: "json_schema" as const, json_schema: { name: schema.name, schema: schema.schema, strict: false } }
+          : json || schema
+            ? { type: "json_object" as const }
+            : undefined;
+      const completion = await withLlmRetry(id, () =>
+        client.chat.completions.create({
+          model,
+          temperature,
+          max_tokens: maxTokens,
+          response_format: responseFormat,
+          messages: toOpenAiMessages(schema && !structuredOutputs ? withSchemaInstruction(messages, schema) : messages),
+        }),
+      );
+      return {
+        content: completion.choices?.[0]?.message?.content ?? null,
+        model: completion.model ?? model,
+        usage: completion.usage
+          ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+          : undefined,
+      };
+    },
+  };
+}
+
+function createAnthropicProvider(apiKey: string, model: string): LlmProvider {
+  const baseUrl = process.env.ANTHROPIC_BASE_URL ?? "https://api.anthropic.com";
+
+  return {
+    id: "anthropic",
+    model,
+    vision: true,
+    async complete({ messages, temperature, json, schema, maxTokens }) {
+      const system = (schema ? withSchemaInstruction(messages, schema) : messages)
+        .filter((message) => message.role === "system")
+        .map((message) => message.content)
+        .concat(json && !schema ? ["Respond with a single JSON object and nothing else."] : [])
+        .join("\n\n");
+      const conversation = messages
+        .filter((message) => message.role !== "system")
+        .map((message) => ({
+          role: message.role,
+          content: message.images?.length
+            ? [
+                ...message.images.map((url) => ({ type: "image", source: { type: "url", url } })),
+                { type: "text", text: message.content },
+              ]
+            : message.content,
+        }));
+
+      const body = await withLlmRetry("anthropic", async () => {
+        const response = await fetch(`${baseUrl}/v1/messages`, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            "x-api-key": apiKey,
+            "anthropic-version": "2023-06-01",
+          },
+          body: JSON.stringify({
+            model,
+            max_tokens: maxTokens ?? DEFAULT_MAX_TOKENS,
+            temperature,
+            system: system || undefined,
+            messages: conversation,
+          }),
+        });
+        if (!response.ok) {
+          const detail = await response.text().catch(() => "");
+          throw new LlmHttpError(
+            `Anthropic request failed (${response.status}): ${detail.slice(0, 200)}`,
+            response.status,
+            response.headers,
+          );
+        }
+        return response.json();
+      });
+
+      const text = Array.isArray(body?.content)
+        ? body.content
+            .filter((block: any) => block?.type === "text")
+            .map((block: any) => block.text)
+            .join("")
+        : null;
+      return {
+        content: (json || schema) && text ? extractJsonObject(text) : text,
+        model: body?.model ?? model,
+        usage: body?.usage
+          ? { inputTokens: Number(body.usage.input_tokens ?? 0), outputTokens: Number(body.usage.output_tokens ?? 0) }
+          : undefined,
+      };
+    },
+  };
+}
+
+function toOpenAiMessages(messages: LlmMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((message) =>
+    message.role === "user" && message.images?.length
+      ? {
+          role: "user",
+          content: [
+            { type: "text", text: message.content },
+            ...message.images.map((url) => ({ type: "image_url" as const, image_url: { url } })),
+          ],
+        }
+      : { role: message.role, content: message.content },
+  );
+}
+
+function withSchemaInstruction(messages: LlmMessage[], schema: LlmResponseSchema): LlmMessage[] {
+  return [
+    {
+      role: "system",
+      content: `Respond with a single JSON object matching this JSON schema and nothing else: ${JSON.stringify(schema.schema)}`,
+    },
+    ...messages,
+  ];
+}
+
+// Providers without a native JSON mode sometimes wrap the object in prose or a code fence.
+function extractJsonObject(text: string) {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+}
@@ -0,0 +1,173 @@
+import type { LlmCompletion, LlmCompletionRequest, LlmMessage, LlmProvider } from "./llm.server";
+
+type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+/** The subset of JSON Schema we validate locally; it is also what providers with structured outputs receive. */
+export type JsonSchema = {
+  type: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+};
+
+export type LlmResponseSchema = {
+  name: string;
+  schema: JsonSchema;
+};
+
+const MAX_REPORTED_ISSUES = 10;
+
+export class LlmResponseInvalidError extends Error {
+  constructor(
+    readonly schemaName: string,
+    readonly issues: string[],
+    readonly raw: string | null,
+  ) {
+    super(`AI response invalid: ${issues.slice(0, 3).join("; ")}`);
+    this.name = "LlmResponseInvalidError";
+  }
+}
+
+/** Returns one message per problem, each prefixed with the JSON path it applies to; empty when valid. */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (!types.some((type) => matchesType(value, type))) {
+    return [`${path} should be ${types.join(" or ")}, got ${describe(value)}`];
+  }
+  if (value === null) return [];
+
+  const issues: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push(`${path} should be one of ${schema.enum.join(", ")}`);
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) issues.push(`${path} should be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) issues.push(`${path} should be <= ${schema.maximum}`);
+  }
+  if (typeof value === "string" && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    issues.push(`${path} should not be empty`);
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => issues.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+  }
+  if (isPlainObject(value)) {
+    (schema.required ?? []).forEach((key) => {
+      if (!(key in value)) issues.push(`${path}.${key} is required`);
+    });
+    Object.entries(value).forEach(([key, child]) => {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        issues.push(...validateJsonSchema(child, childSchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        issues.push(`${path}.${key} is not allowed`);
+      }
+    });
+  }
+  return issues;
+}
+
+/**
+ * Requests a JSON completion and validates it against `schema`. When the response does not parse or validate,
+ * the model is shown its answer and the problems and asked once more (`repairAttempts` times in total); if it
+ * still fails, throws `LlmResponseInvalidError` rather than letting a malformed answer read as "no issues".
+ */
+export async function completeStructured<T>(
+  llm: LlmProvider,
+  request: Omit<LlmCompletionRequest, "json" | "schema">,
+  schema: LlmResponseSchema,
+  { repairAttempts = 1 }: { repairAttempts?: number } = {},
+): Promise<{ value: T; completion: LlmCompletion; repaired: boolean }> {
+  let messages: LlmMessage[] = request.messages;
+  let issues: string[] = [];
+  let raw: string | null = null;
+
+  for (let attempt = 0; attempt <= repairAttempts; attempt += 1) {
+    const completion = await llm.complete({ ...request, messages, json: true, schema });
+    raw = completion.content;
+    const parsed = parseJson(raw);
+    issues = parsed.error ? [parsed.error] : validateJsonSchema(parsed.value, schema.schema);
+    if (!issues.length) {
+      return { value: parsed.value as T, completion, repaired: attempt > 0 };
+    }
+
+    console.warn(`[llm] ${schema.name} response failed validation (attempt ${attempt + 1})`, issues.slice(0, 3));
+    messages = [
+      ...request.messages,
+      { role: "assistant", content: raw ?? "" },
+      {
+        role: "user",
+        content: `That response does not match the required JSON schema:
+- ${issues.slice(0, MAX_REPORTED_ISSUES).join("\n- ")}
+Schema: ${JSON.stringify(schema.schema)}
+Return the corrected JSON object only.`,
+      },
+    ];
+  }
+
+  throw new LlmResponseInvalidError(schema.name, issues, raw);
+}
+
+/** The smallest value that satisfies `schema`: empty arrays, required properties only. Used by the offline stub. */
+export function emptyJsonFor(schema: JsonSchema): unknown {
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  if (schema.enum?.length) return schema.enum[0];
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        (schema.required ?? []).map((key) => [key, schema.properties?.[key] ? emptyJsonFor(schema.properties[key]) : null]),
+      );
+    case "array":
+      return [];
+    case "string":
+      return schema.minLength ? "n/a" : "";
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+function parseJson(raw: string | null): { value?: unknown; error?: string } {
+  if (!raw?.trim()) return { error: "response was empty" };
+  try {
+    return { value: JSON.parse(raw) };
+  } catch {
+    return { error: "response is not valid JSON" };
+  }
+}
+
+function matchesType(value: unknown, type: JsonSchemaType) {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
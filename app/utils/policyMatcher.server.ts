@@ -0,0 +1,402 @@
+import type { PolicyRule } from "../data/policyKeywords";
+
+const DEFAULT_NEGATION_WINDOW = 3;
+
+// Cues are compared after normalization (lowercase, accents stripped).
+const NEGATION_CUES = new Set([
+  "not",
+  "no",
+  "never",
+  "without",
+  "non",
+  "nor",
+  "neither",
+  "cannot",
+  "nicht",
+  "kein",
+  "keine",
+  "keinen",
+  "keiner",
+  "ohne",
+  "nie",
+  "pas",
+  "sans",
+  "aucun",
+  "aucune",
+  "jamais",
+  "sin",
+  "nunca",
+  "senza",
+  "niet",
+  "geen",
+  "zonder",
+]);
+
+// Cues that do not negate what follows: "No 1 miracle cure", "Not only a cure", "Without doubt the best".
+const NEGATION_IDIOMS = [
+  ["not", "only"],
+  ["not", "just"],
+  ["not", "merely"],
+  ["no", "doubt"],
+  ["without", "doubt"],
+  ["without", "a", "doubt"],
+  ["nicht", "nur"],
+  ["ohne", "zweifel"],
+  ["non", "seulement"],
+  ["sans", "doute"],
+  ["no", "solo"],
+  ["sin", "duda"],
+  ["non", "solo"],
+  ["senza", "dubbio"],
+  ["niet", "alleen"],
+  ["zonder", "twijfel"],
+];
+
+// A negation does not reach past one of these: "No sugar but cures colds" still flags "cures".
+const CLAUSE_CONJUNCTIONS = new Set([
+  "but",
+  "yet",
+  "however",
+  "although",
+  "though",
+  "whereas",
+  "while",
+  "aber",
+  "sondern",
+  "doch",
+  "mais",
+  "cependant",
+  "pero",
+  "sino",
+  "ma",
+  "maar",
+]);
+
+export type MatchableField = {
+  field: string;
+  text: string;
+};
+
+export type PolicyTermMatch = {
+  /** The keyword or pattern that produced the match. */
+  term: string;
+  field: string;
+  /** Offsets into the original (un-normalized) field text. */
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type PolicyRuleMatch = {
+  rule: PolicyRule;
+  matchingWords: string[];
+  matches: PolicyTermMatch[];
+};
+
+export type MatchOptions = {
+  /** Merchant allow-listed phrases; any match overlapping one of them is dropped. */
+  allowedTerms?: string[];
+  /** How many words before a match are searched for a negation cue ("not", "without", "kein", ...). */
+  negationWindow?: number;
+  /** ISO 639-1 language of the fields; adds each rule's `keywordsByLanguage` entry for it. */
+  language?: string;
+};
+
+type NormalizedText = {
+  value: string;
+  starts: number[];
+  ends: number[];
+};
+
+type Token = {
+  value: string;
+  stem: string;
+  normalizedStart: number;
+  normalizedEnd: number;
+  start: number;
+  end: number;
+  sentence: number;
+  /** Increments at `,` `;` `.` `:` and clause conjunctions; negation cues only apply within their clause. */
+  clause: number;
+};
+
+type AnalyzedField = MatchableField & {
+  normalized: NormalizedText;
+  tokens: Token[];
+};
+
+type CompiledTerm = {
+  term: string;
+  stems: string[];
+};
+
+type CompiledRule = {
+  terms: CompiledTerm[];
+  patterns: Array<{ source: string; regex: RegExp }>;
+};
+
+const compiledRules = new WeakMap<PolicyRule, Map<string, CompiledRule>>();
+
+/**
+ * Matches policy rules against product fields on whole words. Keywords are compared stem-to-stem, so "cure"
+ * matches "cured" and "curing" but not "secure" or "manicure"; multi-word keywords may have up to
+ * `rule.proximity` words between their parts; matches preceded by a negation cue in the same clause (or
+ * followed by "-free") are ignored. Text is NFKD-normalized with accents stripped before comparison, and
+ * offsets are reported against the original field text. With `language`, the rule's keywords for that language are
+ * matched as well.
+ */
+export function matchPolicyRules(
+  fields: MatchableField[],
+  rules: PolicyRule[],
+  { allowedTerms = [], negationWindow = DEFAULT_NEGATION_WINDOW, language }: MatchOptions = {},
+): PolicyRuleMatch[] {
+  const analyzed = fields.filter((field) => field.text).map(analyzeField);
+  const allowed = allowedTerms.map(compileTerm).filter((term) => term.stems.length);
+  const allowedSpans = analyzed.map((field) =>
+    allowed.flatMap((term) => findTermSpans(field.tokens, term, 0).map(([first, last]) => toSpan(field, first, last))),
+  );
+
+  const results: PolicyRuleMatch[] = [];
+  rules.forEach((rule) => {
+    const compiled = compileRule(rule, language);
+    const matches: PolicyTermMatch[] = [];
+    const matchedSpans = new Set<string>();
+    const addMatch = (match: PolicyTermMatch) => {
+      const key = `${match.field}:${match.start}:${match.end}`;
+      if (matchedSpans.has(key)) return;
+      matchedSpans.add(key);
+      matches.push(match);
+    };
+
+    analyzed.forEach((field, fieldIndex) => {
+      const isAllowed = (start: number, end: number) =>
+        allowedSpans[fieldIndex].some((span) => start < span.end && end > span.start);
+
+      compiled.terms.forEach((term) => {
+        findTermSpans(field.tokens, term, rule.proximity ?? 0).forEach(([first, last]) => {
+          if (isNegated(field, first, last, negationWindow)) return;
+          const span = toSpan(field, first, last);
+          if (isAllowed(span.start, span.end)) return;
+          addMatch({ term: term.term, field: field.field, ...span });
+        });
+      });
+
+      compiled.patterns.forEach(({ source, regex }) => {
+        regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(field.normalized.value))) {
+          if (!match[0]) {
+            regex.lastIndex += 1;
+            continue;
+          }
+          const normalizedStart = match.index;
+          const normalizedEnd = match.index + match[0].length;
+          const start = field.normalized.starts[normalizedStart];
+          const end = field.normalized.ends[normalizedEnd - 1];
+          const first = field.tokens.findIndex((token) => token.normalizedEnd > normalizedStart);
+          const last = findLastIndex(field.tokens, (token) => token.normalizedStart < normalizedEnd);
+          if (first >= 0 && last >= first && isNegated(field, first, last, negationWindow)) continue;
+          if (isAllowed(start, end)) continue;
+          addMatch({ term: source, field: field.field, start, end, text: field.text.slice(start, end) });
+        }
+      });
+    });
+
+    if (matches.length) {
+      const keywordTerms = new Set(compiled.terms.map((term) => term.term));
+      const matchingWords = Array.from(
+        new Set(matches.map((match) => (keywordTerms.has(match.term) ? match.term : match.text.toLowerCase()))),
+      );
+      results.push({ rule, matchingWords, matches });
+    }
+  });
+
+  return results;
+}
+
+export function normalizeText(text: string): NormalizedText {
+  let value = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let index = 0;
+
+  for (const char of text) {
+    const normalized = char
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .replace(/[‘’ʼ]/g, "'");
+    for (let position = 0; position < normalized.length; position += 1) {
+      starts.push(index);
+      ends.push(index + char.length);
+    }
+    value += normalized;
+    index += char.length;
+  }
+
+  return { value, starts, ends };
+}
+
+/**
+ * A deliberately light suffix stripper. It only needs to map inflections of the same word onto one form
+ * ("cures", "cured", "curing" → "cur"); both keywords and text go through it, so over-stemming is harmless.
+ */
+export function stemWord(word: string) {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  let stem = word;
+
+  if (stem.endsWith("ies") && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (stem.endsWith("ied") && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (stem.endsWith("ing") && stem.length > 5) {
+    stem = undouble(stem.slice(0, -3));
+  } else if (stem.endsWith("ed") && stem.length > 4) {
+    stem = undouble(stem.slice(0, -2));
+  } else if (/(?:ss|x|z|ch|sh)es$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith("s") && !/(?:ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  if (stem.endsWith("ly") && stem.length > 5) {
+    stem = stem.slice(0, -2);
+  }
+  if (stem.endsWith("e") && stem.length > 3) {
+    stem = stem.replace(/e+$/, "");
+  }
+  return stem;
+}
+
+function undouble(stem: string) {
+  return /([^aeiouls])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+}
+
+function analyzeField(field: MatchableField): AnalyzedField {
+  const normalized = normalizeText(field.text);
+  return { ...field, normalized, tokens: tokenize(normalized) };
+}
+
+function tokenize(normalized: NormalizedText): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[\p{L}\p{N}]+(?:'[\p{L}]+)*/gu;
+  let sentence = 0;
+  let clause = 0;
+  let previousEnd = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(normalized.value))) {
+    const normalizedStart = match.index;
+    const normalizedEnd = match.index + match[0].length;
+    const separator = normalized.value.slice(previousEnd, normalizedStart);
+    if (/[.!?;\n]/.test(separator)) {
+      sentence += 1;
+    }
+    if (tokens.length && (/[,;:.!?\n]/.test(separator) || CLAUSE_CONJUNCTIONS.has(match[0]))) {
+      clause += 1;
+    }
+    previousEnd = normalizedEnd;
+    tokens.push({
+      value: match[0],
+      stem: stemWord(match[0]),
+      normalizedStart,
+      normalizedEnd,
+      start: normalized.starts[normalizedStart] ?? 0,
+      end: normalized.ends[normalizedEnd - 1] ?? 0,
+      sentence,
+      clause,
+    });
+  }
+  return tokens;
+}
+
+function compileTerm(term: string): CompiledTerm {
+  return { term, stems: tokenize(normalizeText(term)).map((token) => token.stem) };
+}
+
+function compileRule(rule: PolicyRule, language?: string): CompiledRule {
+  const byLanguage = compiledRules.get(rule) ?? new Map<string, CompiledRule>();
+  compiledRules.set(rule, byLanguage);
+  const cached = byLanguage.get(language ?? "");
+  if (cached) return cached;
+
+  const keywords = [...rule.keywords, ...((language && rule.keywordsByLanguage?.[language]) || [])];
+  // "detox" and fr "détox" normalize to the same stems; keep the first so one span is not flagged twice.
+  const terms = new Map<string, CompiledTerm>();
+  keywords.map(compileTerm).forEach((term) => {
+    const key = term.stems.join(" ");
+    if (term.stems.length && !terms.has(key)) terms.set(key, term);
+  });
+  const compiled: CompiledRule = {
+    terms: Array.from(terms.values()),
+    patterns: (rule.patterns ?? []).flatMap((source) => {
+      try {
+        return [{ source, regex: new RegExp(source, "gi") }];
+      } catch {
+        return [];
+      }
+    }),
+  };
+  byLanguage.set(language ?? "", compiled);
+  return compiled;
+}
+
+function findTermSpans(tokens: Token[], term: CompiledTerm, proximity: number) {
+  const spans: Array<[number, number]> = [];
+  tokens.forEach((token, index) => {
+    if (token.stem !== term.stems[0]) return;
+    let last = index;
+    for (let part = 1; part < term.stems.length; part += 1) {
+      let next = -1;
+      for (let candidate = last + 1; candidate <= last + 1 + proximity && candidate < tokens.length; candidate += 1) {
+        if (tokens[candidate].sentence !== token.sentence) break;
+        if (tokens[candidate].stem === term.stems[part]) {
+          next = candidate;
+          break;
+        }
+      }
+      if (next < 0) return;
+      last = next;
+    }
+    spans.push([index, last]);
+  });
+  return spans;
+}
+
+function isNegated(field: AnalyzedField, first: number, last: number, window: number) {
+  const { tokens } = field;
+  const clause = tokens[first].clause;
+  for (let index = first - 1; index >= Math.max(0, first - window); index -= 1) {
+    if (tokens[index].clause !== clause) break;
+    if (isNegationCue(tokens, index)) return true;
+  }
+
+  // "CBD-free", "THC-free": the hyphenated suffix negates the term itself.
+  const next = tokens[last + 1];
+  if (next && next.value === "free") {
+    const between = field.normalized.value.slice(tokens[last].normalizedEnd, next.normalizedStart);
+    if (between === "-") return true;
+  }
+  return false;
+}
+
+function isNegationCue(tokens: Token[], index: number) {
+  const value = tokens[index].value;
+  if (!NEGATION_CUES.has(value) && !value.endsWith("n't")) return false;
+  // "No 1", "not 100%": a rank or an amount, not a negation.
+  if ((value === "no" || value === "not") && /^\d/.test(tokens[index + 1]?.value ?? "")) return false;
+  return !NEGATION_IDIOMS.some((idiom) => idiom.every((word, offset) => tokens[index + offset]?.value === word));
+}
+
+function toSpan(field: AnalyzedField, first: number, last: number) {
+  const start = field.tokens[first].start;
+  const end = field.tokens[last].end;
+  return { start, end, text: field.text.slice(start, end) };
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean) {
+  for (let index = items.length - 1; index >= 0; index -= 1) {
+    if (predicate(items[index])) return index;
+  }
+  return -1;
+}
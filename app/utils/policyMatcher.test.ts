@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import type { PolicyRule } from "../data/policyKeywords";
+import { matchPolicyRules } from "./policyMatcher.server";
+
+const MEDICAL: PolicyRule = {
+  category: "Medical Claims",
+  severity: "high",
+  description: "Unsubstantiated medical or therapeutic promises",
+  keywords: ["cure", "miracle", "best"],
+};
+
+function flagged(text: string, rules: PolicyRule[] = [MEDICAL]) {
+  return matchPolicyRules([{ field: "description", text }], rules)
+    .flatMap((result) => result.matches)
+    .sort((a, b) => a.start - b.start)
+    .map((match) => match.text);
+}
+
+describe("matchPolicyRules", () => {
+  describe("negation", () => {
+    test("ignores a negated term", () => {
+      assert.deepEqual(flagged("Made without miracle claims."), []);
+      assert.deepEqual(flagged("It doesn't cure anything."), []);
+    });
+
+    test("ignores a term followed by -free", () => {
+      assert.deepEqual(flagged("Cure-free formula."), []);
+    });
+
+    test("stops the negation at a comma", () => {
+      assert.deepEqual(flagged("No parabens, miracle cure"), ["miracle", "cure"]);
+    });
+
+    test("stops the negation at a clause conjunction", () => {
+      assert.deepEqual(flagged("No sugar but cures colds"), ["cures"]);
+    });
+
+    test("does not treat no before a number as a negation", () => {
+      assert.deepEqual(flagged("No 1 miracle cure"), ["miracle", "cure"]);
+    });
+
+    test("does not treat fixed phrases as a negation", () => {
+      assert.deepEqual(flagged("Without doubt the best"), ["best"]);
+      assert.deepEqual(flagged("Not only a cure"), ["cure"]);
+    });
+  });
+
+  describe("keywords in several languages", () => {
+    const DETOX: PolicyRule = {
+      category: "Weight Loss",
+      severity: "medium",
+      description: "Unrealistic weight loss claims",
+      keywords: ["detox"],
+      keywordsByLanguage: { fr: ["détox"] },
+      patterns: ["detox"],
+    };
+
+    test("reports a span matched by several keywords once", () => {
+      const [result] = matchPolicyRules([{ field: "title", text: "Café détox" }], [DETOX], { language: "fr" });
+      assert.equal(result.matches.length, 1);
+      assert.deepEqual(result.matchingWords, ["detox"]);
+    });
+  });
+});
@@ -0,0 +1,257 @@
+const SHOPIFY_DEFAULT_BUCKET = { capacity: 1000, restoreRate: 50 };
+const SHOPIFY_MAX_THROTTLE_RETRIES = 5;
+const LLM_MAX_CONCURRENCY = Number(process.env.LLM_MAX_CONCURRENCY ?? process.env.OPENAI_MAX_CONCURRENCY ?? 8);
+
+type TokenBucket = {
+  capacity: number;
+  available: number;
+  restoreRate: number;
+  updatedAt: number;
+  queue: Promise<void>;
+};
+
+type Semaphore = {
+  limit: number;
+  active: number;
+  waiters: Array<() => void>;
+};
+
+type LlmLimiter = {
+  cooldownUntil: number;
+  semaphore: Semaphore;
+};
+
+export type ShopifyThrottleStatus = {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __shopifyCostBuckets: Map<string, TokenBucket> | undefined;
+  // eslint-disable-next-line no-var
+  var __llmLimiters: Map<string, LlmLimiter> | undefined;
+}
+
+// Buckets live on globalThis so every scan running in this process for the same shop draws from one budget.
+const shopifyBuckets = globalThis.__shopifyCostBuckets ?? new Map<string, TokenBucket>();
+globalThis.__shopifyCostBuckets = shopifyBuckets;
+
+const llmLimiters = globalThis.__llmLimiters ?? new Map<string, LlmLimiter>();
+globalThis.__llmLimiters = llmLimiters;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+) {
+  const results = new Array<R>(items.length);
+  let cursor = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (cursor < items.length) {
+      const index = cursor;
+      cursor += 1;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+/**
+ * Runs an Admin GraphQL request against the shop's shared cost bucket. The bucket is debited with the
+ * expected query cost before the call and re-synced from `extensions.cost.throttleStatus` afterwards, and
+ * THROTTLED responses are retried once enough points have been restored.
+ */
+export async function throttledGraphql(
+  admin: any,
+  shopDomain: string,
+  query: string,
+  variables: Record<string, unknown>,
+  estimatedCost = 50,
+) {
+  const bucket = getShopifyBucket(shopDomain);
+
+  for (let attempt = 0; ; attempt += 1) {
+    await acquireTokens(bucket, estimatedCost);
+    try {
+      const response = await admin.graphql(query, { variables });
+      const body = await response.json();
+      const cost = body?.extensions?.cost;
+      if (cost?.throttleStatus) {
+        syncBucket(bucket, cost.throttleStatus);
+      }
+      if (isThrottledBody(body) && attempt < SHOPIFY_MAX_THROTTLE_RETRIES) {
+        await waitForRestore(bucket, cost?.requestedQueryCost ?? estimatedCost);
+        continue;
+      }
+      return {
+        body,
+        requestedQueryCost: Number(cost?.requestedQueryCost ?? estimatedCost),
+      };
+    } catch (error) {
+      if (!isThrottledError(error) || attempt >= SHOPIFY_MAX_THROTTLE_RETRIES) {
+        throw error;
+      }
+      bucket.available = 0;
+      bucket.updatedAt = Date.now();
+      await waitForRestore(bucket, estimatedCost);
+    }
+  }
+}
+
+/**
+ * Wraps an LLM call with a process-wide concurrency cap and 429/5xx retries. A `retry-after` header on a
+ * 429 pauses every caller of the same provider in this process, not only the one that was rejected.
+ */
+export async function withLlmRetry<T>(limiterKey: string, operation: () => Promise<T>, attempts = 3): Promise<T> {
+  const limiter = getLlmLimiter(limiterKey);
+  let lastError: unknown;
+  for (let attempt = 0; attempt < attempts; attempt += 1) {
+    const cooldown = limiter.cooldownUntil - Date.now();
+    if (cooldown > 0) {
+      await wait(cooldown);
+    }
+
+    await acquireSemaphore(limiter.semaphore);
+    let delay: number;
+    try {
+      return await operation();
+    } catch (error) {
+      lastError = error;
+      const status = getErrorStatus(error);
+      const retryable = status === 429 || (status !== undefined && status >= 500) || status === undefined;
+      if (!retryable || attempt === attempts - 1) {
+        throw error;
+      }
+      delay = getRetryAfterMs(error) ?? 500 * 2 ** attempt;
+      if (status === 429) {
+        limiter.cooldownUntil = Math.max(limiter.cooldownUntil, Date.now() + delay);
+      }
+    } finally {
+      releaseSemaphore(limiter.semaphore);
+    }
+    // The slot is given back before backing off so other callers are not blocked while this one sleeps.
+    await wait(delay);
+  }
+  throw lastError;
+}
+
+function getLlmLimiter(key: string) {
+  let limiter = llmLimiters.get(key);
+  if (!limiter) {
+    limiter = { cooldownUntil: 0, semaphore: { limit: LLM_MAX_CONCURRENCY, active: 0, waiters: [] } };
+    llmLimiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+function getShopifyBucket(shopDomain: string) {
+  let bucket = shopifyBuckets.get(shopDomain);
+  if (!bucket) {
+    bucket = {
+      capacity: SHOPIFY_DEFAULT_BUCKET.capacity,
+      available: SHOPIFY_DEFAULT_BUCKET.capacity,
+      restoreRate: SHOPIFY_DEFAULT_BUCKET.restoreRate,
+      updatedAt: Date.now(),
+      queue: Promise.resolve(),
+    };
+    shopifyBuckets.set(shopDomain, bucket);
+  }
+  return bucket;
+}
+
+function refill(bucket: TokenBucket) {
+  const now = Date.now();
+  const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+  bucket.available = Math.min(bucket.capacity, bucket.available + elapsedSeconds * bucket.restoreRate);
+  bucket.updatedAt = now;
+}
+
+function acquireTokens(bucket: TokenBucket, amount: number) {
+  // Waiters are chained so concurrent scans are served in order instead of all waking at the same moment.
+  const turn = bucket.queue.then(async () => {
+    const needed = Math.min(amount, bucket.capacity);
+    refill(bucket);
+    if (bucket.available < needed) {
+      await wait(((needed - bucket.available) / bucket.restoreRate) * 1000);
+      refill(bucket);
+    }
+    bucket.available -= needed;
+  });
+  bucket.queue = turn.catch(() => undefined);
+  return turn;
+}
+
+async function waitForRestore(bucket: TokenBucket, needed: number) {
+  refill(bucket);
+  const deficit = Math.max(0, Math.min(needed, bucket.capacity) - bucket.available);
+  await wait(Math.max(1000, (deficit / bucket.restoreRate) * 1000));
+}
+
+function syncBucket(bucket: TokenBucket, status: ShopifyThrottleStatus) {
+  bucket.capacity = Number(status.maximumAvailable) || bucket.capacity;
+  bucket.available = Number(status.currentlyAvailable);
+  bucket.restoreRate = Number(status.restoreRate) || bucket.restoreRate;
+  bucket.updatedAt = Date.now();
+}
+
+function isThrottledBody(body: any) {
+  return Array.isArray(body?.errors) && body.errors.some((error: any) => error?.extensions?.code === "THROTTLED");
+}
+
+function isThrottledError(error: any) {
+  if (!error) return false;
+  const graphQLErrors = error.body?.errors?.graphQLErrors ?? error.body?.errors ?? error.errors;
+  if (Array.isArray(graphQLErrors) && graphQLErrors.some((item: any) => item?.extensions?.code === "THROTTLED")) {
+    return true;
+  }
+  return getErrorStatus(error) === 429 || /throttled/i.test(String(error.message ?? ""));
+}
+
+function getErrorStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.response?.status ?? error?.response?.code;
+  return typeof status === "number" ? status : undefined;
+}
+
+function getRetryAfterMs(error: any) {
+  const headers = error?.headers ?? error?.response?.headers;
+  if (!headers) return undefined;
+  const read = (name: string) =>
+    typeof headers.get === "function" ? headers.get(name) : headers[name] ?? headers[name.toLowerCase()];
+
+  const retryAfterMs = Number(read("retry-after-ms"));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = read("retry-after");
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function acquireSemaphore(semaphore: Semaphore) {
+  if (semaphore.active < semaphore.limit) {
+    semaphore.active += 1;
+    return;
+  }
+  // The releasing caller hands its slot straight to the next waiter, so `active` is not touched here.
+  await new Promise<void>((resolve) => semaphore.waiters.push(resolve));
+}
+
+function releaseSemaphore(semaphore: Semaphore) {
+  const next = semaphore.waiters.shift();
+  if (next) {
+    next();
+    return;
+  }
+  semaphore.active -= 1;
+}
@@ -0,0 +1,294 @@
+/**
+ * Parsing and editing for Online Store 2.0 JSON templates (`templates/*.json`) and the `{% schema %}` blocks of the
+ * section files they reference. Edits address a single setting by path and are validated before serialising, so a
+ * fix can never produce invalid JSON or land in a different block.
+ */
+
+export type TemplateBlock = {
+  type: string;
+  settings?: Record<string, unknown>;
+  disabled?: boolean;
+  [key: string]: unknown;
+};
+
+export type TemplateSection = {
+  type: string;
+  settings?: Record<string, unknown>;
+  blocks?: Record<string, TemplateBlock>;
+  block_order?: string[];
+  disabled?: boolean;
+  [key: string]: unknown;
+};
+
+export type JsonTemplate = {
+  sections: Record<string, TemplateSection>;
+  order: string[];
+  [key: string]: unknown;
+};
+
+export type ParsedJsonTemplate = {
+  /** The comment Shopify writes above generated templates; kept so saving does not strip it. */
+  header: string;
+  template: JsonTemplate;
+};
+
+export type SchemaSetting = {
+  id?: string;
+  type: string;
+  label?: string;
+  default?: unknown;
+};
+
+export type SectionSchema = {
+  name?: string;
+  settings?: SchemaSetting[];
+  blocks?: Array<{ type: string; name?: string; settings?: SchemaSetting[] }>;
+};
+
+export type TemplateSettingPath = {
+  sectionId: string;
+  blockId?: string;
+  key: string;
+};
+
+export type TemplateTextSetting = {
+  path: string;
+  sectionType: string;
+  blockType?: string;
+  label?: string;
+  value: string;
+  /** The value comes from the section schema default; the template does not set it. */
+  isDefault?: boolean;
+};
+
+export class TemplateParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateParseError";
+  }
+}
+
+export class TemplatePathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplatePathError";
+  }
+}
+
+// Setting types that hold merchant-visible copy; everything else (colours, ranges, resource pickers) is left alone.
+const TEXT_SETTING_TYPES = ["text", "textarea", "richtext", "inline_richtext", "html", "liquid"];
+
+const PATH_PATTERN = /^sections\.([^.]+)\.(?:blocks\.([^.]+)\.)?settings\.([^.]+)$/;
+const HEADER_PATTERN = /^\s*\/\*[\s\S]*?\*\/\s*/;
+const SCHEMA_PATTERN = /\{%-?\s*schema\s*-?%\}([\s\S]*?)\{%-?\s*endschema\s*-?%\}/;
+
+export function isJsonTemplateKey(key: string | null | undefined) {
+  return Boolean(key && /^(templates|sections)\/.+\.json$/.test(key));
+}
+
+export function parseJsonTemplate(raw: string): ParsedJsonTemplate {
+  const header = raw.match(HEADER_PATTERN)?.[0] ?? "";
+  let template: unknown;
+  try {
+    template = JSON.parse(raw.slice(header.length));
+  } catch (error) {
+    throw new TemplateParseError(`Template is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  const issues = validateJsonTemplate(template);
+  if (issues.length) {
+    throw new TemplateParseError(`Template structure is invalid: ${issues.slice(0, 3).join("; ")}`);
+  }
+  return { header, template: template as JsonTemplate };
+}
+
+export function serializeJsonTemplate({ header, template }: ParsedJsonTemplate) {
+  const issues = validateJsonTemplate(template);
+  if (issues.length) {
+    throw new TemplateParseError(`Refusing to save an invalid template: ${issues.slice(0, 3).join("; ")}`);
+  }
+  return `${header}${JSON.stringify(template, null, 2)}\n`;
+}
+
+/** Structural checks Shopify also enforces: every section has a type, and `order`/`block_order` only name ids that exist. */
+export function validateJsonTemplate(value: unknown): string[] {
+  if (!isRecord(value)) return ["template should be an object"];
+  if (!isRecord(value.sections)) return ["sections should be an object"];
+  const issues: string[] = [];
+  const sectionIds = Object.keys(value.sections);
+
+  if (!Array.isArray(value.order)) {
+    issues.push("order should be an array");
+  } else {
+    value.order.filter((id) => !sectionIds.includes(id)).forEach((id) => issues.push(`order names missing section ${id}`));
+  }
+
+  Object.entries(value.sections).forEach(([sectionId, section]) => {
+    if (!isRecord(section) || typeof section.type !== "string") {
+      issues.push(`sections.${sectionId}.type should be a string`);
+      return;
+    }
+    if (section.settings !== undefined && !isRecord(section.settings)) {
+      issues.push(`sections.${sectionId}.settings should be an object`);
+    }
+    if (section.blocks === undefined) return;
+    if (!isRecord(section.blocks)) {
+      issues.push(`sections.${sectionId}.blocks should be an object`);
+      return;
+    }
+    const blockIds = Object.keys(section.blocks);
+    Object.entries(section.blocks).forEach(([blockId, block]) => {
+      if (!isRecord(block) || typeof block.type !== "string") {
+        issues.push(`sections.${sectionId}.blocks.${blockId}.type should be a string`);
+      } else if (block.settings !== undefined && !isRecord(block.settings)) {
+        issues.push(`sections.${sectionId}.blocks.${blockId}.settings should be an object`);
+      }
+    });
+    if (Array.isArray(section.block_order)) {
+      section.block_order
+        .filter((id) => !blockIds.includes(id))
+        .forEach((id) => issues.push(`sections.${sectionId}.block_order names missing block ${id}`));
+    }
+  });
+
+  return issues;
+}
+
+export function parseTemplatePath(path: string): TemplateSettingPath {
+  const match = path.match(PATH_PATTERN);
+  if (!match) {
+    throw new TemplatePathError(
+      `"${path}" is not a setting path; expected sections.<id>.settings.<key> or sections.<id>.blocks.<id>.settings.<key>`,
+    );
+  }
+  return { sectionId: match[1], blockId: match[2], key: match[3] };
+}
+
+/** `sections/<type>.liquid` for every section the template uses, in render order. App sections are skipped. */
+export function referencedSectionFiles(template: JsonTemplate) {
+  const ordered = [...template.order, ...Object.keys(template.sections).filter((id) => !template.order.includes(id))];
+  const keys = ordered
+    .map((id) => template.sections[id]?.type)
+    .filter((type): type is string => Boolean(type) && !type.includes("://") && !type.startsWith("_"))
+    .map((type) => `sections/${type}.liquid`);
+  return Array.from(new Set(keys));
+}
+
+export function parseSectionSchema(liquid: string): SectionSchema | null {
+  const body = liquid.match(SCHEMA_PATTERN)?.[1];
+  if (!body) return null;
+  try {
+    const schema = JSON.parse(body);
+    return isRecord(schema) ? (schema as SectionSchema) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every piece of merchant-visible text in the template, addressed by path. With the section schemas, settings are
+ * labelled, limited to text setting types, and schema defaults the template does not override are included.
+ */
+export function listTextSettings(template: JsonTemplate, schemas: Record<string, SectionSchema | null> = {}) {
+  const settings: TemplateTextSetting[] = [];
+  const collect = (
+    values: Record<string, unknown> | undefined,
+    schemaSettings: SchemaSetting[] | undefined,
+    base: string,
+    context: Pick<TemplateTextSetting, "sectionType" | "blockType">,
+  ) => {
+    if (schemaSettings) {
+      schemaSettings
+        .filter((setting) => setting.id && TEXT_SETTING_TYPES.includes(setting.type))
+        .forEach((setting) => {
+          const id = setting.id as string;
+          const current = values && id in values ? values[id] : setting.default;
+          if (typeof current !== "string" || !current.trim()) return;
+          settings.push({
+            path: `${base}.settings.${id}`,
+            ...context,
+            label: setting.label,
+            value: current,
+            isDefault: !(values && id in values),
+          });
+        });
+      return;
+    }
+    Object.entries(values ?? {}).forEach(([key, value]) => {
+      if (typeof value === "string" && looksLikeCopy(value)) {
+        settings.push({ path: `${base}.settings.${key}`, ...context, value });
+      }
+    });
+  };
+
+  Object.entries(template.sections).forEach(([sectionId, section]) => {
+    const schema = schemas[section.type] ?? null;
+    const base = `sections.${sectionId}`;
+    collect(section.settings, schema?.settings, base, { sectionType: section.type });
+    Object.entries(section.blocks ?? {}).forEach(([blockId, block]) => {
+      const blockSchema = schema?.blocks?.find((candidate) => candidate.type === block.type);
+      collect(block.settings, blockSchema?.settings, `${base}.blocks.${blockId}`, {
+        sectionType: section.type,
+        blockType: block.type,
+      });
+    });
+  });
+  return settings;
+}
+
+export function getTemplateSetting(template: JsonTemplate, path: string) {
+  const { sectionId, blockId, key } = parseTemplatePath(path);
+  const section = template.sections[sectionId];
+  if (!section) throw new TemplatePathError(`Section ${sectionId} does not exist in this template`);
+  if (!blockId) return section.settings?.[key];
+  const block = section.blocks?.[blockId];
+  if (!block) throw new TemplatePathError(`Block ${blockId} does not exist in section ${sectionId}`);
+  return block.settings?.[key];
+}
+
+/**
+ * Returns a copy of the template with one text setting replaced. `expected` is the value the fix was written
+ * against; if the setting has changed since, the edit is refused rather than overwriting newer copy. A setting the
+ * template does not set yet can be written only when the section schema declares it, using its default as `expected`.
+ */
+export function setTemplateSetting(
+  parsed: ParsedJsonTemplate,
+  path: string,
+  value: string,
+  { expected, schema }: { expected?: string; schema?: SectionSchema | null } = {},
+): ParsedJsonTemplate {
+  const { sectionId, blockId, key } = parseTemplatePath(path);
+  const template = structuredClone(parsed.template);
+  const section = template.sections[sectionId];
+  if (!section) throw new TemplatePathError(`Section ${sectionId} does not exist in this template`);
+  const target = blockId ? section.blocks?.[blockId] : section;
+  if (!target) throw new TemplatePathError(`Block ${blockId} does not exist in section ${sectionId}`);
+
+  const settings = (target.settings ??= {});
+  let current = settings[key];
+  if (current === undefined) {
+    const schemaSettings = blockId ? schema?.blocks?.find((block) => block.type === target.type)?.settings : schema?.settings;
+    const declared = schemaSettings?.find((setting) => setting.id === key);
+    if (!declared) throw new TemplatePathError(`${path} is not set in the template or declared by the section`);
+    current = declared.default ?? "";
+  }
+  if (typeof current !== "string") {
+    throw new TemplatePathError(`${path} is not a text setting`);
+  }
+  if (expected !== undefined && current !== expected) {
+    throw new TemplatePathError(`${path} has changed since the fix was suggested. Rescan the product to refresh it.`);
+  }
+
+  settings[key] = value;
+  const result = { header: parsed.header, template };
+  // Serialising validates the whole template once more before anything is written.
+  serializeJsonTemplate(result);
+  return result;
+}
+
+function looksLikeCopy(value: string) {
+  return /\s/.test(value.trim()) && !value.startsWith("shopify://") && !/^#[0-9a-f]{3,8}$/i.test(value);
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import {
+  getTemplateSetting,
+  listTextSettings,
+  parseJsonTemplate,
+  parseTemplatePath,
+  serializeJsonTemplate,
+  setTemplateSetting,
+  TemplateParseError,
+  TemplatePathError,
+  type SectionSchema,
+} from "./themeTemplate.server";
+
+const HEADER = `/*
+ * ------------------------------------------------------------
+ * IMPORTANT: The contents of this file are auto-generated.
+ * ------------------------------------------------------------
+ */
+`;
+
+const TEMPLATE = {
+  sections: {
+    main: {
+      type: "main-product",
+      settings: { heading: "Cures everything" },
+      blocks: {
+        text_1: { type: "text", settings: { text: "Miracle results in days" } },
+      },
+      block_order: ["text_1"],
+    },
+    banner: { type: "image-banner", settings: {} },
+  },
+  order: ["main", "banner"],
+};
+
+const BANNER_SCHEMA: SectionSchema = {
+  name: "Image banner",
+  settings: [
+    { id: "heading", type: "text", label: "Heading", default: "Feel the miracle" },
+    { id: "color", type: "color", default: "#ffffff" },
+  ],
+};
+
+const raw = `${HEADER}${JSON.stringify(TEMPLATE, null, 2)}\n`;
+
+describe("themeTemplate", () => {
+  test("keeps the header comment through a round trip", () => {
+    const parsed = parseJsonTemplate(raw);
+    assert.equal(parsed.header, HEADER);
+    assert.equal(serializeJsonTemplate(parsed), raw);
+  });
+
+  test("reads and writes a block-level setting", () => {
+    const path = "sections.main.blocks.text_1.settings.text";
+    assert.deepEqual(parseTemplatePath(path), { sectionId: "main", blockId: "text_1", key: "text" });
+
+    const parsed = parseJsonTemplate(raw);
+    assert.equal(getTemplateSetting(parsed.template, path), "Miracle results in days");
+    const updated = setTemplateSetting(parsed, path, "Results you can see", { expected: "Miracle results in days" });
+    assert.equal(getTemplateSetting(updated.template, path), "Results you can see");
+    assert.equal(getTemplateSetting(updated.template, "sections.main.settings.heading"), "Cures everything");
+    assert.equal(getTemplateSetting(parsed.template, path), "Miracle results in days");
+  });
+
+  test("lists and writes a setting only the section schema declares", () => {
+    const parsed = parseJsonTemplate(raw);
+    const banner = listTextSettings(parsed.template, { "image-banner": BANNER_SCHEMA }).filter(
+      (setting) => setting.sectionType === "image-banner",
+    );
+    assert.deepEqual(banner, [
+      {
+        path: "sections.banner.settings.heading",
+        sectionType: "image-banner",
+        label: "Heading",
+        value: "Feel the miracle",
+        isDefault: true,
+      },
+    ]);
+
+    const updated = setTemplateSetting(parsed, "sections.banner.settings.heading", "Feel refreshed", {
+      expected: "Feel the miracle",
+      schema: BANNER_SCHEMA,
+    });
+    assert.equal(getTemplateSetting(updated.template, "sections.banner.settings.heading"), "Feel refreshed");
+    assert.throws(
+      () => setTemplateSetting(parsed, "sections.banner.settings.subheading", "New", { schema: BANNER_SCHEMA }),
+      TemplatePathError,
+    );
+  });
+
+  test("refuses to write a setting that changed since the fix was suggested", () => {
+    const parsed = parseJsonTemplate(raw);
+    assert.throws(
+      () => setTemplateSetting(parsed, "sections.main.settings.heading", "Soothing", { expected: "Cures most things" }),
+      (error: unknown) => error instanceof TemplatePathError && /has changed/.test(error.message),
+    );
+  });
+
+  test("rejects order and block_order that name missing ids", () => {
+    const missingSection = JSON.stringify({ ...TEMPLATE, order: ["main", "footer"] });
+    assert.throws(
+      () => parseJsonTemplate(missingSection),
+      (error: unknown) => error instanceof TemplateParseError && /missing section footer/.test(error.message),
+    );
+
+    const missingBlock = JSON.stringify({
+      ...TEMPLATE,
+      sections: { ...TEMPLATE.sections, main: { ...TEMPLATE.sections.main, block_order: ["text_1", "text_2"] } },
+    });
+    assert.throws(
+      () => parseJsonTemplate(missingBlock),
+      (error: unknown) => error instanceof TemplateParseError && /missing block text_2/.test(error.message),
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import type { LlmProvider } from "./llm.server";
+import { completeStructured, type LlmResponseSchema } from "./llmSchema.server";
+import { languageName } from "./language.server";
+
+export type ProductImage = {
+  /** MediaImage GID, used to update the image's alt text. */
+  id: string;
+  url: string;
+  alt: string | null;
+};
+
+export type ImageFindingCategory = "before_after" | "overlay_claim" | "watermark" | "other";
+
+export type ImageFinding = {
+  category: ImageFindingCategory;
+  issue: string;
+  severity: "High" | "Medium" | "Low";
+  riskScore: number;
+  suggestion: string;
+  /** Overlay text the finding is about, as read from the image. */
+  quote?: string;
+};
+
+export type ImageAnalysis = {
+  /** Text printed on the image (OCR), empty when there is none. */
+  overlayText: string;
+  findings: ImageFinding[];
+  /** A compliant, descriptive alt text, or null when the current one is fine. */
+  suggestedAlt: string | null;
+};
+
+export type ImageAnalysisContext = {
+  market: string;
+  productTitle: string;
+  language?: string;
+};
+
+export interface ImageAnalyzer {
+  id: "vision" | "local";
+  analyze(image: ProductImage, context: ImageAnalysisContext): Promise<ImageAnalysis>;
+}
+
+export const IMAGE_FINDING_LABELS: Record<ImageFindingCategory, string> = {
+  before_after: "Before/after imagery",
+  overlay_claim: "Claim in image text",
+  watermark: "Watermark or promotional overlay",
+  other: "Image content",
+};
+
+const IMAGE_ANALYSIS_SCHEMA: LlmResponseSchema = {
+  name: "image_compliance_analysis",
+  schema: {
+    type: "object",
+    required: ["overlayText", "findings", "suggestedAlt"],
+    properties: {
+      overlayText: { type: "string" },
+      findings: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["category", "issue", "severity", "riskScore", "suggestion"],
+          properties: {
+            category: { type: "string", enum: ["before_after", "overlay_claim", "watermark", "other"] },
+            issue: { type: "string", minLength: 1 },
+            severity: { type: "string", enum: ["High", "Medium", "Low"] },
+            riskScore: { type: "number", minimum: 0, maximum: 1 },
+            suggestion: { type: "string" },
+            quote: { type: ["string", "null"] },
+          },
+        },
+      },
+      suggestedAlt: { type: ["string", "null"] },
+    },
+  },
+};
+
+type ImageAnalysisResponse = {
+  overlayText: string;
+  findings: Array<Omit<ImageFinding, "quote"> & { quote?: string | null }>;
+  suggestedAlt: string | null;
+};
+
+/**
+ * Picks how product images are checked: `IMAGE_ANALYZER=off` disables the stage, `local` uses the offline stand-in,
+ * and otherwise images go to the shop's model when it can read them. Returns null when images cannot be analyzed.
+ */
+export function resolveImageAnalyzer(llm: LlmProvider | null): ImageAnalyzer | null {
+  const configured = process.env.IMAGE_ANALYZER;
+  if (configured === "off") return null;
+  if (configured === "local") return createLocalImageAnalyzer();
+  return llm?.vision ? createVisionImageAnalyzer(llm) : null;
+}
+
+export function createVisionImageAnalyzer(llm: LlmProvider): ImageAnalyzer {
+  return {
+    id: "vision",
+    async analyze(image, { market, productTitle, language }) {
+      const { value } = await completeStructured<ImageAnalysisResponse>(
+        llm,
+        {
+          temperature: 0,
+          messages: [
+            {
+              role: "system",
+              content:
+                "You review Shopify product images for Google Ads and ecommerce compliance. Read all text printed on the image, then flag before/after comparisons, health or performance claims in overlay text, watermarks and promotional overlays. Return structured JSON only.",
+            },
+            {
+              role: "user",
+              content: `Market: ${market.toUpperCase()}
+Product title: ${productTitle}
+Product language: ${language ? `${languageName(language)} (${language})` : "Unknown"}
+Current alt text: ${image.alt?.trim() || "None"}
+Put every word printed on the image in "overlayText" exactly as written (empty string when there is none) and quote the offending words in "quote".
+Set "suggestedAlt" to a short, factual alt text in the product's language without claims, or null when the current alt text is already fine.
+Write "issue" in English and "suggestion" in the product's language.`,
+              images: [image.url],
+            },
+          ],
+        },
+        IMAGE_ANALYSIS_SCHEMA,
+      );
+
+      return {
+        overlayText: value.overlayText.trim(),
+        findings: value.findings.map((finding) => ({ ...finding, quote: finding.quote?.trim() || undefined })),
+        suggestedAlt: value.suggestedAlt?.trim() || null,
+      };
+    },
+  };
+}
+
+/** A deterministic stand-in for tests and offline runs; it never downloads the image and finds nothing unless told to. */
+export function createLocalImageAnalyzer(
+  respond?: (image: ProductImage, context: ImageAnalysisContext) => Partial<ImageAnalysis>,
+): ImageAnalyzer {
+  return {
+    id: "local",
+    async analyze(image, context) {
+      const analysis = respond?.(image, context) ?? {};
+      return {
+        overlayText: analysis.overlayText ?? "",
+        findings: analysis.findings ?? [],
+        suggestedAlt: analysis.suggestedAlt ?? null,
+      };
+    },
+  };
+}
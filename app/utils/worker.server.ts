@@ -0,0 +1,5 @@
+import { hostname } from "node:os";
+import { randomUUID } from "node:crypto";
+
+// Identifies this process when it leases background work (scan schedules, queued scans) in the database.
+export const WORKER_INSTANCE_ID = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "ScanSchedule" ADD COLUMN     "failureCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "lastStatus" TEXT,
+ADD COLUMN     "lockedBy" TEXT,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ScanSchedule_nextRun_idx" ON "ScanSchedule"("nextRun");
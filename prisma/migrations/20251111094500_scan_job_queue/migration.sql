@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN     "cancelRequested" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "currentProduct" TEXT,
+ADD COLUMN     "errorMessage" TEXT,
+ADD COLUMN     "lockedBy" TEXT,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3),
+ADD COLUMN     "progressDone" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "progressTotal" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Scan_status_idx" ON "Scan"("status");
+
+-- CreateIndex
+CREATE INDEX "Scan_shopDomain_startedAt_idx" ON "Scan"("shopDomain", "startedAt");
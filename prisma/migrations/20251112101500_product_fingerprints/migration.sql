@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN     "fullRescan" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "productsReused" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ProductFingerprint" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "market" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "rulesVersion" TEXT NOT NULL,
+    "scanId" TEXT,
+    "finding" JSONB,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductFingerprint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductFingerprint_shopDomain_productId_market_key" ON "ProductFingerprint"("shopDomain", "productId", "market");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "PendingProductRescan" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "lockedBy" TEXT,
+    "lockedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PendingProductRescan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PendingProductRescan_shopDomain_productId_key" ON "PendingProductRescan"("shopDomain", "productId");
+
+-- CreateIndex
+CREATE INDEX "PendingProductRescan_dueAt_idx" ON "PendingProductRescan"("dueAt");
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN "uninstalledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "DataRedactionAudit" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "customerId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "deleted" JSONB,
+    "errorMessage" TEXT,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "DataRedactionAudit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DataRedactionAudit_shopDomain_requestedAt_idx" ON "DataRedactionAudit"("shopDomain", "requestedAt");
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN "policyPackVersion" TEXT;
+
+-- CreateTable
+CREATE TABLE "PolicyPack" (
+    "id" TEXT NOT NULL,
+    "market" TEXT NOT NULL,
+    "parentMarket" TEXT,
+    "version" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "rules" JSONB NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PolicyPack_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PolicyPack_market_version_key" ON "PolicyPack"("market", "version");
+
+-- CreateIndex
+CREATE INDEX "PolicyPack_market_effectiveFrom_idx" ON "PolicyPack"("market", "effectiveFrom");
+
+-- Seed the packs that were previously hard-coded in app/data/policyKeywords.ts
+INSERT INTO "PolicyPack" ("id", "market", "parentMarket", "version", "name", "rules", "effectiveFrom") VALUES
+    ('policy-pack-default-2025.10', 'default', NULL, '2025.10', 'Global Google Ads policies', '[{"category": "Medical Claims", "severity": "high", "description": "Unsubstantiated medical or therapeutic promises", "keywords": ["cure", "miracle", "heal instantly", "reverse disease", "prescription strength"]}, {"category": "CBD / Controlled Substances", "severity": "high", "description": "Mentions of CBD, THC, or other restricted substances", "keywords": ["cbd", "thc", "cannabis", "hemp extract"]}, {"category": "Superlatives & Guarantees", "severity": "medium", "description": "Absolutes that often trigger Google Ads policy warnings", "keywords": ["best", "guaranteed", "100% success", "risk-free"]}, {"category": "Weight Loss Claims", "severity": "medium", "description": "Bold weight loss promises", "keywords": ["burn fat", "rapid weight loss", "lose inches", "detox"]}]'::jsonb, '2025-10-01 00:00:00'),
+    ('policy-pack-uk-2025.10', 'uk', 'default', '2025.10', 'United Kingdom (ASA / MHRA)', '[{"category": "Medicinal Claims (MHRA)", "severity": "high", "description": "UK MHRA regulated medicinal language", "keywords": ["mhra approved", "nhs backed", "treats", "clinical cure"]}]'::jsonb, '2025-10-01 00:00:00'),
+    ('policy-pack-us-2025.10', 'us', 'default', '2025.10', 'United States (FTC / FDA)', '[{"category": "FDA Compliance", "severity": "high", "description": "Statements implying FDA approval", "keywords": ["fda approved", "fda cleared"]}]'::jsonb, '2025-10-01 00:00:00'),
+    ('policy-pack-eu-2025.10', 'eu', 'default', '2025.10', 'European Union', '[{"category": "CE Marking", "severity": "medium", "description": "Missing CE or EU certification references", "keywords": ["ce mark", "ce certified"]}]'::jsonb, '2025-10-01 00:00:00'),
+    ('policy-pack-au-2025.10', 'au', 'default', '2025.10', 'Australia (TGA)', '[{"category": "TGA Advertising", "severity": "high", "description": "Australia TGA restricted wording", "keywords": ["tga approved", "australian register of therapeutic goods"]}]'::jsonb, '2025-10-01 00:00:00'),
+    ('policy-pack-de-2025.10', 'de', 'eu', '2025.10', 'Germany (HWG / UWG)', '[{"category": "Heilmittelwerbegesetz (HWG)", "severity": "high", "description": "German restrictions on health and healing claims", "keywords": ["heilt", "wundermittel", "ärztlich empfohlen", "garantiert wirksam"]}]'::jsonb, '2025-10-01 00:00:00');
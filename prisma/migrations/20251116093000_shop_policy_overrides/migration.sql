@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "CustomPolicyRule" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "market" TEXT NOT NULL DEFAULT 'all',
+    "category" TEXT NOT NULL,
+    "severity" TEXT NOT NULL DEFAULT 'medium',
+    "description" TEXT NOT NULL,
+    "keywords" JSONB NOT NULL,
+    "patterns" JSONB,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomPolicyRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PolicyAllowListEntry" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "term" TEXT NOT NULL,
+    "scope" TEXT NOT NULL DEFAULT 'global',
+    "targetId" TEXT,
+    "targetLabel" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PolicyAllowListEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CustomPolicyRule_shopDomain_idx" ON "CustomPolicyRule"("shopDomain");
+
+-- CreateIndex
+CREATE INDEX "PolicyAllowListEntry_shopDomain_idx" ON "PolicyAllowListEntry"("shopDomain");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN "mode" TEXT NOT NULL DEFAULT 'hybrid';
+
+-- AlterTable
+ALTER TABLE "ScanResult" ADD COLUMN "source" TEXT;
@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN "aiMonthlyTokenBudget" INTEGER,
+ADD COLUMN "aiMonthlyCostBudget" DOUBLE PRECISION,
+ADD COLUMN "aiBudgetAction" TEXT NOT NULL DEFAULT 'downgrade';
+
+-- CreateTable
+CREATE TABLE "AiUsage" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "scanId" TEXT,
+    "fixLogId" TEXT,
+    "productId" TEXT,
+    "operation" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AiUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AiUsage_shopDomain_createdAt_idx" ON "AiUsage"("shopDomain", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AiUsage_scanId_idx" ON "AiUsage"("scanId");
+
+-- CreateIndex
+CREATE INDEX "AiUsage_fixLogId_idx" ON "AiUsage"("fixLogId");
+
+-- AddForeignKey
+ALTER TABLE "AiUsage" ADD CONSTRAINT "AiUsage_scanId_fkey" FOREIGN KEY ("scanId") REFERENCES "Scan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AiUsage" ADD CONSTRAINT "AiUsage_fixLogId_fkey" FOREIGN KEY ("fixLogId") REFERENCES "FixLog"("id") ON DELETE SET NULL ON UPDATE CASCADE;
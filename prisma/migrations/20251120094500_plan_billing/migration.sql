@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN "planStatus" TEXT,
+ADD COLUMN "subscriptionId" TEXT,
+ADD COLUMN "usageLineItemId" TEXT,
+ADD COLUMN "planUpdatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN "productsSkipped" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "FixLog" ADD COLUMN "previousValue" JSONB,
+ADD COLUMN "rollbackOfId" TEXT,
+ADD COLUMN "revertedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "FixLog_shopDomain_appliedAt_idx" ON "FixLog"("shopDomain", "appliedAt");
+
+-- CreateIndex
+CREATE INDEX "FixLog_shopDomain_productId_idx" ON "FixLog"("shopDomain", "productId");
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN "fixApprovalRequired" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ShopStaff" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'staff',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShopStaff_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FixProposal" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "market" TEXT NOT NULL,
+    "scanId" TEXT,
+    "scope" TEXT NOT NULL,
+    "issueId" TEXT NOT NULL,
+    "issue" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "proposedBy" TEXT NOT NULL,
+    "proposedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewComment" TEXT,
+    "errorMessage" TEXT,
+    "fixLogId" TEXT,
+
+    CONSTRAINT "FixProposal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopStaff_shopDomain_userId_key" ON "ShopStaff"("shopDomain", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FixProposal_fixLogId_key" ON "FixProposal"("fixLogId");
+
+-- CreateIndex
+CREATE INDEX "FixProposal_shopDomain_status_idx" ON "FixProposal"("shopDomain", "status");
+
+-- CreateIndex
+CREATE INDEX "FixProposal_shopDomain_productId_idx" ON "FixProposal"("shopDomain", "productId");
+
+-- AddForeignKey
+ALTER TABLE "FixProposal" ADD CONSTRAINT "FixProposal_fixLogId_fkey" FOREIGN KEY ("fixLogId") REFERENCES "FixLog"("id") ON DELETE SET NULL ON UPDATE CASCADE;
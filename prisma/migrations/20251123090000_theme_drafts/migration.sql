@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ThemeDraft" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "activeFor" TEXT,
+    "sourceThemeId" TEXT NOT NULL,
+    "themeId" TEXT,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'creating',
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ThemeDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ThemeDraft_activeFor_key" ON "ThemeDraft"("activeFor");
+
+-- CreateIndex
+CREATE INDEX "ThemeDraft_shopDomain_createdAt_idx" ON "ThemeDraft"("shopDomain", "createdAt");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN     "markets" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "parentScanId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Scan_parentScanId_idx" ON "Scan"("parentScanId");
+
+-- AddForeignKey
+ALTER TABLE "Scan" ADD CONSTRAINT "Scan_parentScanId_fkey" FOREIGN KEY ("parentScanId") REFERENCES "Scan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
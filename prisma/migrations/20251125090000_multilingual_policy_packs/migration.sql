@@ -0,0 +1,8 @@
+-- Policy packs 2025.11: the 2025.10 rules plus per-language keyword sets (`keywordsByLanguage`)
+INSERT INTO "PolicyPack" ("id", "market", "parentMarket", "version", "name", "rules", "effectiveFrom") VALUES
+    ('policy-pack-default-2025.11', 'default', NULL, '2025.11', 'Global Google Ads policies', '[{"category": "Medical Claims", "severity": "high", "description": "Unsubstantiated medical or therapeutic promises", "keywords": ["cure", "miracle", "heal instantly", "reverse disease", "prescription strength"], "keywordsByLanguage": {"de": ["heilt", "heilung", "wundermittel", "sofortige heilung", "verschreibungsstark"], "es": ["cura", "curar", "milagro", "milagroso", "sana al instante", "revierte la enfermedad"], "fr": ["guérit", "guérir", "miracle", "miraculeux", "guérison instantanée", "inverse la maladie"], "it": ["guarisce", "miracoloso", "cura miracolosa", "guarigione istantanea"], "nl": ["geneest", "genezing", "wondermiddel", "wonderbaarlijk"]}}, {"category": "CBD / Controlled Substances", "severity": "high", "description": "Mentions of CBD, THC, or other restricted substances", "keywords": ["cbd", "thc", "cannabis", "hemp extract"], "keywordsByLanguage": {"de": ["hanfextrakt", "hanföl"], "es": ["extracto de cáñamo", "aceite de cáñamo"], "fr": ["extrait de chanvre", "huile de chanvre"], "it": ["estratto di canapa", "olio di canapa"], "nl": ["hennepextract", "hennepolie"]}}, {"category": "Superlatives & Guarantees", "severity": "medium", "description": "Absolutes that often trigger Google Ads policy warnings", "keywords": ["best", "guaranteed", "100% success", "risk-free"], "keywordsByLanguage": {"de": ["der beste", "die beste", "das beste", "garantiert", "risikofrei", "100% erfolg"], "es": ["el mejor", "la mejor", "garantizado", "garantizada", "sin riesgo", "100% de éxito"], "fr": ["le meilleur", "la meilleure", "garanti", "sans risque", "100% de réussite"], "it": ["il migliore", "la migliore", "garantito", "senza rischi", "successo al 100%"], "nl": ["de beste", "het beste", "gegarandeerd", "zonder risico", "100% succes"]}}, {"category": "Weight Loss Claims", "severity": "medium", "description": "Bold weight loss promises", "keywords": ["burn fat", "rapid weight loss", "lose inches", "detox"], "keywordsByLanguage": {"de": ["fettverbrennung", "schnell abnehmen", "entgiftung"], "es": ["quema grasa", "pérdida de peso rápida", "adelgazar rápido", "desintoxicación"], "fr": ["brûle les graisses", "perte de poids rapide", "maigrir vite", "détox"], "it": ["brucia grassi", "perdita di peso rapida", "dimagrire velocemente", "disintossicante"], "nl": ["vetverbranding", "snel afvallen", "ontgifting"]}}]'::jsonb, '2025-11-25 00:00:00'),
+    ('policy-pack-uk-2025.11', 'uk', 'default', '2025.11', 'United Kingdom (ASA / MHRA)', '[{"category": "Medicinal Claims (MHRA)", "severity": "high", "description": "UK MHRA regulated medicinal language", "keywords": ["mhra approved", "nhs backed", "treats", "clinical cure"]}]'::jsonb, '2025-11-25 00:00:00'),
+    ('policy-pack-us-2025.11', 'us', 'default', '2025.11', 'United States (FTC / FDA)', '[{"category": "FDA Compliance", "severity": "high", "description": "Statements implying FDA approval", "keywords": ["fda approved", "fda cleared"], "keywordsByLanguage": {"es": ["aprobado por la fda", "autorizado por la fda"]}}]'::jsonb, '2025-11-25 00:00:00'),
+    ('policy-pack-eu-2025.11', 'eu', 'default', '2025.11', 'European Union', '[{"category": "CE Marking", "severity": "medium", "description": "Missing CE or EU certification references", "keywords": ["ce mark", "ce certified"], "keywordsByLanguage": {"de": ["ce-kennzeichnung", "ce-zertifiziert"], "es": ["marcado ce", "certificado ce"], "fr": ["marquage ce", "certifié ce"], "it": ["marcatura ce", "certificato ce"], "nl": ["ce-markering", "ce-gecertificeerd"]}}]'::jsonb, '2025-11-25 00:00:00'),
+    ('policy-pack-au-2025.11', 'au', 'default', '2025.11', 'Australia (TGA)', '[{"category": "TGA Advertising", "severity": "high", "description": "Australia TGA restricted wording", "keywords": ["tga approved", "australian register of therapeutic goods"]}]'::jsonb, '2025-11-25 00:00:00'),
+    ('policy-pack-de-2025.11', 'de', 'eu', '2025.11', 'Germany (HWG / UWG)', '[{"category": "Heilmittelwerbegesetz (HWG)", "severity": "high", "description": "German restrictions on health and healing claims", "keywords": ["heilt", "wundermittel", "ärztlich empfohlen", "garantiert wirksam"], "keywordsByLanguage": {"en": ["heals", "miracle cure", "doctor recommended", "guaranteed effective"]}}]'::jsonb, '2025-11-25 00:00:00');
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ScanResult" ADD COLUMN     "field" TEXT;
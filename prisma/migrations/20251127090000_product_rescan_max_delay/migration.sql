@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PendingProductRescan" ADD COLUMN     "firstRequestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
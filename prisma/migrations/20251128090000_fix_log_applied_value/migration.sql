@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "FixLog" ADD COLUMN     "appliedValue" JSONB;